@@ -1,10 +1,10 @@
 const dts = require('rollup-plugin-dts').default;
 
-module.exports = {
-  input: './dist/esm/index.d.ts',
+module.exports = ['index', 'testing', 'openapi'].map(entry => ({
+  input: `./dist/esm/${entry}.d.ts`,
   output: {
-    file: './dist/index.d.ts',
+    file: `./dist/${entry}.d.ts`,
     format: 'es',
   },
   plugins: [dts()],
-};
+}));
@@ -0,0 +1,193 @@
+import axios, { AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { ApiKeyAuth, BasicAuth, BearerTokenAuth, OAuth2Auth } from './auth';
+
+const createConfig = (): InternalAxiosRequestConfig => ({ headers: new AxiosHeaders() });
+
+describe('auth', () => {
+  describe('BearerTokenAuth', () => {
+    it('should add a static bearer token', async () => {
+      const config = await new BearerTokenAuth('abc').authenticate(createConfig());
+      expect(config.headers.get('Authorization')).toBe('Bearer abc');
+    });
+
+    it('should call a token function for every request', async () => {
+      let count = 0;
+      const auth = new BearerTokenAuth(async () => `token-${++count}`);
+
+      await auth.authenticate(createConfig());
+      const config = await auth.authenticate(createConfig());
+
+      expect(config.headers.get('Authorization')).toBe('Bearer token-2');
+    });
+  });
+
+  describe('BasicAuth', () => {
+    it('should add base64 encoded credentials', async () => {
+      const config = await new BasicAuth('user', 'pässword').authenticate(createConfig());
+      expect(config.headers.get('Authorization')).toBe(
+        `Basic ${Buffer.from('user:pässword').toString('base64')}`
+      );
+    });
+  });
+
+  describe('ApiKeyAuth', () => {
+    it('should add the key to a header', async () => {
+      const config = await new ApiKeyAuth({ key: 'secret' }).authenticate(createConfig());
+      expect(config.headers.get('X-API-Key')).toBe('secret');
+    });
+
+    it('should add the key to the query string', async () => {
+      const config = await new ApiKeyAuth({ key: 'secret', name: 'key', in: 'query' }).authenticate(
+        { ...createConfig(), params: { page: 2 } }
+      );
+      expect(config.params).toEqual({ page: 2, key: 'secret' });
+      expect(config.headers.get('X-API-Key')).toBeUndefined();
+    });
+  });
+
+  describe('OAuth2Auth', () => {
+    let http: ReturnType<typeof axios.create>;
+    let mockHttp: MockAdapter;
+
+    beforeEach(() => {
+      http = axios.create();
+      mockHttp = new MockAdapter(http);
+    });
+
+    it('should request a token with the client credentials grant', async () => {
+      let body: URLSearchParams | undefined;
+
+      mockHttp.onPost('https://auth.example.com/token').reply(config => {
+        body = new URLSearchParams(config.data);
+        return [200, { access_token: 'abc', expires_in: 3600 }];
+      });
+
+      const auth = new OAuth2Auth({
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'id',
+        clientSecret: 'secret',
+        scope: 'read',
+        axios: http,
+      });
+      const config = await auth.authenticate(createConfig());
+
+      expect(config.headers.get('Authorization')).toBe('Bearer abc');
+      expect(Object.fromEntries(body!)).toEqual({
+        grant_type: 'client_credentials',
+        client_id: 'id',
+        client_secret: 'secret',
+        scope: 'read',
+      });
+    });
+
+    it('should send client credentials with basic auth when configured', async () => {
+      let authorization: string | undefined;
+
+      mockHttp.onPost('/token').reply(config => {
+        authorization = config.headers!.Authorization;
+        return [200, { access_token: 'abc' }];
+      });
+
+      const auth = new OAuth2Auth({
+        tokenUrl: '/token',
+        clientId: 'id',
+        clientSecret: 'secret',
+        clientAuthentication: 'basic',
+        axios: http,
+      });
+      await auth.getToken();
+
+      expect(authorization).toBe(`Basic ${Buffer.from('id:secret').toString('base64')}`);
+    });
+
+    it('should form encode the client credentials before base64 encoding them', async () => {
+      let authorization: string | undefined;
+
+      mockHttp.onPost('/token').reply(config => {
+        authorization = config.headers!.Authorization;
+        return [200, { access_token: 'abc' }];
+      });
+
+      const auth = new OAuth2Auth({
+        tokenUrl: '/token',
+        clientId: 'app:1',
+        clientSecret: '100% sécret',
+        clientAuthentication: 'basic',
+        axios: http,
+      });
+      await auth.getToken();
+
+      expect(authorization).toBe(
+        `Basic ${Buffer.from('app%3A1:100%25+s%C3%A9cret').toString('base64')}`
+      );
+    });
+
+    it('should reuse a token until it is about to expire', async () => {
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      let count = 0;
+
+      mockHttp.onPost('/token').reply(() => [200, { access_token: `t${++count}`, expires_in: 60 }]);
+
+      const auth = new OAuth2Auth({
+        tokenUrl: '/token',
+        clientId: 'id',
+        expiryMargin: 10000,
+        axios: http,
+      });
+
+      try {
+        expect((await auth.getToken()).accessToken).toBe('t1');
+        dateSpy.mockReturnValue(now + 49000);
+        expect((await auth.getToken()).accessToken).toBe('t1');
+        dateSpy.mockReturnValue(now + 51000);
+        expect((await auth.getToken()).accessToken).toBe('t2');
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
+
+    it('should share a single token request between concurrent callers', async () => {
+      let count = 0;
+
+      mockHttp.onPost('/token').reply(() => [200, { access_token: `t${++count}` }]);
+
+      const auth = new OAuth2Auth({ tokenUrl: '/token', clientId: 'id', axios: http });
+      const tokens = await Promise.all([auth.getToken(), auth.getToken(), auth.getToken()]);
+
+      expect(count).toBe(1);
+      expect(tokens.map(token => token.accessToken)).toEqual(['t1', 't1', 't1']);
+    });
+
+    it('should use and rotate the refresh token', async () => {
+      const grants: Record<string, string>[] = [];
+      const onToken = jest.fn();
+
+      mockHttp.onPost('/token').reply(config => {
+        grants.push(Object.fromEntries(new URLSearchParams(config.data)));
+        return [200, { access_token: `t${grants.length}`, refresh_token: `r${grants.length}` }];
+      });
+
+      const auth = new OAuth2Auth({
+        tokenUrl: '/token',
+        clientId: 'id',
+        accessToken: 'initial',
+        refreshToken: 'r0',
+        axios: http,
+        onToken,
+      });
+
+      expect((await auth.getToken()).accessToken).toBe('initial');
+
+      await auth.refresh();
+      await auth.refresh();
+
+      expect(grants.map(grant => [grant.grant_type, grant.refresh_token])).toEqual([
+        ['refresh_token', 'r0'],
+        ['refresh_token', 'r1'],
+      ]);
+      expect(onToken).toHaveBeenLastCalledWith({ accessToken: 't2', refreshToken: 'r2' });
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import axios from 'axios';
+import type { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * Adds credentials to outgoing requests. Providers that can obtain new credentials implement
+ * `refresh`, which the client calls (once, shared by all concurrent requests) when a request
+ * comes back with a 401 before replaying it.
+ */
+export interface AuthProvider {
+  /**
+   * Adds credentials to the request config. Called for every attempt, including retries and
+   * replays after a refresh.
+   */
+  authenticate(
+    config: InternalAxiosRequestConfig
+  ): InternalAxiosRequestConfig | Promise<InternalAxiosRequestConfig>;
+  /**
+   * Obtains new credentials after a request was rejected with a 401
+   */
+  refresh?(): Promise<void>;
+}
+
+/**
+ * Base64 encodes a (possibly non-ascii) string
+ *
+ * @param value - The string to encode
+ * @returns The base64 encoded string
+ */
+const base64 = (value: string): string => {
+  let binary = '';
+  new TextEncoder().encode(value).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+/**
+ * Encodes a value as `application/x-www-form-urlencoded`
+ *
+ * @param value - The value to encode
+ * @returns The encoded value
+ */
+const formEncode = (value: string): string =>
+  new URLSearchParams([['', value]]).toString().slice(1);
+
+/**
+ * Sends `Authorization: Bearer <token>`. The token can be a string or a function that returns
+ * the current token.
+ */
+export class BearerTokenAuth implements AuthProvider {
+  constructor(private token: string | (() => string | Promise<string>)) {}
+
+  async authenticate(config: InternalAxiosRequestConfig) {
+    const token = typeof this.token === 'function' ? await this.token() : this.token;
+    config.headers.set('Authorization', `Bearer ${token}`);
+    return config;
+  }
+}
+
+/**
+ * Sends `Authorization: Basic <base64(username:password)>`
+ */
+export class BasicAuth implements AuthProvider {
+  constructor(
+    private username: string,
+    private password: string
+  ) {}
+
+  authenticate(config: InternalAxiosRequestConfig) {
+    config.headers.set('Authorization', `Basic ${base64(`${this.username}:${this.password}`)}`);
+    return config;
+  }
+}
+
+export interface ApiKeyAuthOptions {
+  key: string;
+  /**
+   * The header or query parameter name. Defaults to 'X-API-Key' for headers and 'api_key' for
+   * query parameters
+   */
+  name?: string;
+  /**
+   * Where to send the key. Defaults to 'header'
+   */
+  in?: 'header' | 'query';
+}
+
+/**
+ * Sends an API key in a header or query parameter
+ */
+export class ApiKeyAuth implements AuthProvider {
+  constructor(private options: ApiKeyAuthOptions) {}
+
+  authenticate(config: InternalAxiosRequestConfig) {
+    const { key, in: location = 'header' } = this.options;
+
+    if (location === 'query') {
+      config.params = { ...config.params, [this.options.name || 'api_key']: key };
+    } else {
+      config.headers.set(this.options.name || 'X-API-Key', key);
+    }
+
+    return config;
+  }
+}
+
+export interface OAuth2Token {
+  accessToken: string;
+  refreshToken?: string;
+  /**
+   * Time the access token expires (ms since epoch)
+   */
+  expiresAt?: number;
+}
+
+export interface OAuth2AuthOptions {
+  /**
+   * The token endpoint
+   */
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scope?: string;
+  audience?: string;
+  /**
+   * A refresh token. When set, new access tokens are obtained with the `refresh_token` grant,
+   * otherwise the `client_credentials` grant is used
+   */
+  refreshToken?: string;
+  /**
+   * An initial access token, e.g. one obtained by an authorization code flow
+   */
+  accessToken?: string;
+  /**
+   * Time the initial access token expires (ms since epoch)
+   */
+  expiresAt?: number;
+  /**
+   * Tokens are refreshed this many ms before they expire. Defaults to 30000
+   */
+  expiryMargin?: number;
+  /**
+   * How to send the client credentials to the token endpoint. 'basic' sends them form encoded in
+   * an `Authorization: Basic` header, as RFC 6749 requires. Defaults to 'body'
+   */
+  clientAuthentication?: 'basic' | 'body';
+  /**
+   * The axios instance used to request tokens. Defaults to a new instance
+   */
+  axios?: AxiosInstance;
+  /**
+   * Called whenever new tokens are obtained, e.g. to persist a rotated refresh token
+   */
+  onToken?: (token: OAuth2Token) => void;
+}
+
+/**
+ * OAuth2 client credentials / refresh token provider. Access tokens are requested lazily,
+ * refreshed shortly before they expire, and concurrent requests share a single token request.
+ */
+export class OAuth2Auth implements AuthProvider {
+  private token: OAuth2Token | undefined;
+  private refreshToken: string | undefined;
+  private pending: Promise<OAuth2Token> | undefined;
+  private http: AxiosInstance;
+
+  constructor(private options: OAuth2AuthOptions) {
+    this.refreshToken = options.refreshToken;
+    this.http = options.axios || axios.create();
+
+    if (options.accessToken) {
+      this.token = {
+        accessToken: options.accessToken,
+        ...(options.expiresAt !== undefined && { expiresAt: options.expiresAt }),
+      };
+    }
+  }
+
+  async authenticate(config: InternalAxiosRequestConfig) {
+    const token = await this.getToken();
+    config.headers.set('Authorization', `Bearer ${token.accessToken}`);
+    return config;
+  }
+
+  async refresh() {
+    this.token = undefined;
+    await this.getToken();
+  }
+
+  /**
+   * Gets the current token, requesting a new one if there is none or it is about to expire
+   *
+   * @returns The token
+   */
+  async getToken(): Promise<OAuth2Token> {
+    const margin = this.options.expiryMargin ?? 30000;
+
+    if (this.token && (!this.token.expiresAt || this.token.expiresAt - margin > Date.now())) {
+      return this.token;
+    }
+
+    if (!this.pending) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = undefined;
+      });
+    }
+
+    return this.pending;
+  }
+
+  private async requestToken(): Promise<OAuth2Token> {
+    const { tokenUrl, clientId, clientSecret, scope, audience, clientAuthentication } =
+      this.options;
+    const body = new URLSearchParams();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+
+    if (this.refreshToken) {
+      body.set('grant_type', 'refresh_token');
+      body.set('refresh_token', this.refreshToken);
+    } else {
+      body.set('grant_type', 'client_credentials');
+    }
+
+    if (clientAuthentication === 'basic') {
+      // RFC 6749 section 2.3.1: the client id and secret are form encoded before base64
+      headers.Authorization = `Basic ${base64(
+        `${formEncode(clientId)}:${formEncode(clientSecret || '')}`
+      )}`;
+    } else {
+      body.set('client_id', clientId);
+
+      if (clientSecret) {
+        body.set('client_secret', clientSecret);
+      }
+    }
+
+    if (scope) {
+      body.set('scope', scope);
+    }
+
+    if (audience) {
+      body.set('audience', audience);
+    }
+
+    const { data } = await this.http.post(tokenUrl, body.toString(), { headers });
+
+    if (data.refresh_token) {
+      this.refreshToken = data.refresh_token;
+    }
+
+    const token: OAuth2Token = {
+      accessToken: data.access_token,
+      ...(this.refreshToken !== undefined && { refreshToken: this.refreshToken }),
+      ...(data.expires_in !== undefined && {
+        expiresAt: Date.now() + Number(data.expires_in) * 1000,
+      }),
+    };
+
+    this.token = token;
+    this.options.onToken?.(token);
+
+    return token;
+  }
+}
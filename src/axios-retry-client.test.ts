@@ -1,11 +1,34 @@
 // @ts-expect-error - jest doesn't understand the types
 import axios, { AxiosError } from 'axios';
-import { AxiosRetryClient, RequestType, ApiResponseError } from './axios-retry-client';
+import {
+  AxiosRetryClient,
+  RequestType,
+  ApiResponseError,
+  RetryAfterExceededError,
+  CircuitOpenError,
+  RateLimitQueueFullError,
+  ApiRequestError,
+  ApiTimeoutError,
+  DeadlineExceededError,
+  ApiNetworkError,
+  ApiCancelledError,
+  ApiRequestSetupError,
+  ResponseValidationError,
+} from './axios-retry-client';
+import { BearerTokenAuth } from './auth';
+import { PrometheusMetrics } from './metrics';
+import { cursorPagination, offsetPagination } from './paginate';
+import { InMemoryTracer, SpanKind, SpanStatusCode, parseTraceparent } from './tracing';
 import MockAdapter from 'axios-mock-adapter';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
 
 jest.mock('./logger', () => ({
   logData: jest.fn(),
   logInfo: jest.fn(),
+  logWarning: jest.fn(),
+  logError: jest.fn(),
 }));
 
 describe('AxiosRetryClient', () => {
@@ -114,6 +137,92 @@ describe('AxiosRetryClient', () => {
       expect(response.request.status).toBe(204);
     });
 
+    test('HEAD request', async () => {
+      mockAxios.onHead(testUrl).reply(200, undefined, { 'content-length': '42' });
+
+      const response = await client.head(testUrl);
+
+      expect(response.request.status).toBe(200);
+      expect(response.request.headers['content-length']).toBe('42');
+    });
+
+    test('OPTIONS request', async () => {
+      mockAxios.onOptions(testUrl).reply(204, undefined, { allow: 'GET, POST' });
+
+      const response = await client.options(testUrl);
+
+      expect(response.request.status).toBe(204);
+      expect(response.request.headers.allow).toBe('GET, POST');
+    });
+
+    test('request with a custom method and body', async () => {
+      const body = '<propfind xmlns="DAV:"><allprop/></propfind>';
+      const adapter = jest.fn(async (config: any) => ({
+        data: testData,
+        status: 207,
+        statusText: 'Multi-Status',
+        headers: {},
+        config,
+      }));
+      const davClient = new AxiosRetryClient({
+        baseURL: 'https://dav.example.com',
+        axiosConfig: { adapter },
+      });
+
+      const response = await davClient.request('propfind', testUrl, {
+        data: body,
+        headers: { Depth: '1' },
+      });
+
+      expect(response.data).toEqual(testData);
+      expect(response.request.status).toBe(207);
+      expect(adapter.mock.calls[0][0]).toMatchObject({
+        method: 'propfind',
+        url: testUrl,
+        data: body,
+      });
+      expect(adapter.mock.calls[0][0].headers.Depth).toBe('1');
+    });
+
+    test('request with a standard method', async () => {
+      const payload = { name: 'test' };
+      mockAxios.onPost(testUrl, payload).reply(201, testData);
+
+      const response = await client.request(RequestType.POST, testUrl, { data: payload });
+
+      expect(response.request.status).toBe(201);
+    });
+
+    test('request runs the filter, hooks and error handling', async () => {
+      const onRequest = jest.fn();
+      const adapter = jest.fn(async (config: any) => {
+        const response = {
+          data: { error: 'Locked' },
+          status: 423,
+          statusText: 'Locked',
+          headers: {},
+          config,
+        };
+
+        throw new AxiosError('Request failed', 'ERR_BAD_REQUEST', config, {}, response);
+      });
+      const davClient = new AxiosRetryClient({
+        baseURL: 'https://dav.example.com',
+        axiosConfig: { adapter },
+      });
+      const preRequestFilter = jest.spyOn(davClient as any, 'preRequestFilter');
+
+      const error = await davClient
+        .request('LOCK', testUrl, { hooks: { onRequest } })
+        .catch(error => error);
+
+      expect(error).toBeInstanceOf(ApiResponseError);
+      expect(error.message).toContain('LOCK /test');
+      expect(error.status).toBe(423);
+      expect(preRequestFilter).toHaveBeenCalledWith('LOCK', testUrl, undefined, expect.any(Object));
+      expect(onRequest).toHaveBeenCalledWith(expect.objectContaining({ method: 'LOCK' }));
+    });
+
     test('handles query parameters correctly', async () => {
       mockAxios.onGet('/test', { params: { foo: 'bar' } }).reply(200, { success: true });
 
@@ -181,6 +290,67 @@ describe('AxiosRetryClient', () => {
       await expect(client.get('/error')).rejects.toThrow();
     });
 
+    test('throws ApiNetworkError for network errors', async () => {
+      mockAxios.onGet('/network-error').networkError();
+
+      const error = await client.get('/network-error').catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiNetworkError);
+      expect(error).toBeInstanceOf(ApiRequestError);
+      expect(error).toMatchObject({ method: RequestType.GET, url: '/network-error', attempts: 1 });
+      expect(error.elapsed).toEqual(expect.any(Number));
+      expect(error.cause).toBeInstanceOf(AxiosError);
+    });
+
+    test('throws ApiTimeoutError for timeouts', async () => {
+      mockAxios.onGet('/timeout').timeout();
+
+      const error = await client.get('/timeout').catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiTimeoutError);
+      expect(error).not.toBeInstanceOf(DeadlineExceededError);
+      expect(error.timeout).toBe('attempt');
+    });
+
+    test('throws ApiCancelledError for cancelled requests', async () => {
+      mockAxios.onGet('/cancelled').reply(200, {});
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.get('/cancelled', { signal: controller.signal })).rejects.toThrow(
+        ApiCancelledError
+      );
+    });
+
+    test('throws ApiRequestSetupError when the request fails before it is sent', async () => {
+      client.axios.interceptors.request.use(() => {
+        throw new Error('bad config');
+      });
+
+      const error = await client.get('/setup-error').catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiRequestSetupError);
+      expect(error.message).toContain('bad config');
+    });
+
+    test('includes the attempt count across retries', async () => {
+      const retryClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: {
+          retries: 2,
+          retryDelay: () => 0,
+          retryCondition: () => true,
+        },
+      });
+
+      new MockAdapter(retryClient.axios).onGet('/network-error').networkError();
+
+      const error = await retryClient.get('/network-error').catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiNetworkError);
+      expect(error.attempts).toBe(3);
+    });
+
     test('handles error with non-standard response format', async () => {
       mockAxios.onGet('/error').reply(400, {
         errors: ['Invalid input'],  // Different format than message
@@ -250,78 +420,2210 @@ describe('AxiosRetryClient', () => {
       await expect(retryClient.get('/no-retry')).rejects.toThrow();
       expect(attemptCount).toBe(1);
     });
+
+    test('passes the previous delay of the call to a custom backoff', async () => {
+      const previousDelays: number[] = [];
+      const retryClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: {
+          retries: 3,
+          delayFactor: 1,
+          backoff: (retryCount, _error, { previousDelay }) => {
+            previousDelays.push(previousDelay);
+            return retryCount * 2;
+          },
+        },
+      });
+
+      new MockAdapter(retryClient.axios)
+        .onGet('/retry')
+        .replyOnce(503, {})
+        .onGet('/retry')
+        .replyOnce(503, {})
+        .onGet('/retry')
+        .replyOnce(503, {})
+        .onGet('/retry')
+        .reply(200, { success: true });
+
+      const response = await retryClient.get('/retry');
+
+      expect(response.data).toEqual({ success: true });
+      expect(previousDelays).toEqual([1, 2, 4]);
+    });
+
+    test('caps the retry delay at maxDelay', async () => {
+      const random = jest.fn(() => 0.5);
+      const retryClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: {
+          retries: 2,
+          backoff: 'decorrelated',
+          delayFactor: 60000,
+          maxDelay: 1,
+          random,
+        },
+      });
+
+      new MockAdapter(retryClient.axios).onGet('/retry').reply(503, {});
+
+      await expect(retryClient.get('/retry')).rejects.toThrow();
+      expect(random).toHaveBeenCalledTimes(2);
+    });
   });
 
-  describe('Request Modification', () => {
-    test('allows request modification through preRequestFilter', async () => {
-      class CustomClient extends AxiosRetryClient {
-        protected async preRequestFilter(
-          _requestType: RequestType,
-          _url: string,
-          data: any,
-          config: any
-        ) {
-          return {
-            data: { ...data, modified: true },
-            config: { ...config, headers: { 'X-Custom': 'test' } },
-          };
-        }
-      }
+  describe('Retry-After', () => {
+    test('uses the Retry-After header as the retry delay', async () => {
+      const retryClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: {
+          retries: 1,
+          delayFactor: 60000,
+          backoff: 'none',
+          respectRetryAfter: true,
+        },
+      });
 
-      const customClient = new CustomClient({
+      const mockRetryAxios = new MockAdapter(retryClient.axios);
+      let attemptCount = 0;
+
+      mockRetryAxios.onGet('/rate-limited').reply(() => {
+        attemptCount++;
+        return attemptCount < 2
+          ? [429, {}, { 'retry-after': '0' }]
+          : [200, { success: true }];
+      });
+
+      const response = await retryClient.get('/rate-limited');
+      expect(response.data).toEqual({ success: true });
+      expect(attemptCount).toBe(2);
+    });
+
+    test('fails fast when the server asks us to wait longer than maxRetryAfter', async () => {
+      const retryClient = new AxiosRetryClient({
         baseURL: 'https://api.example.com',
+        retryConfig: {
+          retries: 3,
+          respectRetryAfter: true,
+          maxRetryAfter: 1000,
+        },
       });
-      const mockCustomAxios = new MockAdapter(customClient.axios);
 
-      mockCustomAxios.onPost('/modified').reply((config) => {
-        expect(config.data).toContain('modified":true');
-        expect(config.headers!['X-Custom']).toBe('test');
-        return [200, { success: true }];
+      const mockRetryAxios = new MockAdapter(retryClient.axios);
+      let attemptCount = 0;
+
+      mockRetryAxios.onGet('/rate-limited').reply(() => {
+        attemptCount++;
+        return [503, { message: 'Unavailable' }, { 'retry-after': '120' }];
       });
 
-      await customClient.post('/modified', { original: true });
+      const error = await retryClient.get('/rate-limited').catch(e => e);
+
+      expect(error).toBeInstanceOf(RetryAfterExceededError);
+      expect(error).toBeInstanceOf(ApiResponseError);
+      expect(error).toMatchObject({ status: 503, retryAfter: 120000, maxRetryAfter: 1000 });
+      expect(attemptCount).toBe(1);
+    });
+
+    test('honors respectRetryAfter per request', async () => {
+      let attemptCount = 0;
+      mockAxios.onGet('/rate-limited').reply(() => {
+        attemptCount++;
+        return [429, {}, { 'x-ratelimit-reset': '3600' }];
+      });
+
+      await expect(
+        client.get('/rate-limited', {
+          retryConfig: { retries: 2, respectRetryAfter: true, maxRetryAfter: 5000 },
+        })
+      ).rejects.toThrow(RetryAfterExceededError);
+      expect(attemptCount).toBe(1);
     });
   });
 
-  describe('Debug Logging', () => {
+  describe('Retry Policies', () => {
+    let policyClient: AxiosRetryClient;
+    let mockPolicyAxios: MockAdapter;
+
     beforeEach(() => {
-      jest.clearAllMocks();
+      policyClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: {
+          retries: 1,
+          retryDelay: () => 0,
+          rules: [
+            { route: '/payments/*', retries: 0 },
+            { route: '/search', retries: 2 },
+            { status: 409, retries: 0 },
+            { status: [502, 503, 504], retries: 4 },
+            { status: 429, retries: 1, backoff: 'none', delayFactor: 10, jitter: false },
+            { code: 'ECONNRESET', method: [RequestType.GET, RequestType.POST], retries: 3 },
+          ],
+        },
+      });
+      mockPolicyAxios = new MockAdapter(policyClient.axios);
     });
 
-    test('logs verbose request details when debugLevel is verbose', async () => {
-      const verboseClient = new AxiosRetryClient({
+    const countAttempts = (method: 'onGet' | 'onPost', url: string, reply: () => any) => {
+      const attempts = { count: 0 };
+
+      mockPolicyAxios[method](url).reply(() => {
+        attempts.count++;
+        return reply();
+      });
+
+      return attempts;
+    };
+
+    test('retries each status with the count of its rule', async () => {
+      const unavailable = countAttempts('onGet', '/users', () => [503, {}]);
+      const conflict = countAttempts('onGet', '/conflict', () => [409, {}]);
+
+      await expect(policyClient.get('/users')).rejects.toThrow();
+      await expect(policyClient.get('/conflict')).rejects.toThrow();
+
+      expect(unavailable.count).toBe(5);
+      expect(conflict.count).toBe(1);
+    });
+
+    test('applies route rules to the errors the retry condition accepts', async () => {
+      const payments = countAttempts('onGet', '/payments/1', () => [503, {}]);
+      const search = countAttempts('onGet', '/search', () => [500, {}]);
+      const notFound = countAttempts('onGet', '/search?q=a', () => [404, {}]);
+
+      await expect(policyClient.get('/payments/1')).rejects.toThrow();
+      await expect(policyClient.get('/search')).rejects.toThrow();
+      await expect(policyClient.get('/search?q=a')).rejects.toThrow();
+
+      expect(payments.count).toBe(1);
+      expect(search.count).toBe(3);
+      expect(notFound.count).toBe(1);
+    });
+
+    test('falls back to the retry config when no rule matches', async () => {
+      const serverError = countAttempts('onGet', '/users', () => [500, {}]);
+      const created = countAttempts('onPost', '/users', () => [503, {}]);
+
+      await expect(policyClient.get('/users')).rejects.toThrow();
+      await expect(policyClient.post('/users', {})).rejects.toThrow();
+
+      expect(serverError.count).toBe(2);
+      expect(created.count).toBe(1);
+    });
+
+    test('retries error codes for the methods a rule lists', async () => {
+      const attempts = { count: 0 };
+
+      mockPolicyAxios.onPost('/users').reply(config => {
+        attempts.count++;
+
+        if (attempts.count < 3) {
+          return Promise.reject(new AxiosError('socket hang up', 'ECONNRESET', config as any));
+        }
+
+        return [201, { id: 1 }];
+      });
+
+      const response = await policyClient.post('/users', {});
+
+      expect(response.data).toEqual({ id: 1 });
+      expect(attempts.count).toBe(3);
+    });
+
+    test('uses the backoff of the matching rule', async () => {
+      const retryDelay = jest.fn(() => 0);
+      const onRetry = jest.fn();
+      const backoffClient = new AxiosRetryClient({
         baseURL: 'https://api.example.com',
-        debug: true,
-        debugLevel: 'verbose',
+        retryConfig: {
+          retryDelay,
+          onRetry,
+          rules: [{ status: 429, retries: 1, backoff: 'none', delayFactor: 5, jitter: false }],
+        },
       });
-      const mockVerboseAxios = new MockAdapter(verboseClient.axios);
+      const mockBackoffAxios = new MockAdapter(backoffClient.axios);
+      const startTime = Date.now();
 
-      mockVerboseAxios.onGet('/test').reply(200, { success: true });
+      mockBackoffAxios
+        .onGet('/rate-limited')
+        .replyOnce(429, {})
+        .onGet('/rate-limited')
+        .reply(200, {});
 
-      await verboseClient.get('/test');
+      await backoffClient.get('/rate-limited');
 
-      expect(require('./logger').logData).toHaveBeenCalledWith(
-        expect.stringContaining('GET /test'),
-        expect.objectContaining({ config: expect.any(Object) })
-      );
+      expect(retryDelay).not.toHaveBeenCalled();
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(5);
     });
 
-    test('logs normal request details when debugLevel is normal', async () => {
-      const normalClient = new AxiosRetryClient({
+    test('replaces the client rules with per-request rules', async () => {
+      const attempts = countAttempts('onGet', '/users', () => [503, {}]);
+
+      await expect(
+        policyClient.get('/users', { retryConfig: { rules: [{ status: 503, retries: 1 }] } })
+      ).rejects.toThrow();
+
+      expect(attempts.count).toBe(2);
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    test('fails fast with CircuitOpenError once the circuit is open', async () => {
+      const onStateChange = jest.fn();
+      const breakerClient = new AxiosRetryClient({
         baseURL: 'https://api.example.com',
-        debug: true,
-        debugLevel: 'normal',
+        circuitBreaker: {
+          failureThreshold: 2,
+          onStateChange,
+        },
       });
-      const mockNormalAxios = new MockAdapter(normalClient.axios);
 
-      mockNormalAxios.onPost('/test', { data: 'test' }).reply(200, { success: true });
+      const mockBreakerAxios = new MockAdapter(breakerClient.axios);
+      let attemptCount = 0;
 
-      await normalClient.post('/test', { data: 'test' });
+      mockBreakerAxios.onGet('/down').reply(() => {
+        attemptCount++;
+        return [503, { message: 'Unavailable' }];
+      });
 
-      expect(require('./logger').logData).toHaveBeenCalledWith(
-        expect.stringContaining('POST /test'),
-        expect.objectContaining({ data: { data: 'test' } })
-      );
+      await expect(breakerClient.get('/down')).rejects.toThrow(ApiResponseError);
+      await expect(breakerClient.get('/down')).rejects.toThrow(ApiResponseError);
+      await expect(breakerClient.get('/down')).rejects.toThrow(CircuitOpenError);
+
+      expect(attemptCount).toBe(2);
+      expect(onStateChange).toHaveBeenCalledWith({
+        key: 'api.example.com',
+        from: 'closed',
+        to: 'open',
+      });
+    });
+
+    test('keeps a separate circuit per host', async () => {
+      const breakerClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      const mockBreakerAxios = new MockAdapter(breakerClient.axios);
+      mockBreakerAxios.onGet('/down').reply(503, {});
+      mockBreakerAxios.onGet('https://other.example.com/up').reply(200, { success: true });
+
+      await expect(breakerClient.get('/down')).rejects.toThrow(ApiResponseError);
+      await expect(breakerClient.get('/down')).rejects.toThrow(CircuitOpenError);
+
+      const response = await breakerClient.get('https://other.example.com/up');
+      expect(response.data).toEqual({ success: true });
+    });
+
+    test('does not count client errors as failures', async () => {
+      const breakerClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      const mockBreakerAxios = new MockAdapter(breakerClient.axios);
+      mockBreakerAxios.onGet('/missing').reply(404, {});
+
+      await expect(breakerClient.get('/missing')).rejects.toThrow(ApiResponseError);
+      await expect(breakerClient.get('/missing')).rejects.toThrow(ApiResponseError);
+      expect(breakerClient.getCircuitBreaker('/missing')!.state).toBe('closed');
+    });
+
+    test('does not count cancelled requests as failures', async () => {
+      const breakerClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        circuitBreaker: { failureThreshold: 2 },
+        axiosConfig: {
+          adapter: (config: any) =>
+            new Promise((_, reject) => {
+              config.signal?.addEventListener('abort', () =>
+                reject(new AxiosError('canceled', AxiosError.ERR_CANCELED, config))
+              );
+            }),
+        },
+      });
+      const controller = new AbortController();
+      const requests = [
+        breakerClient.get('/slow', { signal: controller.signal }),
+        breakerClient.get('/slow', { signal: controller.signal }),
+      ];
+
+      controller.abort();
+
+      for (const request of requests) {
+        await expect(request).rejects.toThrow(ApiCancelledError);
+      }
+
+      expect(breakerClient.getCircuitBreaker('/slow')!.state).toBe('closed');
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    test('waits for a free slot when maxConcurrency is reached', async () => {
+      const limitedClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        rateLimit: { maxConcurrency: 1 },
+      });
+
+      const mockLimitedAxios = new MockAdapter(limitedClient.axios, { delayResponse: 20 });
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      mockLimitedAxios.onGet('/limited').reply(() => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        return new Promise(resolve =>
+          setTimeout(() => {
+            inFlight--;
+            resolve([200, { success: true }]);
+          }, 10)
+        );
+      });
+
+      await Promise.all([
+        limitedClient.get('/limited'),
+        limitedClient.get('/limited'),
+        limitedClient.get('/limited'),
+      ]);
+
+      expect(maxInFlight).toBe(1);
+      expect(limitedClient.rateLimiter!.pending).toBe(0);
+    });
+
+    test('rejects requests with RateLimitQueueFullError when the queue is full', async () => {
+      const limitedClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        rateLimit: { maxConcurrency: 1, maxQueueSize: 1 },
+      });
+
+      const mockLimitedAxios = new MockAdapter(limitedClient.axios, { delayResponse: 20 });
+      mockLimitedAxios.onGet('/limited').reply(200, { success: true });
+
+      const first = limitedClient.get('/limited');
+      const second = limitedClient.get('/limited');
+
+      while (limitedClient.rateLimiter!.queueSize < 1) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+
+      const third = limitedClient.get('/limited');
+
+      await expect(third).rejects.toThrow(RateLimitQueueFullError);
+      await expect(Promise.all([first, second])).resolves.toHaveLength(2);
+    });
+
+    test('sends every retry through the buckets', async () => {
+      const limitedClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: { retries: 2, retryDelay: () => 0 },
+        rateLimit: { limits: [{ limit: 1, interval: 100 }] },
+      });
+      const mockLimitedAxios = new MockAdapter(limitedClient.axios);
+      const sentAt: number[] = [];
+
+      mockLimitedAxios.onGet('/flaky').reply(() => {
+        sentAt.push(Date.now());
+        return sentAt.length < 3 ? [503, {}] : [200, { success: true }];
+      });
+
+      await expect(limitedClient.get('/flaky')).resolves.toMatchObject({
+        data: { success: true },
+      });
+      expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(90);
+      expect(sentAt[2] - sentAt[1]).toBeGreaterThanOrEqual(90);
+    });
+
+    test('frees the concurrency slot during retry delays', async () => {
+      const limitedClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: { retries: 1, retryDelay: () => 100 },
+        rateLimit: { maxConcurrency: 1 },
+      });
+      const mockLimitedAxios = new MockAdapter(limitedClient.axios);
+      const sent: string[] = [];
+
+      mockLimitedAxios.onGet('/flaky').replyOnce(() => {
+        sent.push('/flaky');
+        return [503, {}];
+      });
+      mockLimitedAxios.onGet('/flaky').replyOnce(() => {
+        sent.push('/flaky');
+        return [200, {}];
+      });
+      mockLimitedAxios.onGet('/users').reply(() => {
+        sent.push('/users');
+        return [200, []];
+      });
+
+      const flaky = limitedClient.get('/flaky');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await limitedClient.get('/users');
+      await flaky;
+
+      expect(sent).toEqual(['/flaky', '/users', '/flaky']);
+    });
+
+    test('leaves the queue when the request is aborted', async () => {
+      const limitedClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        rateLimit: { limits: [{ limit: 1, interval: 60000 }] },
+      });
+      const mockLimitedAxios = new MockAdapter(limitedClient.axios);
+      const controller = new AbortController();
+
+      mockLimitedAxios.onGet('/users').reply(200, []);
+
+      await limitedClient.get('/users');
+
+      const queued = limitedClient.get('/users', { signal: controller.signal });
+
+      while (limitedClient.rateLimiter!.queueSize < 1) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+
+      controller.abort();
+
+      await expect(queued).rejects.toThrow(ApiCancelledError);
+      expect(limitedClient.rateLimiter!.queueSize).toBe(0);
+      expect(mockLimitedAxios.history.get).toHaveLength(1);
+    });
+
+    test('frees the slot when an interceptor fails after taking it', async () => {
+      const limitedClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        rateLimit: { maxConcurrency: 1 },
+      });
+      const mockLimitedAxios = new MockAdapter(limitedClient.axios);
+
+      mockLimitedAxios.onPost('/users').reply(201, {});
+
+      await expect(
+        limitedClient.post('/users', undefined, {
+          buildData: () => {
+            throw new Error('boom');
+          },
+        })
+      ).rejects.toThrow();
+      expect(limitedClient.rateLimiter!.pending).toBe(0);
+      await expect(limitedClient.post('/users', {})).resolves.toMatchObject({ data: {} });
+    });
+
+    test('fails with DeadlineExceededError when the deadline passes in the queue', async () => {
+      const limitedClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        rateLimit: { limits: [{ limit: 1, interval: 60000 }] },
+      });
+      const mockLimitedAxios = new MockAdapter(limitedClient.axios);
+
+      mockLimitedAxios.onGet('/users').reply(200, []);
+
+      await limitedClient.get('/users');
+
+      await expect(limitedClient.get('/users', { deadline: 30 })).rejects.toThrow(
+        DeadlineExceededError
+      );
+      expect(limitedClient.rateLimiter!.queueSize).toBe(0);
+    });
+  });
+
+  describe('Response Validation', () => {
+    const isUser = (data: any): data is { id: number } => typeof data?.id === 'number';
+
+    test('returns the validated data when it matches the schema', async () => {
+      mockAxios.onGet('/users/1').reply(200, { id: 1 });
+
+      const { data } = await client.get('/users/1', { schema: isUser });
+
+      const id: number = data.id;
+      expect(id).toBe(1);
+    });
+
+    test('throws ResponseValidationError when the data does not match the schema', async () => {
+      mockAxios.onGet('/users/1').reply(200, { id: '1' });
+
+      const error = await client.get('/users/1', { schema: isUser }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error).toMatchObject({
+        data: { id: '1' },
+        status: 200,
+        issues: [{ message: 'Response failed validation', path: [] }],
+      });
+    });
+
+    test('uses the default schema for a route', async () => {
+      const schemaClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        responseSchemas: [{ route: '/users/:id', method: RequestType.GET, schema: isUser }],
+      });
+      const mockSchemaAxios = new MockAdapter(schemaClient.axios);
+
+      mockSchemaAxios.onGet('/users/1').reply(200, { name: 'test' });
+      mockSchemaAxios.onDelete('/users/1').reply(200, { name: 'test' });
+
+      await expect(schemaClient.get('/users/1')).rejects.toThrow(ResponseValidationError);
+      await expect(schemaClient.delete('/users/1')).resolves.toMatchObject({
+        data: { name: 'test' },
+      });
+    });
+  });
+
+  describe('Request Deduplication', () => {
+    test('coalesces identical in-flight GET requests', async () => {
+      const dedupeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        dedupe: true,
+      });
+      const mockDedupeAxios = new MockAdapter(dedupeClient.axios, { delayResponse: 10 });
+      let requestCount = 0;
+
+      mockDedupeAxios.onGet('/resource').reply(() => {
+        requestCount++;
+        return [200, { success: true }];
+      });
+
+      const responses = await Promise.all([
+        dedupeClient.get('/resource', { params: { a: 1, b: 2 } }),
+        dedupeClient.get('/resource', { params: { b: 2, a: 1 } }),
+      ]);
+
+      expect(requestCount).toBe(1);
+      expect(responses[0].data).toEqual({ success: true });
+      expect(responses[1].data).toEqual({ success: true });
+
+      await dedupeClient.get('/resource', { params: { a: 1, b: 2 } });
+      expect(requestCount).toBe(2);
+    });
+
+    test('keeps requests with different params or chosen headers separate', async () => {
+      const dedupeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        dedupe: { headers: ['Authorization'] },
+      });
+      const mockDedupeAxios = new MockAdapter(dedupeClient.axios, { delayResponse: 10 });
+      let requestCount = 0;
+
+      mockDedupeAxios.onGet('/resource').reply(() => {
+        requestCount++;
+        return [200, {}];
+      });
+
+      await Promise.all([
+        dedupeClient.get('/resource', { headers: { authorization: 'Bearer a' } }),
+        dedupeClient.get('/resource', { headers: { authorization: 'Bearer b' } }),
+        dedupeClient.get('/resource', { params: { page: 2 } }),
+        dedupeClient.get('/resource', { dedupe: false }),
+      ]);
+
+      expect(requestCount).toBe(4);
+    });
+
+    test('shares errors between coalesced requests', async () => {
+      const dedupeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        dedupe: { key: url => url },
+      });
+      const mockDedupeAxios = new MockAdapter(dedupeClient.axios, { delayResponse: 10 });
+      let requestCount = 0;
+
+      mockDedupeAxios.onGet('/error').reply(() => {
+        requestCount++;
+        return [500, { message: 'Internal Server Error' }];
+      });
+
+      const results = await Promise.allSettled([
+        dedupeClient.get('/error', { params: { a: 1 } }),
+        dedupeClient.get('/error', { params: { a: 2 } }),
+      ]);
+
+      expect(requestCount).toBe(1);
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    });
+
+    test('lets each coalesced request abort with its own signal and deadline', async () => {
+      const dedupeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        dedupe: true,
+      });
+      const mockDedupeAxios = new MockAdapter(dedupeClient.axios, { delayResponse: 50 });
+      const controller = new AbortController();
+
+      mockDedupeAxios.onGet('/resource').reply(200, { success: true });
+
+      const aborted = dedupeClient.get('/resource', { signal: controller.signal });
+      const timedOut = dedupeClient.get('/resource', { deadline: 10 });
+      const waiting = dedupeClient.get('/resource');
+
+      controller.abort();
+
+      await expect(aborted).rejects.toThrow(ApiCancelledError);
+      await expect(timedOut).rejects.toThrow(DeadlineExceededError);
+      await expect(waiting).resolves.toMatchObject({ data: { success: true } });
+      expect(mockDedupeAxios.history.get).toHaveLength(1);
+    });
+
+    test('aborts the shared request once every coalesced request is aborted', async () => {
+      const dedupeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        dedupe: true,
+        axiosConfig: {
+          adapter: (config: any) =>
+            new Promise((_, reject) => {
+              config.signal?.addEventListener('abort', () => {
+                sharedAborted = true;
+                reject(new AxiosError('canceled', AxiosError.ERR_CANCELED, config));
+              });
+            }),
+        },
+      });
+      const controller = new AbortController();
+      let sharedAborted = false;
+
+      const requests = [
+        dedupeClient.get('/resource', { signal: controller.signal }),
+        dedupeClient.get('/resource', { deadline: 20 }),
+      ];
+
+      controller.abort();
+      await expect(requests[0]).rejects.toThrow(ApiCancelledError);
+      expect(sharedAborted).toBe(false);
+
+      await expect(requests[1]).rejects.toThrow(DeadlineExceededError);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(sharedAborted).toBe(true);
+    });
+
+    test('does not coalesce requests with their own retry config', async () => {
+      const dedupeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        dedupe: true,
+      });
+      const mockDedupeAxios = new MockAdapter(dedupeClient.axios, { delayResponse: 10 });
+
+      mockDedupeAxios.onGet('/resource').reply(200, {});
+
+      await Promise.all([
+        dedupeClient.get('/resource'),
+        dedupeClient.get('/resource', { retryConfig: { retries: 0 } }),
+      ]);
+
+      expect(mockDedupeAxios.history.get).toHaveLength(2);
+    });
+  });
+
+  describe('Response Caching', () => {
+    test('serves a 304 from the cache', async () => {
+      const cacheClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        cache: true,
+      });
+      const mockCacheAxios = new MockAdapter(cacheClient.axios);
+
+      mockCacheAxios.onGet('/users/1').reply(config => {
+        if (config.headers?.['If-None-Match'] === '"v1"') {
+          return [304, ''];
+        }
+        return [200, { id: 1 }, { etag: '"v1"' }];
+      });
+
+      const first = await cacheClient.get('/users/1');
+      const second = await cacheClient.get('/users/1');
+
+      expect(first.cache).toEqual({ hit: false, status: 'miss', age: 0 });
+      expect(second.data).toEqual({ id: 1 });
+      expect(second.cache).toMatchObject({ hit: true, status: 'revalidated' });
+      expect(mockCacheAxios.history.get).toHaveLength(2);
+    });
+
+    test('bypasses the cache per request', async () => {
+      const cacheClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        cache: { defaultMaxAge: 60000 },
+      });
+      const mockCacheAxios = new MockAdapter(cacheClient.axios);
+      mockCacheAxios.onGet('/users/1').reply(200, { id: 1 });
+
+      await cacheClient.get('/users/1');
+      const cached = await cacheClient.get('/users/1');
+      const bypassed = await cacheClient.get('/users/1', { cache: false });
+
+      expect(cached.cache).toMatchObject({ hit: true, status: 'hit' });
+      expect(bypassed.cache).toBeUndefined();
+      expect(mockCacheAxios.history.get).toHaveLength(2);
+    });
+  });
+
+  describe('Idempotency Keys', () => {
+    test('sends the same idempotency key on every retry attempt', async () => {
+      const idempotentClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        idempotency: true,
+        retryConfig: { retries: 2, retryDelay: () => 0 },
+      });
+      const mockIdempotentAxios = new MockAdapter(idempotentClient.axios);
+      const keys: string[] = [];
+
+      mockIdempotentAxios.onPost('/payments').reply(config => {
+        keys.push(config.headers!['Idempotency-Key']);
+        return keys.length < 2 ? [503, {}] : [201, { id: 1 }];
+      });
+
+      const response = await idempotentClient.post('/payments', { amount: 100 });
+
+      expect(response.data).toEqual({ id: 1 });
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).toEqual(expect.any(String));
+      expect(keys[1]).toBe(keys[0]);
+    });
+
+    test('uses a caller supplied key and a custom header name', async () => {
+      const idempotentClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        idempotency: { header: 'X-Request-Key' },
+      });
+      const mockIdempotentAxios = new MockAdapter(idempotentClient.axios);
+
+      mockIdempotentAxios.onPatch('/orders/1').reply(config => [
+        200,
+        { key: config.headers!['X-Request-Key'] },
+      ]);
+
+      const response = await idempotentClient.patch('/orders/1', {}, { idempotencyKey: 'abc' });
+      expect(response.data).toEqual({ key: 'abc' });
+    });
+
+    test('does not add a key to idempotent requests', async () => {
+      const idempotentClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        idempotency: true,
+      });
+      const mockIdempotentAxios = new MockAdapter(idempotentClient.axios);
+
+      mockIdempotentAxios.onGet('/orders/1').reply(config => [
+        200,
+        { key: config.headers!['Idempotency-Key'] },
+      ]);
+
+      const response = await idempotentClient.get('/orders/1');
+      expect(response.data).toEqual({ key: undefined });
+    });
+
+    test('does not retry non-idempotent requests without a key', async () => {
+      class NoKeyClient extends AxiosRetryClient {
+        protected async preRequestFilter(
+          _requestType: RequestType,
+          _url: string,
+          data: any,
+          config: any
+        ) {
+          return { data, config: { ...config, headers: {} } };
+        }
+      }
+
+      const noKeyClient = new NoKeyClient({
+        baseURL: 'https://api.example.com',
+        idempotency: true,
+        retryConfig: { retries: 2, retryDelay: () => 0, retryCondition: () => true },
+      });
+      const mockNoKeyAxios = new MockAdapter(noKeyClient.axios);
+      let attemptCount = 0;
+
+      mockNoKeyAxios.onPost('/payments').reply(() => {
+        attemptCount++;
+        return [503, {}];
+      });
+
+      await expect(noKeyClient.post('/payments', {})).rejects.toThrow(ApiResponseError);
+      expect(attemptCount).toBe(1);
+    });
+  });
+
+  describe('Authentication', () => {
+    const createRefreshingAuth = () => {
+      let token = 'expired';
+      const auth = {
+        refreshCount: 0,
+        authenticate: (config: any) => {
+          config.headers.set('Authorization', `Bearer ${token}`);
+          return config;
+        },
+        refresh: async () => {
+          auth.refreshCount++;
+          await new Promise(resolve => setTimeout(resolve, 10));
+          token = `fresh-${auth.refreshCount}`;
+        },
+      };
+      return auth;
+    };
+
+    test('adds credentials to every attempt', async () => {
+      const authClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        auth: new BearerTokenAuth('abc'),
+        retryConfig: { retries: 1, retryDelay: () => 0 },
+      });
+      const mockAuthAxios = new MockAdapter(authClient.axios);
+      const headers: string[] = [];
+
+      mockAuthAxios.onGet('/me').reply(config => {
+        headers.push(config.headers!.Authorization);
+        return headers.length < 2 ? [503, {}] : [200, { id: 1 }];
+      });
+
+      await authClient.get('/me');
+      expect(headers).toEqual(['Bearer abc', 'Bearer abc']);
+    });
+
+    test('refreshes once and replays the request on a 401', async () => {
+      const auth = createRefreshingAuth();
+      const authClient = new AxiosRetryClient({ baseURL: 'https://api.example.com', auth });
+      const mockAuthAxios = new MockAdapter(authClient.axios);
+
+      mockAuthAxios
+        .onGet('/me')
+        .reply(config =>
+          config.headers!.Authorization === 'Bearer expired' ? [401, {}] : [200, { id: 1 }]
+        );
+
+      const response = await authClient.get('/me');
+
+      expect(response.data).toEqual({ id: 1 });
+      expect(auth.refreshCount).toBe(1);
+    });
+
+    test('concurrent requests share a single refresh', async () => {
+      const auth = createRefreshingAuth();
+      const authClient = new AxiosRetryClient({ baseURL: 'https://api.example.com', auth });
+      const mockAuthAxios = new MockAdapter(authClient.axios);
+
+      mockAuthAxios
+        .onGet(/\/items\/\d+/)
+        .reply(config =>
+          config.headers!.Authorization === 'Bearer expired' ? [401, {}] : [200, { ok: true }]
+        );
+
+      const responses = await Promise.all([1, 2, 3].map(id => authClient.get(`/items/${id}`)));
+
+      expect(responses.map(response => response.data)).toEqual([
+        { ok: true },
+        { ok: true },
+        { ok: true },
+      ]);
+      expect(auth.refreshCount).toBe(1);
+    });
+
+    test('does not refresh again when the replayed request is rejected', async () => {
+      const auth = createRefreshingAuth();
+      const authClient = new AxiosRetryClient({ baseURL: 'https://api.example.com', auth });
+      const mockAuthAxios = new MockAdapter(authClient.axios);
+      let attemptCount = 0;
+
+      mockAuthAxios.onGet('/me').reply(() => {
+        attemptCount++;
+        return [401, { error: 'unauthorized' }];
+      });
+
+      await expect(authClient.get('/me')).rejects.toMatchObject({ status: 401 });
+      expect(attemptCount).toBe(2);
+      expect(auth.refreshCount).toBe(1);
+    });
+
+    test('surfaces the original 401 when the refresh fails', async () => {
+      const authClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+          authenticate: config => config,
+          refresh: () => Promise.reject(new Error('invalid_grant')),
+        },
+      });
+      const mockAuthAxios = new MockAdapter(authClient.axios);
+
+      mockAuthAxios.onGet('/me').reply(401, {});
+
+      await expect(authClient.get('/me')).rejects.toThrow(ApiResponseError);
+    });
+  });
+
+  describe('Hooks', () => {
+    test('runs client hooks before request hooks in order', async () => {
+      const calls: string[] = [];
+      const hookClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        hooks: {
+          onRequest: () => {
+            calls.push('client:onRequest');
+          },
+          onResponse: () => {
+            calls.push('client:onResponse');
+          },
+          onComplete: () => {
+            calls.push('client:onComplete');
+          },
+        },
+      });
+      const mockHookAxios = new MockAdapter(hookClient.axios);
+
+      hookClient.use({
+        onRequest: () => {
+          calls.push('use:onRequest');
+        },
+      });
+      mockHookAxios.onGet('/users').reply(200, []);
+
+      await hookClient.get('/users', {
+        hooks: {
+          onRequest: () => {
+            calls.push('request:onRequest');
+          },
+          onResponse: () => {
+            calls.push('request:onResponse');
+          },
+          onComplete: () => {
+            calls.push('request:onComplete');
+          },
+        },
+      });
+
+      expect(calls).toEqual([
+        'client:onRequest',
+        'use:onRequest',
+        'request:onRequest',
+        'client:onResponse',
+        'request:onResponse',
+        'client:onComplete',
+        'request:onComplete',
+      ]);
+    });
+
+    test('onRequest hooks can modify the request', async () => {
+      const hookClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        hooks: {
+          onRequest: context => {
+            context.data = { ...context.data, source: 'hook' };
+            context.config = { ...context.config, headers: { 'X-Trace': '1' } };
+          },
+        },
+      });
+      const mockHookAxios = new MockAdapter(hookClient.axios);
+
+      mockHookAxios
+        .onPost('/events')
+        .reply(config => [
+          201,
+          { body: JSON.parse(config.data), trace: config.headers!['X-Trace'] },
+        ]);
+
+      const response = await hookClient.post('/events', { type: 'click' });
+      expect(response.data).toEqual({ body: { type: 'click', source: 'hook' }, trace: '1' });
+    });
+
+    test('onRequest hooks can short-circuit with a synthetic response', async () => {
+      const laterHook = jest.fn();
+      const hookClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        hooks: [
+          { onRequest: () => ({ response: { data: { cached: true } } }) },
+          { onRequest: laterHook },
+        ],
+      });
+      const mockHookAxios = new MockAdapter(hookClient.axios);
+
+      const response = await hookClient.get('/users');
+
+      expect(response.data).toEqual({ cached: true });
+      expect(response.request.status).toBe(200);
+      expect(laterHook).not.toHaveBeenCalled();
+      expect(mockHookAxios.history.get).toHaveLength(0);
+    });
+
+    test('onResponse hooks can replace the response', async () => {
+      mockAxios.onGet('/users').reply(200, { items: [1, 2] });
+
+      const response = await client.get('/users', {
+        hooks: { onResponse: response => ({ ...response, data: response.data.items }) },
+      });
+
+      expect(response.data).toEqual([1, 2]);
+    });
+
+    test('onError hooks can recover with a synthetic response or replace the error', async () => {
+      mockAxios.onGet('/flaky').reply(500, {});
+
+      const recovered = await client.get('/flaky', {
+        hooks: { onError: () => ({ response: { data: 'fallback', status: 203 } }) },
+      });
+      expect(recovered.data).toBe('fallback');
+      expect(recovered.request.status).toBe(203);
+
+      await expect(
+        client.get('/flaky', {
+          hooks: {
+            onError: error => {
+              throw new Error('wrapped', { cause: error });
+            },
+          },
+        })
+      ).rejects.toThrow('wrapped');
+    });
+
+    test('onRetry runs before each retry and onComplete reports the error', async () => {
+      const onRetry = jest.fn();
+      const onComplete = jest.fn();
+      const hookClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: { retries: 2, retryDelay: () => 0 },
+        hooks: { onRetry, onComplete },
+      });
+      const mockHookAxios = new MockAdapter(hookClient.axios);
+
+      mockHookAxios.onGet('/down').reply(503, {});
+
+      await expect(hookClient.get('/down')).rejects.toThrow(ApiResponseError);
+
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenLastCalledWith(
+        2,
+        expect.any(AxiosError),
+        expect.objectContaining({ method: RequestType.GET, url: '/down' })
+      );
+      expect(onComplete).toHaveBeenCalledWith(
+        {
+          error: expect.any(ApiResponseError),
+          duration: expect.any(Number),
+          metrics: expect.objectContaining({ attempts: 3, outcome: 'http_error', status: 503 }),
+        },
+        expect.objectContaining({ url: '/down' })
+      );
+    });
+
+    test('removes hooks added with use', async () => {
+      const onRequest = jest.fn();
+      const remove = client.use({ onRequest });
+
+      mockAxios.onGet('/users').reply(200, []);
+
+      await client.get('/users');
+      remove();
+      await client.get('/users');
+
+      expect(onRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Hedging', () => {
+    const delayed = (ms: number, response: [number, any]) =>
+      new Promise<[number, any]>(resolve => setTimeout(() => resolve(response), ms));
+
+    test('uses the hedged response when the first attempt is slow', async () => {
+      const sink = { increment: jest.fn(), observe: jest.fn() };
+      const hedgeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        name: 'Hedged',
+        hedge: { delay: 20 },
+        metrics: { sink, routes: ['/users/:id'] },
+      });
+      const mockHedgeAxios = new MockAdapter(hedgeClient.axios);
+      let attemptCount = 0;
+
+      mockHedgeAxios.onGet('/users/1').reply(() => {
+        attemptCount++;
+        return attemptCount === 1 ? delayed(300, [200, 'slow']) : delayed(5, [200, 'fast']);
+      });
+
+      const response = await hedgeClient.get('/users/1');
+
+      expect(response.data).toBe('fast');
+      expect(response.metrics!.attempts).toBe(2);
+      expect(attemptCount).toBe(2);
+      expect(sink.increment).toHaveBeenCalledWith('http_client_hedges_total', {
+        client: 'Hedged',
+        method: 'GET',
+        route: '/users/:id',
+        outcome: 'won',
+      });
+
+      const attemptsRecorded = () =>
+        sink.increment.mock.calls.filter(([name]) => name === 'http_client_attempts_total');
+
+      // the slow request that lost is counted once it finishes
+      while (attemptsRecorded().length < 2) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      expect(attemptsRecorded()).toHaveLength(2);
+    });
+
+    test('only hedges GET requests that have not opted out', async () => {
+      const hedgeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        hedge: { delay: 10 },
+      });
+      const mockHedgeAxios = new MockAdapter(hedgeClient.axios);
+      let attemptCount = 0;
+
+      mockHedgeAxios.onAny('/users').reply(() => {
+        attemptCount++;
+        return delayed(40, [200, {}]);
+      });
+
+      await hedgeClient.get('/users', { hedge: false });
+      await hedgeClient.post('/users', {});
+
+      expect(attemptCount).toBe(2);
+    });
+
+    test('does not hedge when the rate limiter has no free slot', async () => {
+      const hedgeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        hedge: { delay: 10 },
+        rateLimit: { maxConcurrency: 1 },
+      });
+      const mockHedgeAxios = new MockAdapter(hedgeClient.axios);
+      let attemptCount = 0;
+
+      mockHedgeAxios.onGet('/users').reply(() => {
+        attemptCount++;
+        return delayed(60, [200, attemptCount]);
+      });
+
+      const response = await hedgeClient.get('/users');
+
+      expect(response.data).toBe(1);
+      expect(response.metrics!.attempts).toBe(1);
+      expect(attemptCount).toBe(1);
+      expect(hedgeClient.rateLimiter!.pending).toBe(0);
+    });
+
+    test('hedges a request that passes hedging options', async () => {
+      let attemptCount = 0;
+
+      mockAxios.onGet('/users').reply(() => {
+        attemptCount++;
+        return delayed(attemptCount === 1 ? 300 : 5, [200, attemptCount]);
+      });
+
+      const response = await client.get('/users', { hedge: { delay: 10 } });
+
+      expect(response.data).toBe(2);
+    });
+  });
+
+  describe('Metrics', () => {
+    test('returns the attempt count, outcome and timings', async () => {
+      const retryClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: { retries: 2, retryDelay: () => 0 },
+      });
+      const mockRetryAxios = new MockAdapter(retryClient.axios);
+
+      mockRetryAxios.onGet('/users').replyOnce(503, {}).onGet('/users').replyOnce(200, []);
+
+      const { metrics } = await retryClient.get('/users');
+
+      expect(metrics).toEqual({
+        attempts: 2,
+        outcome: 'success',
+        status: 200,
+        timings: { response: expect.any(Number), total: expect.any(Number) },
+      });
+      expect(metrics!.timings.total).toBeGreaterThanOrEqual(metrics!.timings.response!);
+    });
+
+    test('reports no attempts for responses that were not sent', async () => {
+      const response = await client.get('/users', {
+        hooks: { onRequest: () => ({ response: { data: [] } }) },
+      });
+
+      expect(response.metrics).toMatchObject({ attempts: 0, outcome: 'success', status: 200 });
+    });
+
+    test('sends call and attempt metrics to the sink', async () => {
+      const sink = { increment: jest.fn(), observe: jest.fn() };
+      const metricsClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        name: 'Users',
+        metrics: { sink, routes: ['/users/:id'] },
+        retryConfig: { retries: 1, retryDelay: () => 0 },
+      });
+      const mockMetricsAxios = new MockAdapter(metricsClient.axios);
+
+      mockMetricsAxios.onGet('/users/1').reply(503, {});
+
+      await expect(metricsClient.get('/users/1')).rejects.toThrow(ApiResponseError);
+
+      const labels = { client: 'Users', method: 'GET', route: '/users/:id', status: '503' };
+
+      expect(sink.increment).toHaveBeenCalledWith('http_client_attempts_total', labels);
+      expect(
+        sink.increment.mock.calls.filter(([name]) => name === 'http_client_attempts_total')
+      ).toHaveLength(2);
+      expect(sink.observe).toHaveBeenCalledWith(
+        'http_client_attempt_duration_seconds',
+        labels,
+        expect.any(Number)
+      );
+      expect(sink.increment).toHaveBeenCalledWith('http_client_requests_total', {
+        ...labels,
+        outcome: 'http_error',
+      });
+      expect(sink.observe).toHaveBeenCalledWith(
+        'http_client_request_duration_seconds',
+        labels,
+        expect.any(Number)
+      );
+    });
+
+    test('counts the replay after a 401 as one more attempt', async () => {
+      const sink = { increment: jest.fn(), observe: jest.fn() };
+      let token = 'expired';
+      const metricsClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        metrics: { sink },
+        auth: {
+          authenticate: config => {
+            config.headers.set('Authorization', `Bearer ${token}`);
+            return config;
+          },
+          refresh: async () => {
+            token = 'fresh';
+          },
+        },
+      });
+      const mockMetricsAxios = new MockAdapter(metricsClient.axios);
+
+      mockMetricsAxios
+        .onGet('/me')
+        .reply(config =>
+          config.headers!.Authorization === 'Bearer expired' ? [401, {}] : [200, { id: 1 }]
+        );
+
+      const { metrics } = await metricsClient.get('/me');
+
+      expect(metrics!.attempts).toBe(2);
+      expect(
+        sink.increment.mock.calls.filter(([name]) => name === 'http_client_attempts_total')
+      ).toHaveLength(2);
+    });
+
+    test('labels calls by outcome when no response is received', async () => {
+      const sink = new PrometheusMetrics();
+      const metricsClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        metrics: { sink },
+      });
+      const mockMetricsAxios = new MockAdapter(metricsClient.axios);
+
+      mockMetricsAxios.onGet('/slow').timeout();
+
+      await expect(metricsClient.get('/slow')).rejects.toThrow(ApiTimeoutError);
+      expect(sink.toString()).toContain(
+        'http_client_requests_total{client="AxiosRetryClient",method="GET",outcome="timeout",route="/slow",status=""} 1'
+      );
+    });
+  });
+
+  describe('Tracing', () => {
+    let tracer: InMemoryTracer;
+    let tracingClient: AxiosRetryClient;
+    let mockTracingAxios: MockAdapter;
+
+    beforeEach(() => {
+      tracer = new InMemoryTracer();
+      tracingClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        tracing: { tracer, routes: ['/users/:id'] },
+        retryConfig: { retries: 2, retryDelay: () => 0 },
+      });
+      mockTracingAxios = new MockAdapter(tracingClient.axios);
+    });
+
+    test('records a client span per call with an event per attempt', async () => {
+      mockTracingAxios
+        .onGet(/\/users\/1/)
+        .replyOnce(503, {})
+        .onGet(/\/users\/1/)
+        .replyOnce(200, {});
+
+      await tracingClient.get('/users/1?token=abc');
+
+      const spans = tracer.getFinishedSpans();
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0]).toMatchObject({
+        name: 'GET /users/:id',
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'http.request.method': 'GET',
+          'url.full': 'https://api.example.com/users/1?token=[REDACTED]',
+          'url.template': '/users/:id',
+          'server.address': 'api.example.com',
+          'server.port': 443,
+          'http.response.status_code': 200,
+          'http.request.resend_count': 1,
+        },
+        status: { code: SpanStatusCode.UNSET },
+      });
+      expect(spans[0].events).toEqual([
+        expect.objectContaining({
+          name: 'http.request.attempt',
+          attributes: expect.objectContaining({
+            'http.request.resend_count': 0,
+            'http.response.status_code': 503,
+            'error.type': '503',
+          }),
+        }),
+        expect.objectContaining({
+          name: 'http.request.attempt',
+          attributes: expect.objectContaining({
+            'http.request.resend_count': 1,
+            'http.response.status_code': 200,
+          }),
+        }),
+      ]);
+    });
+
+    test('injects traceparent and tracestate headers', async () => {
+      const traceState = { serialize: () => 'vendor=value' };
+      const startSpan = tracer.startSpan.bind(tracer);
+
+      jest.spyOn(tracer, 'startSpan').mockImplementation((name, options) => {
+        const span = startSpan(name, options);
+        const spanContext = span.spanContext();
+
+        jest.spyOn(span, 'spanContext').mockReturnValue({ ...spanContext, traceState });
+
+        return span;
+      });
+      mockTracingAxios.onGet('/users').reply(200, []);
+
+      await tracingClient.get('/users');
+
+      const [span] = tracer.getFinishedSpans();
+      const { headers } = mockTracingAxios.history.get[0];
+
+      expect(parseTraceparent(headers!.traceparent)).toEqual({
+        traceId: span.spanContext().traceId,
+        spanId: span.spanContext().spanId,
+        traceFlags: 1,
+      });
+      expect(headers!.tracestate).toBe('vendor=value');
+    });
+
+    test('does not inject headers when propagation is disabled', async () => {
+      const quietClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        tracing: { tracer, propagate: false },
+      });
+      const mockQuietAxios = new MockAdapter(quietClient.axios);
+
+      mockQuietAxios.onGet('/users').reply(200, []);
+
+      await quietClient.get('/users');
+
+      expect(mockQuietAxios.history.get[0].headers!.traceparent).toBeUndefined();
+      expect(tracer.getFinishedSpans()).toHaveLength(1);
+    });
+
+    test('records the error status from ApiResponseError', async () => {
+      mockTracingAxios.onGet('/users/1').reply(404, { message: 'Not found' });
+
+      await expect(tracingClient.get('/users/1')).rejects.toThrow(ApiResponseError);
+
+      const [span] = tracer.getFinishedSpans();
+
+      expect(span.attributes).toMatchObject({
+        'http.response.status_code': 404,
+        'error.type': '404',
+      });
+      expect(span.status.code).toBe(SpanStatusCode.ERROR);
+      expect(span.exceptions).toEqual([expect.any(ApiResponseError)]);
+    });
+
+    test('records network errors', async () => {
+      mockTracingAxios.onGet('/users').networkError();
+
+      await expect(tracingClient.get('/users')).rejects.toThrow();
+
+      const [span] = tracer.getFinishedSpans();
+
+      expect(span.status.code).toBe(SpanStatusCode.ERROR);
+      expect(span.attributes['error.type']).toBeDefined();
+      expect(span.events).toHaveLength(3);
+    });
+
+    test('exposes the span to hooks', async () => {
+      const onComplete = jest.fn();
+
+      mockTracingAxios.onGet('/users').reply(200, []);
+
+      await tracingClient.get('/users', { hooks: { onComplete } });
+
+      expect(onComplete.mock.calls[0][1].span).toBe(tracer.getFinishedSpans()[0]);
+    });
+  });
+
+  describe('Pagination', () => {
+    test('fetches pages through the client with retries and hooks', async () => {
+      const onRequest = jest.fn();
+      const pagingClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        hooks: { onRequest },
+        retryConfig: { retries: 1, retryDelay: () => 0 },
+      });
+      const mockPagingAxios = new MockAdapter(pagingClient.axios);
+
+      mockPagingAxios
+        .onGet('/users', { params: { q: 'a' } })
+        .replyOnce(200, { data: [{ id: 1 }, { id: 2 }], next_cursor: 'abc' })
+        .onGet('/users', { params: { q: 'a', cursor: 'abc' } })
+        .replyOnce(503, {})
+        .onGet('/users', { params: { q: 'a', cursor: 'abc' } })
+        .replyOnce(200, { data: [{ id: 3 }], next_cursor: null });
+
+      const users = await pagingClient
+        .paginate('/users', { strategy: cursorPagination(), config: { params: { q: 'a' } } })
+        .toArray();
+
+      expect(users).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(mockPagingAxios.history.get).toHaveLength(3);
+      expect(onRequest).toHaveBeenCalledTimes(2);
+    });
+
+    test('follows Link headers by default', async () => {
+      mockAxios
+        .onGet('/users')
+        .replyOnce(200, [1, 2], { link: '<https://api.example.com/users?page=2>; rel="next"' })
+        .onGet('https://api.example.com/users?page=2')
+        .replyOnce(200, [3]);
+
+      const pages = [];
+
+      for await (const page of client.paginate<number>('/users').pages()) {
+        pages.push(page.items);
+      }
+
+      expect(pages).toEqual([[1, 2], [3]]);
+    });
+
+    test('stops at the item limit', async () => {
+      mockAxios
+        .onGet('/users')
+        .reply((config: any) => [200, [config.params.offset, config.params.offset + 1]]);
+
+      const items = await client
+        .paginate('/users', { strategy: offsetPagination({ limit: 2 }), maxItems: 5 })
+        .toArray();
+
+      expect(items).toEqual([0, 1, 2, 3, 4]);
+      expect(mockAxios.history.get).toHaveLength(3);
+    });
+
+    test('rejects when a page fails', async () => {
+      mockAxios
+        .onGet('/users')
+        .replyOnce(200, { items: [1], next_cursor: 'abc' })
+        .onGet('/users')
+        .reply(500, {});
+
+      const paginator = client.paginate('/users', { strategy: cursorPagination() });
+
+      await expect(paginator.toArray()).rejects.toThrow(ApiResponseError);
+    });
+  });
+
+  describe('Deadlines', () => {
+    const hangingAdapter = jest.fn(
+      (config: any) =>
+        new Promise<never>((_, reject) => {
+          config.signal?.addEventListener('abort', () =>
+            reject(new AxiosError('canceled', AxiosError.ERR_CANCELED, config))
+          );
+        })
+    );
+
+    beforeEach(() => {
+      hangingAdapter.mockClear();
+    });
+
+    test('throws DeadlineExceededError once the deadline is used up', async () => {
+      const deadlineClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        deadline: 50,
+        axiosConfig: { adapter: hangingAdapter },
+      });
+
+      const error = await deadlineClient.get('/slow').catch(e => e);
+
+      expect(error).toBeInstanceOf(DeadlineExceededError);
+      expect(error).toBeInstanceOf(ApiTimeoutError);
+      expect(error).toMatchObject({ timeout: 'deadline', deadline: 50, attempts: 1 });
+      expect(error.message).toContain('deadline of 50ms exceeded');
+      expect(error.elapsed).toBeGreaterThanOrEqual(45);
+    });
+
+    test('covers retries and retry delays', async () => {
+      const deadlineClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        retryConfig: { retries: 5, retryDelay: () => 20 },
+      });
+      const mockDeadlineAxios = new MockAdapter(deadlineClient.axios);
+
+      mockDeadlineAxios.onGet('/flaky').timeout();
+
+      const error = await deadlineClient.get('/flaky', { deadline: 30 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiTimeoutError);
+      expect(mockDeadlineAxios.history.get.length).toBeLessThan(6);
+    });
+
+    test('does not schedule a retry that would start after the deadline', async () => {
+      const deadlineClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        deadline: 500,
+        retryConfig: { retries: 3, retryDelay: () => 1000 },
+      });
+      const mockDeadlineAxios = new MockAdapter(deadlineClient.axios);
+
+      mockDeadlineAxios.onGet('/unavailable').reply(503, {});
+
+      const error = await deadlineClient.get('/unavailable').catch(e => e);
+
+      expect(error).toBeInstanceOf(DeadlineExceededError);
+      expect(error).toMatchObject({ deadline: 500, attempts: 1 });
+      expect(error.cause.response.status).toBe(503);
+      expect(mockDeadlineAxios.history.get).toHaveLength(1);
+    });
+
+    test('uses the request deadline over the client deadline', async () => {
+      const deadlineClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        deadline: 10000,
+        axiosConfig: { adapter: hangingAdapter },
+      });
+
+      const error = await deadlineClient.get('/slow', { deadline: 20 }).catch(e => e);
+
+      expect(error).toMatchObject({ timeout: 'deadline', deadline: 20 });
+    });
+
+    test('aborts with the caller signal', async () => {
+      const deadlineClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        deadline: 10000,
+        axiosConfig: { adapter: hangingAdapter },
+      });
+      const controller = new AbortController();
+
+      setTimeout(() => controller.abort(), 10);
+
+      const error = await deadlineClient.get('/slow', { signal: controller.signal }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiCancelledError);
+      expect(hangingAdapter).toHaveBeenCalledTimes(1);
+    });
+
+    test('completes calls within the deadline', async () => {
+      const deadlineClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        deadline: 1000,
+        retryConfig: { retries: 1, retryDelay: () => 0 },
+      });
+      const mockDeadlineAxios = new MockAdapter(deadlineClient.axios);
+
+      mockDeadlineAxios.onGet('/users').replyOnce(503, {}).onGet('/users').replyOnce(200, []);
+
+      await expect(deadlineClient.get('/users')).resolves.toMatchObject({ data: [] });
+    });
+  });
+
+  describe('Streaming', () => {
+    const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+      const values: T[] = [];
+
+      for await (const value of iterable) {
+        values.push(value);
+      }
+
+      return values;
+    };
+
+    const decode = (chunks: Uint8Array[]) =>
+      chunks.map(chunk => new TextDecoder().decode(chunk)).join('');
+
+    test('resolves with the body as a stream', async () => {
+      const body = Readable.from([Buffer.from('abcd')]);
+      mockAxios.onGet('/file').reply(200, body);
+
+      const response = await client.stream('/file');
+
+      expect(response.data).toBe(body);
+      expect(response.request.config.responseType).toBe('stream');
+    });
+
+    test('closes the body of a failed attempt before retrying', async () => {
+      const failed = Readable.from([Buffer.from('busy')]);
+      const body = Readable.from([Buffer.from('abcd')]);
+      mockAxios.onGet('/file').replyOnce(503, failed).onGet('/file').reply(200, body);
+
+      const response = await client.stream('/file', {
+        retryConfig: { retries: 1, retryDelay: () => 0 },
+      });
+
+      expect(response.data).toBe(body);
+      expect(failed.destroyed).toBe(true);
+      expect(body.destroyed).toBe(false);
+    });
+
+    test('reports progress', async () => {
+      const onProgress = jest.fn();
+      mockAxios.onGet('/file').reply(200, Readable.from([Buffer.from('ab'), Buffer.from('cd')]), {
+        'content-length': '4',
+      });
+
+      const chunks = await collect(client.streamBytes('/file', { onProgress }));
+
+      expect(decode(chunks)).toBe('abcd');
+      expect(onProgress.mock.calls).toEqual([[{ loaded: 2, total: 4 }], [{ loaded: 4, total: 4 }]]);
+    });
+
+    test('resumes with a Range request after a mid-stream failure', async () => {
+      const onProgress = jest.fn();
+      mockAxios
+        .onGet('/file')
+        .replyOnce(
+          200,
+          Readable.from(
+            (async function* () {
+              yield Buffer.from('ab');
+              throw new Error('socket hang up');
+            })()
+          ),
+          { 'content-length': '4', etag: '"v1"' }
+        )
+        .onGet('/file')
+        .replyOnce(config =>
+          config.headers?.Range === 'bytes=2-' && config.headers?.['If-Range'] === '"v1"'
+            ? [206, Readable.from([Buffer.from('cd')])]
+            : [400, {}]
+        );
+
+      const chunks = await collect(client.streamBytes('/file', { maxResumes: 1, onProgress }));
+
+      expect(decode(chunks)).toBe('abcd');
+      expect(mockAxios.history.get).toHaveLength(2);
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 4, total: 4 });
+    });
+
+    test('skips bytes already received when the server ignores the Range header', async () => {
+      mockAxios
+        .onGet('/file')
+        .replyOnce(
+          200,
+          Readable.from(
+            (async function* () {
+              yield Buffer.from('abc');
+              throw new Error('socket hang up');
+            })()
+          )
+        )
+        .onGet('/file')
+        .replyOnce(200, Readable.from([Buffer.from('ab'), Buffer.from('cdef')]));
+
+      const chunks = await collect(client.streamBytes('/file', { maxResumes: 1 }));
+
+      expect(decode(chunks)).toBe('abcdef');
+    });
+
+    test('fails mid-stream when resuming is disabled', async () => {
+      mockAxios.onGet('/file').replyOnce(
+        200,
+        Readable.from(
+          (async function* () {
+            yield Buffer.from('ab');
+            throw new Error('socket hang up');
+          })()
+        )
+      );
+
+      await expect(collect(client.streamBytes('/file'))).rejects.toThrow('socket hang up');
+      expect(mockAxios.history.get).toHaveLength(1);
+    });
+
+    test('streams NDJSON', async () => {
+      mockAxios.onGet('/events.ndjson').reply(200, Readable.from(['{"id":1}\n{"id"', ':2}\n']));
+
+      expect(await collect(client.streamNdjson<{ id: number }>('/events.ndjson'))).toEqual([
+        { id: 1 },
+        { id: 2 },
+      ]);
+    });
+
+    test('streams server-sent events', async () => {
+      mockAxios
+        .onGet('/events')
+        .reply(config =>
+          config.headers?.Accept === 'text/event-stream'
+            ? [200, Readable.from(['event: update\ndata: 1\n\n', 'data: 2\n\n'])]
+            : [406, {}]
+        );
+
+      expect(await collect(client.streamEvents('/events'))).toEqual([
+        { event: 'update', data: '1' },
+        { event: 'message', data: '2' },
+      ]);
+    });
+
+    test('never coalesces streamed requests', async () => {
+      const dedupeClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        dedupe: true,
+      });
+      const mockDedupeAxios = new MockAdapter(dedupeClient.axios);
+
+      mockDedupeAxios.onGet('/file').reply(() => [200, Readable.from(['abcd'])]);
+
+      await Promise.all([dedupeClient.stream('/file'), dedupeClient.stream('/file')]);
+
+      expect(mockDedupeAxios.history.get).toHaveLength(2);
+    });
+  });
+
+  describe('Uploads', () => {
+    type Handler = (
+      request: IncomingMessage,
+      body: Buffer
+    ) => [number, Record<string, string>?, string?];
+
+    let server: Server;
+    let handler: Handler;
+    let uploadClient: AxiosRetryClient;
+
+    const parseForm = (request: IncomingMessage, body: Buffer) =>
+      new Response(body, {
+        headers: { 'content-type': request.headers['content-type']! },
+      }).formData();
+
+    beforeEach(async () => {
+      server = createServer((request, response) => {
+        const chunks: Buffer[] = [];
+
+        request.on('data', chunk => chunks.push(chunk));
+        request.on('end', () => {
+          const [status, headers = {}, body = ''] = handler(request, Buffer.concat(chunks));
+
+          response.writeHead(status, headers).end(body);
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      uploadClient = new AxiosRetryClient({
+        baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        name: 'Uploads',
+        retryConfig: { retries: 2, retryDelay: () => 10 },
+      });
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    test('uploads files and fields as multipart/form-data', async () => {
+      let form: Promise<FormData> | undefined;
+      handler = (request, body) => {
+        form = parseForm(request, body);
+        return [201, { 'content-type': 'application/json' }, '{"id":1}'];
+      };
+
+      const response = await uploadClient.upload('/files', {
+        files: {
+          document: { data: 'hello', name: 'hello.txt', type: 'text/plain' },
+          images: [new Uint8Array([1, 2]), new Blob([new Uint8Array([3])])],
+        },
+        fields: { title: 'Greeting', tags: ['a', 'b'] },
+      });
+      const received = await form!;
+
+      expect(response.data).toEqual({ id: 1 });
+      expect(received.get('title')).toBe('Greeting');
+      expect(received.get('tags')).toBe('["a","b"]');
+
+      const document = received.get('document') as File;
+      expect(document.name).toBe('hello.txt');
+      expect(document.type).toBe('text/plain');
+      expect(await document.text()).toBe('hello');
+
+      const images = received.getAll('images') as File[];
+      expect(images.map(image => image.name)).toEqual(['images', 'images']);
+      expect(
+        await Promise.all(images.map(async image => [...new Uint8Array(await image.arrayBuffer())]))
+      ).toEqual([[1, 2], [3]]);
+    });
+
+    test('rebuilds the body from a stream on every attempt', async () => {
+      const bodies: string[] = [];
+      handler = (_request, body) => {
+        bodies.push(body.toString());
+        return bodies.length < 2 ? [503] : [200];
+      };
+      const createStream = jest.fn(() =>
+        Readable.from([Buffer.from('streamed '), Buffer.from('file')])
+      );
+
+      await uploadClient.upload('/files/1', {
+        method: 'PUT',
+        files: { file: { data: createStream, name: 'file.txt' } },
+      });
+
+      expect(createStream).toHaveBeenCalledTimes(2);
+      expect(bodies).toHaveLength(2);
+      bodies.forEach(body => expect(body).toContain('streamed file'));
+    });
+
+    test('reports upload progress', async () => {
+      handler = () => [200];
+      const onProgress = jest.fn();
+
+      await uploadClient.upload('/files', {
+        files: { file: new Uint8Array(64 * 1024) },
+        onProgress,
+      });
+
+      const last = onProgress.mock.calls[onProgress.mock.calls.length - 1][0];
+      expect(last.loaded).toBe(last.total);
+      expect(last.loaded).toBeGreaterThan(64 * 1024);
+    });
+
+    describe('resumable', () => {
+      let stored: Buffer;
+      let uploadLength: number | undefined;
+      let failNextPatch: boolean;
+
+      beforeEach(() => {
+        stored = Buffer.alloc(0);
+        uploadLength = undefined;
+        failNextPatch = false;
+        handler = (request, body) => {
+          const tus = { 'tus-resumable': '1.0.0' };
+
+          if (request.headers['tus-resumable'] !== '1.0.0') {
+            return [412];
+          }
+
+          if (request.method === 'POST') {
+            uploadLength = Number(request.headers['upload-length']);
+            return [201, { ...tus, location: '/uploads/abc' }];
+          }
+
+          if (request.method === 'HEAD') {
+            return [200, { ...tus, 'upload-offset': String(stored.length) }];
+          }
+
+          if (Number(request.headers['upload-offset']) !== stored.length) {
+            return [409];
+          }
+
+          if (failNextPatch) {
+            // keep part of the chunk, as a server would when the connection drops
+            failNextPatch = false;
+            stored = Buffer.concat([stored, body.subarray(0, 2)]);
+            return [500];
+          }
+
+          stored = Buffer.concat([stored, body]);
+          return [204, { ...tus, 'upload-offset': String(stored.length) }];
+        };
+      });
+
+      test('creates the upload and sends it in chunks', async () => {
+        const onUploadUrl = jest.fn();
+        const onProgress = jest.fn();
+        const contentTypes: Array<string | undefined> = [];
+        const respond = handler;
+        handler = (request, body) => {
+          if (request.method === 'PATCH') {
+            contentTypes.push(request.headers['content-type']);
+          }
+          return respond(request, body);
+        };
+
+        const { uploadUrl, response } = await uploadClient.uploadResumable('/uploads', {
+          file: 'abcdefghij',
+          chunkSize: 4,
+          onUploadUrl,
+          onProgress,
+        });
+
+        expect(uploadUrl).toBe(`${uploadClient.baseURL}/uploads/abc`);
+        expect(onUploadUrl).toHaveBeenCalledWith(uploadUrl);
+        expect(response.request.status).toBe(204);
+        expect(uploadLength).toBe(10);
+        expect(stored.toString()).toBe('abcdefghij');
+        expect(contentTypes).toEqual(Array(3).fill('application/offset+octet-stream'));
+        expect(onProgress).toHaveBeenLastCalledWith({ loaded: 10, total: 10 });
+      });
+
+      test('resumes from the server offset after a failed chunk', async () => {
+        const methods: string[] = [];
+        const respond = handler;
+        handler = (request, body) => {
+          methods.push(request.method!);
+          if (request.method === 'PATCH' && stored.length === 4 && !methods.includes('HEAD')) {
+            failNextPatch = true;
+          }
+          return respond(request, body);
+        };
+
+        await uploadClient.uploadResumable('/uploads', {
+          file: {
+            data: () => Readable.from([Buffer.from('abcdef'), Buffer.from('ghij')]),
+            size: 10,
+          },
+          chunkSize: 4,
+        });
+
+        expect(stored.toString()).toBe('abcdefghij');
+        expect(methods).toEqual(['POST', 'PATCH', 'PATCH', 'HEAD', 'PATCH']);
+      });
+
+      test('resumes an existing upload', async () => {
+        stored = Buffer.from('abcd');
+
+        const { uploadUrl } = await uploadClient.uploadResumable('/uploads', {
+          file: new Blob(['abcdefghij']),
+          uploadUrl: `${uploadClient.baseURL}/uploads/abc`,
+        });
+
+        expect(uploadUrl).toBe(`${uploadClient.baseURL}/uploads/abc`);
+        expect(uploadLength).toBeUndefined();
+        expect(stored.toString()).toBe('abcdefghij');
+      });
+
+      test('does not send a chunk when resuming a complete upload', async () => {
+        const methods: string[] = [];
+        const respond = handler;
+        handler = (request, body) => {
+          methods.push(request.method!);
+          return respond(request, body);
+        };
+        stored = Buffer.from('abcd');
+
+        const { response } = await uploadClient.uploadResumable('/uploads', {
+          file: 'abcd',
+          uploadUrl: `${uploadClient.baseURL}/uploads/abc`,
+        });
+
+        expect(methods).toEqual(['HEAD']);
+        expect(response.request.status).toBe(200);
+      });
+
+      test('fails when a streamed file is shorter than its size', async () => {
+        await expect(
+          uploadClient.uploadResumable('/uploads', {
+            file: { data: () => Readable.from([Buffer.from('abcd')]), size: 10 },
+            chunkSize: 4,
+          })
+        ).rejects.toThrow('The file ended after 4 bytes, before its size of 10 bytes');
+        expect(stored.toString()).toBe('abcd');
+      });
+
+      test('fails when the server does not advance the offset', async () => {
+        let patches = 0;
+        const respond = handler;
+        handler = (request, body) => {
+          if (request.method === 'PATCH') {
+            patches++;
+            return [204, { 'tus-resumable': '1.0.0', 'upload-offset': '0' }];
+          }
+          return respond(request, body);
+        };
+
+        await expect(uploadClient.uploadResumable('/uploads', { file: 'abcd' })).rejects.toThrow(
+          'the server did not advance the upload offset from 0'
+        );
+        expect(patches).toBe(1);
+      });
+
+      test('gives up after maxResumes', async () => {
+        const respond = handler;
+        handler = (request, body) =>
+          request.method === 'PATCH' ? [500, {}, 'Internal Server Error'] : respond(request, body);
+
+        await expect(
+          uploadClient.uploadResumable('/uploads', { file: 'abcd', maxResumes: 1 })
+        ).rejects.toBeInstanceOf(ApiResponseError);
+      });
+    });
+  });
+
+  describe('Request Modification', () => {
+    test('allows request modification through preRequestFilter', async () => {
+      class CustomClient extends AxiosRetryClient {
+        protected async preRequestFilter(
+          _requestType: RequestType,
+          _url: string,
+          data: any,
+          config: any
+        ) {
+          return {
+            data: { ...data, modified: true },
+            config: { ...config, headers: { 'X-Custom': 'test' } },
+          };
+        }
+      }
+
+      const customClient = new CustomClient({
+        baseURL: 'https://api.example.com',
+      });
+      const mockCustomAxios = new MockAdapter(customClient.axios);
+
+      mockCustomAxios.onPost('/modified').reply((config) => {
+        expect(config.data).toContain('modified":true');
+        expect(config.headers!['X-Custom']).toBe('test');
+        return [200, { success: true }];
+      });
+
+      await customClient.post('/modified', { original: true });
+    });
+  });
+
+  describe('Debug Logging', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    test('logs verbose request details when debugLevel is verbose', async () => {
+      const verboseClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        debug: true,
+        debugLevel: 'verbose',
+      });
+      const mockVerboseAxios = new MockAdapter(verboseClient.axios);
+
+      mockVerboseAxios.onGet('/test').reply(200, { success: true });
+
+      await verboseClient.get('/test');
+
+      expect(require('./logger').logData).toHaveBeenCalledWith(
+        expect.stringContaining('GET /test'),
+        expect.objectContaining({ config: expect.any(Object) })
+      );
+    });
+
+    test('logs normal request details when debugLevel is normal', async () => {
+      const normalClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        debug: true,
+        debugLevel: 'normal',
+      });
+      const mockNormalAxios = new MockAdapter(normalClient.axios);
+
+      mockNormalAxios.onPost('/test', { data: 'test' }).reply(200, { success: true });
+
+      await normalClient.post('/test', { data: 'test' });
+
+      expect(require('./logger').logData).toHaveBeenCalledWith(
+        expect.stringContaining('POST /test'),
+        expect.objectContaining({ data: { data: 'test' } })
+      );
+    });
+
+    test('sends structured fields to a custom logger', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const loggingClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        name: 'Orders',
+        debug: true,
+        logger,
+        retryConfig: { retries: 1, retryDelay: () => 0 },
+      });
+      const mockLoggingAxios = new MockAdapter(loggingClient.axios);
+
+      mockLoggingAxios.onGet('/orders').replyOnce(503, {}).onGet('/orders').replyOnce(404, {
+        message: 'Not Found',
+      });
+
+      await expect(loggingClient.get('/orders')).rejects.toThrow(ApiResponseError);
+
+      expect(logger.debug).toHaveBeenCalledWith('[Orders] GET /orders', {
+        client: 'Orders',
+        method: 'GET',
+        url: '/orders',
+        data: undefined,
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Retry #1'),
+        expect.objectContaining({ client: 'Orders', method: 'GET', status: 503, attempt: 2 })
+      );
+      expect(logger.error).toHaveBeenCalledWith(
+        '[Orders] GET /orders : error.response.data',
+        expect.objectContaining({
+          client: 'Orders',
+          method: 'GET',
+          url: '/orders',
+          status: 404,
+          attempt: 2,
+          duration: expect.any(Number),
+          data: { message: 'Not Found' },
+        })
+      );
+      expect(require('./logger').logData).not.toHaveBeenCalled();
+    });
+
+    test('redacts secrets before they are logged', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const loggingClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        debug: true,
+        debugLevel: 'verbose',
+        logger,
+        redact: { paths: ['data.card.holder'] },
+      });
+      const mockLoggingAxios = new MockAdapter(loggingClient.axios);
+
+      mockLoggingAxios.onPost(/\/payments/).reply(201, {});
+
+      await loggingClient.post(
+        '/payments?api_key=abc',
+        { password: 'hunter2', card: { holder: 'Ann', number: '4111111111111111' } },
+        { headers: { Authorization: 'Bearer abc' } }
+      );
+
+      const [message, fields] = logger.debug.mock.calls[0];
+
+      expect(message).toBe('[AxiosRetryClient] POST /payments?api_key=[REDACTED]');
+      expect(fields.data).toEqual({
+        password: '[REDACTED]',
+        card: { holder: '[REDACTED]', number: '[REDACTED]' },
+      });
+      expect(fields.config.headers.Authorization).toBe('[REDACTED]');
+    });
+
+    test('does not redact when redaction is disabled', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const loggingClient = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        debug: true,
+        logger,
+        redact: false,
+      });
+      const mockLoggingAxios = new MockAdapter(loggingClient.axios);
+
+      mockLoggingAxios.onPost('/login').reply(200, {});
+
+      await loggingClient.post('/login', { password: 'hunter2' });
+      expect(logger.debug.mock.calls[0][1].data).toEqual({ password: 'hunter2' });
+    });
+
+    test('does not log when debug is disabled', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const quietClient = new AxiosRetryClient({ baseURL: 'https://api.example.com', logger });
+      const mockQuietAxios = new MockAdapter(quietClient.axios);
+
+      mockQuietAxios.onGet('/test').reply(200, {});
+
+      await quietClient.get('/test');
+      expect(logger.debug).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,33 +1,306 @@
 import axios from 'axios';
-import type { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import type {
+  AxiosError,
+  AxiosInstance,
+  AxiosProgressEvent,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
 import axiosRetry, { type IAxiosRetryConfig, AxiosRetry } from 'axios-retry';
-import { logData } from './logger';
+import type { LogFields, Logger, LogLevel } from './logger';
+import { ConsoleLogger } from './console-logger';
+import { Redactor, type RedactionOptions } from './redact';
+import { createSyntheticResponse, getHooks, type Hooks, type RequestContext } from './hooks';
+import {
+  METRIC_NAMES,
+  getConnectionTimings,
+  getRouteLabel,
+  type MetricLabels,
+  type MetricsOptions,
+  type RequestMetrics,
+  type RequestOutcome,
+} from './metrics';
+import {
+  SpanKind,
+  SpanStatusCode,
+  formatTraceparent,
+  type Span,
+  type TracingOptions,
+} from './tracing';
+import type { AuthProvider } from './auth';
+import { Paginator, type PaginationOptions } from './paginate';
+import { createEndpointClient, type EndpointClient, type EndpointDefinitions } from './endpoints';
+import { getHeader } from './headers';
+import {
+  createChunkReader,
+  createFormData,
+  DEFAULT_CHUNK_SIZE,
+  encodeUploadMetadata,
+  TUS_VERSION,
+  type ResumableUploadOptions,
+  type UploadOptions,
+} from './upload';
+import { getRetryAfterDelay } from './retry-after';
+import {
+  discardBody,
+  parseNdjson,
+  parseServerSentEvents,
+  readChunks,
+  type ServerSentEvent,
+  type StreamBody,
+  type StreamRequestConfig,
+} from './stream';
+import { CircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker';
+import { RateLimiter, type RateLimiterOptions } from './rate-limiter';
+import { matchRoute } from './route';
+import { calculateRetryDelay, type BackoffOptions, type JitterStrategy } from './backoff';
+import { findRetryRule, isRetryableByRule, type RetryRule } from './retry-policy';
+import { getRequestKey, type DedupeOptions } from './dedupe';
+import { RequestHedger, type HedgeOptions } from './hedge';
+import { ResponseCache, type CacheMetadata, type CacheOptions } from './cache';
+import {
+  DEFAULT_IDEMPOTENCY_HEADER,
+  generateIdempotencyKey,
+  getIdempotencyKey,
+  type IdempotencyOptions,
+} from './idempotency';
+import {
+  validateSchema,
+  type InferResponseData,
+  type ResponseSchema,
+  type ResponseSchemaRoute,
+  type ValidationIssue,
+} from './schema';
 
+/**
+ * The request methods with convenience methods on the client. Other methods (e.g. WebDAV's
+ * `PROPFIND`) can be sent with `request()` and are passed through as uppercase strings.
+ */
 export enum RequestType {
   GET = 'GET',
   POST = 'POST',
   PUT = 'PUT',
   PATCH = 'PATCH',
   DELETE = 'DELETE',
+  HEAD = 'HEAD',
+  OPTIONS = 'OPTIONS',
+}
+
+/**
+ * Default maximum time (in ms) we'll wait when honoring a `Retry-After` header
+ */
+const DEFAULT_MAX_RETRY_AFTER = 60000;
+
+/**
+ * Error codes that mean the request was sent (or attempted) but the network let us down
+ */
+const NETWORK_ERROR_CODES = [
+  'ERR_NETWORK',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EPIPE',
+];
+
+/**
+ * State we keep on the axios request config for the lifetime of a single
+ * client call, across all of its retry attempts
+ */
+export interface AxiosRetryClientRequestState {
+  /**
+   * Time the client call started (ms since epoch)
+   */
+  startTime: number;
+  /**
+   * The auth generation the credentials of the current attempt were issued under
+   */
+  authGeneration?: number;
+  /**
+   * Whether the request was already replayed after refreshing credentials
+   */
+  authReplayed?: boolean;
+  /**
+   * Time the current attempt started (ms since epoch)
+   */
+  attemptStartTime?: number;
+  /**
+   * Key of the call's span in the client's active spans
+   */
+  spanKey?: number;
+  /**
+   * Time the call's deadline expires (ms since epoch)
+   */
+  deadlineAt?: number;
+  /**
+   * The delay (in ms) before each retry of the call, by retry number
+   */
+  retryDelays?: number[];
+  /**
+   * Frees the rate limiter slot held by the current attempt
+   */
+  releaseRateLimit?: () => void;
+  /**
+   * Number of hedges sent for the call's attempts so far
+   */
+  hedges?: number;
+  /**
+   * Frees the rate limiter slots taken by the call's attempts. A `Set` is kept by reference when
+   * axios merges configs, so the call can free slots its attempts never got to release.
+   */
+  rateLimitSlots?: Set<() => void>;
 }
 
-type BackoffOptions = 'exponential' | 'linear' | 'none';
+/**
+ * Stats recorded for the attempt a response or error came from
+ */
+interface AttemptStats {
+  attempts: number;
+  status?: number;
+  /**
+   * Time from sending the attempt until its response was received (ms)
+   */
+  responseTime: number;
+}
+
+/**
+ * A GET request shared by identical in-flight calls
+ */
+interface SharedRequest {
+  response: Promise<AxiosResponse>;
+  /**
+   * Aborts the request once every call sharing it has been aborted
+   */
+  controller: AbortController;
+  /**
+   * Number of calls waiting for the response
+   */
+  callers: number;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    'axios-retry-client'?: AxiosRetryClientRequestState;
+  }
+}
 
 export interface AxiosRetryClientRetryConfig extends IAxiosRetryConfig {
   delayFactor?: number;
   backoff?: BackoffOptions;
+  /**
+   * How to randomize the retry delay, so that clients retrying at the same time spread out.
+   * `true` adds a random 0-20%, 'full' picks a random delay between 0 and the delay, and 'equal'
+   * keeps half of the delay and randomizes the other half. Defaults to true for exponential
+   * backoff and false otherwise.
+   */
+  jitter?: JitterStrategy;
+  /**
+   * The maximum retry delay (in ms)
+   */
+  maxDelay?: number;
+  /**
+   * The random source for jitter and decorrelated backoff, returning a number in [0, 1). Defaults
+   * to `Math.random`.
+   */
+  random?: () => number;
+  /**
+   * Retry policy rules, matching failed requests by status, error code, method and route. The
+   * first rule that matches sets the number of retries and the backoff, and requests no rule
+   * matches use the rest of this config. Has no effect on the delay if you provide your own
+   * `retryDelay` function, unless the rule sets `backoff`, `delayFactor`, `jitter` or `maxDelay`.
+   */
+  rules?: RetryRule[];
+  /**
+   * Whether to use the `Retry-After`, `X-RateLimit-Reset` or `RateLimit-Reset` response headers
+   * (when present) as the retry delay instead of the delay calculated from `backoff` and
+   * `delayFactor`. Has no effect if you provide your own `retryDelay` function.
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * The maximum time (in ms) we're willing to wait when `respectRetryAfter` is enabled. If the
+   * server asks us to wait longer than this, the request fails immediately with a
+   * `RetryAfterExceededError` instead of being retried. Defaults to 60000.
+   */
+  maxRetryAfter?: number;
 }
 
 export interface AxiosRetryClientRequestConfig extends AxiosRequestConfig {
   retryConfig?: AxiosRetryClientRetryConfig;
+  /**
+   * Hooks for this request. They run after the client's hooks.
+   */
+  hooks?: Hooks;
+  /**
+   * Schema to validate the response data against. Accepts a Standard Schema (zod, valibot,
+   * etc), an object with a zod style `safeParse` method, a `{ validate }` object or a plain
+   * function. The response data type is inferred from it.
+   */
+  schema?: ResponseSchema;
+  /**
+   * Set to false to opt a GET request out of in-flight coalescing, or true to opt in when
+   * `dedupe` isn't enabled on the client
+   */
+  dedupe?: boolean;
+  /**
+   * Set to false to opt a GET request out of hedging, or pass hedging options to hedge it when
+   * `hedge` isn't enabled on the client or with different options
+   */
+  hedge?: false | HedgeOptions;
+  /**
+   * Set to false to bypass the response cache for a GET request
+   */
+  cache?: boolean;
+  /**
+   * Idempotency key to send with the request instead of a generated one. Only used when
+   * `idempotency` is enabled on the client.
+   */
+  idempotencyKey?: string;
+  /**
+   * Total time budget (in ms) for the call, covering every attempt and retry delay. Overrides the
+   * client's `deadline`.
+   */
+  deadline?: number;
+  /**
+   * Builds the request body for every attempt, in place of `data`. For bodies that can only be
+   * sent once, e.g. forms with streamed files, so that retries send the whole body again.
+   */
+  buildData?: () => unknown;
 }
 
 export interface AxiosRetryClientResponse<T> {
   request: AxiosResponse;
   data: T;
+  /**
+   * Cache details when the response cache is enabled for the request
+   */
+  cache?: CacheMetadata;
+  /**
+   * Attempt count, outcome and timings for the call. Always set on responses returned by the
+   * client.
+   */
+  metrics?: RequestMetrics;
+}
+
+export interface ResumableUploadResult<T> {
+  /**
+   * The URL of the upload, e.g. to resume it later
+   */
+  uploadUrl: string;
+  /**
+   * The response to the last request of the upload
+   */
+  response: AxiosRetryClientResponse<T>;
 }
 
 export interface AxiosRetryClientOptions extends IAxiosRetryConfig {
+  /**
+   * Auth provider that adds credentials to every request. When the provider supports `refresh`,
+   * a request rejected with a 401 is replayed once after refreshing the credentials.
+   */
+  auth?: AuthProvider;
   /**
    * Configuration for the underlying axios instance
    */
@@ -36,6 +309,17 @@ export interface AxiosRetryClientOptions extends IAxiosRetryConfig {
    * Base URL for the API
    */
   baseURL: string;
+  /**
+   * Optional HTTP response cache for GET requests. Honors `Cache-Control` and revalidates stale
+   * responses with `If-None-Match` / `If-Modified-Since`.
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * Optional circuit breaker configuration. When enabled, requests to a host (or the whole client,
+   * depending on `scope`) that keeps failing are rejected immediately with a `CircuitOpenError`
+   * instead of going through the retry cycle.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
   /**
    * Whether to log request and response details
    */
@@ -45,10 +329,67 @@ export interface AxiosRetryClientOptions extends IAxiosRetryConfig {
    * log all axios properties for the request and response
    */
   debugLevel?: 'normal' | 'verbose';
+  /**
+   * Total time budget (in ms) for each call, covering every attempt and retry delay. Unlike the
+   * axios `timeout`, which applies to each attempt, the call fails with a `DeadlineExceededError`
+   * once it's used up, and no retry is scheduled that would start after it.
+   */
+  deadline?: number;
+  /**
+   * Lifecycle hooks (`onRequest`, `onResponse`, `onError`, `onRetry`, `onComplete`) for every
+   * request. More can be added with `use`.
+   */
+  hooks?: Hooks | Hooks[];
+  /**
+   * Attach an `Idempotency-Key` header to non-idempotent requests (POST and PATCH by default).
+   * The key stays the same across every retry attempt of a call, and POST / PATCH requests are
+   * only retried when they have a key.
+   */
+  idempotency?: boolean | IdempotencyOptions;
+  /**
+   * Coalesce identical in-flight GET requests so they share a single underlying request.
+   * Pass an object to include headers in the key or to provide a custom key function.
+   */
+  dedupe?: boolean | DedupeOptions;
+  /**
+   * Hedge GET requests: when an attempt hasn't answered within `delay`, send the same request
+   * again in parallel, use whichever response comes first and abort the other
+   */
+  hedge?: HedgeOptions;
+  /**
+   * Logger for request, retry and error details when `debug` is enabled. Defaults to colorized
+   * console output.
+   */
+  logger?: Logger;
+  /**
+   * Sends counters and histograms for every call and attempt to a metrics sink, labelled by
+   * client name, method, route template and status
+   */
+  metrics?: MetricsOptions;
   /**
    * Name of the client. Used for logging
    */
   name?: string;
+  /**
+   * Redacts secrets and PII (credentials, cookies, passwords, card numbers, etc) from everything
+   * that is logged. Enabled with sensible defaults, pass an object to add header names, keys,
+   * paths or patterns, or false to disable it.
+   */
+  redact?: boolean | RedactionOptions;
+  /**
+   * Optional client side rate limiting. Requests wait for a slot instead of being sent
+   * and coming back as a 429.
+   */
+  rateLimit?: RateLimiterOptions;
+  /**
+   * Default response schemas by route. A schema passed in the request config takes precedence.
+   */
+  responseSchemas?: ResponseSchemaRoute[];
+  /**
+   * Optional OpenTelemetry compatible tracing. Opens a client span per call, records an event per
+   * attempt and injects `traceparent` / `tracestate` headers.
+   */
+  tracing?: TracingOptions;
   /**
    * Our extended configuration for the axios-retry plugin. See [axios-retry](https://www.npmjs.com/package/axios-retry) for more details.
    * The default configuration is `{ retries: 3, retryDelay: axiosRetry.exponentialDelay } with a 500ms initial retry delay`.
@@ -57,14 +398,67 @@ export interface AxiosRetryClientOptions extends IAxiosRetryConfig {
 }
 
 export class AxiosRetryClient {
+  auth: AuthProvider | undefined;
   axios: AxiosInstance;
   axiosConfig: AxiosRetryClientOptions['axiosConfig'];
   axiosRetry: AxiosRetry;
   baseURL: AxiosRetryClientOptions['baseURL'];
+  cache: ResponseCache | undefined;
+  circuitBreaker: AxiosRetryClientOptions['circuitBreaker'];
+  circuitBreakers = new Map<string, CircuitBreaker>();
   debug: AxiosRetryClientOptions['debug'];
   debugLevel: AxiosRetryClientOptions['debugLevel'];
+  deadline: AxiosRetryClientOptions['deadline'];
+  dedupe: AxiosRetryClientOptions['dedupe'];
+  hedge: AxiosRetryClientOptions['hedge'];
+  hedger: RequestHedger;
+  hooks: Hooks[];
+  idempotency: Required<IdempotencyOptions> | undefined;
+  logger: Logger;
+  metrics: AxiosRetryClientOptions['metrics'];
   name: AxiosRetryClientOptions['name'];
+  rateLimiter: RateLimiter | undefined;
+  redactor: Redactor | undefined;
+  responseSchemas: ResponseSchemaRoute[];
   retryConfig: AxiosRetryClientRetryConfig;
+  tracing: AxiosRetryClientOptions['tracing'];
+
+  /**
+   * Errors that were not retried because the server asked us to wait longer than
+   * `maxRetryAfter`, mapped to the delay the server asked for
+   */
+  private retryAfterExceeded = new WeakMap<object, number>();
+
+  /**
+   * Errors that were not retried because the retry would have started after the call's deadline
+   */
+  private retriesPastDeadline = new WeakSet<object>();
+
+  /**
+   * In-flight GET requests by dedupe key
+   */
+  private inFlightRequests = new Map<string, SharedRequest>();
+
+  /**
+   * Stats for the attempt each response or error came from
+   */
+  private attemptStats = new WeakMap<object, AttemptStats>();
+
+  /**
+   * Spans of the calls in progress, by span key
+   */
+  private activeSpans = new Map<number, Span>();
+  private spanKeys = 0;
+
+  /**
+   * Incremented every time the auth provider refreshes its credentials
+   */
+  private authGeneration = 0;
+
+  /**
+   * The auth refresh in progress, shared by every request that got a 401
+   */
+  private authRefresh: Promise<void> | undefined;
 
   constructor(config: AxiosRetryClientOptions) {
     const backoff = config.retryConfig?.backoff || 'exponential';
@@ -74,11 +468,23 @@ export class AxiosRetryClient {
     const defaultRetryConfig: AxiosRetryClientRetryConfig = {
       retries: 0,
       retryDelay: (retryCount: number, error: AxiosError<unknown, any>) =>
-        this.getRetryDelay(retryCount, error, backoff, delayFactor),
+        this.getRetryDelay(retryCount, error, this.retryConfig),
       onRetry: (retryCount, error, requestConfig) => {
         if (this.debug) {
-          console.log(
-            `[${name}] Retry #${retryCount} for ${requestConfig.baseURL}${requestConfig.url} due to error: ${error.message}`
+          const status = error.response?.status;
+
+          this.log(
+            'warn',
+            `[${name}] Retry #${retryCount} for ${requestConfig.baseURL}${requestConfig.url} due to error: ${error.message}`,
+            {
+              client: name,
+              method: (requestConfig.method || 'get').toUpperCase(),
+              url: `${requestConfig.baseURL || ''}${requestConfig.url || ''}`,
+              ...(status !== undefined && { status }),
+              attempt: retryCount + 1,
+              duration: this.getRequestStats(error).elapsed,
+              reason: error.message,
+            }
           );
         }
       },
@@ -104,141 +510,1903 @@ export class AxiosRetryClient {
       ...config,
     };
 
+    this.auth = config.auth;
     this.axiosConfig = config.axiosConfig;
     this.axiosRetry = axiosRetry;
     this.baseURL = config.baseURL;
+    this.cache = config.cache
+      ? new ResponseCache(typeof config.cache === 'object' ? config.cache : {})
+      : undefined;
+    this.circuitBreaker = config.circuitBreaker;
     this.debug = config.debug;
     this.debugLevel = config.debugLevel;
+    this.deadline = config.deadline;
+    this.dedupe = config.dedupe;
+    this.hedge = config.hedge;
+    this.hedger = new RequestHedger({
+      onResult: (requestConfig, won) => this.recordHedge(requestConfig, won),
+      onDiscarded: (requestConfig, result: any) =>
+        this.recordAttempt(result, requestConfig, result?.status ?? result?.response?.status),
+      acquireSlot: requestConfig =>
+        this.rateLimiter ? this.rateLimiter.tryAcquire(requestConfig.url || '') : () => {},
+    });
+    this.hooks = config.hooks ? ([] as Hooks[]).concat(config.hooks) : [];
+    this.idempotency = config.idempotency
+      ? {
+          header: DEFAULT_IDEMPOTENCY_HEADER,
+          methods: [RequestType.POST, RequestType.PATCH],
+          generateKey: generateIdempotencyKey,
+          ...(typeof config.idempotency === 'object' ? config.idempotency : {}),
+        }
+      : undefined;
+    this.logger = config.logger || new ConsoleLogger();
+    this.metrics = config.metrics;
     this.name = config.name;
+    this.rateLimiter = config.rateLimit ? new RateLimiter(config.rateLimit) : undefined;
+    this.redactor =
+      config.redact === false
+        ? undefined
+        : new Redactor(typeof config.redact === 'object' ? config.redact : {});
+    this.responseSchemas = config.responseSchemas || [];
     this.retryConfig = config.retryConfig!;
+    this.tracing = config.tracing;
 
     const client = axios.create({
       ...config.axiosConfig,
       baseURL: config.baseURL,
     });
 
-    axiosRetry(client, config.retryConfig);
+    this.useAttemptStats(client);
+    this.useDataBuilder(client);
+
+    if (this.rateLimiter) {
+      this.useRateLimit(client, this.rateLimiter);
+    }
+
+    if (this.auth) {
+      this.useAuth(client, this.auth);
+    }
+
+    axiosRetry(client, this.getAxiosRetryConfig(this.retryConfig));
 
     this.axios = client;
   }
 
-  private getRetryDelay(
-    retryCount: number,
-    error: AxiosError<unknown, any>,
-    backoff: string,
-    delayFactor: number
-  ): number {
-    if (backoff === 'exponential') {
-      return axiosRetry.exponentialDelay(retryCount, error, delayFactor);
-    } else if (backoff === 'linear') {
-      return axiosRetry.linearDelay(delayFactor)(retryCount, error);
-    } else {
-      return delayFactor;
+  /**
+   * Adds the interceptors that make every attempt wait for a rate limiter slot and free it once
+   * the attempt's response arrives, so that retries go through the buckets too and no slot is
+   * held during retry delays. Aborting the request's signal (or reaching its deadline) takes it
+   * out of the queue. They are registered before the auth interceptors so that a request
+   * replayed after a 401 waits for a slot of its own. An error thrown by a later request
+   * interceptor (e.g. `buildData`) skips the response interceptors' release, so
+   * `executeRequest` frees whatever slots are left once the call settles.
+   *
+   * @param client - The axios instance
+   * @param rateLimiter - The rate limiter
+   */
+  private useRateLimit(client: AxiosInstance, rateLimiter: RateLimiter) {
+    client.interceptors.request.use(async requestConfig => {
+      let releaseRateLimit: () => void;
+
+      try {
+        releaseRateLimit = await rateLimiter.acquire(requestConfig.url || '', requestConfig.signal);
+      } catch {
+        throw new axios.AxiosError('canceled', axios.AxiosError.ERR_CANCELED, requestConfig);
+      }
+
+      requestConfig['axios-retry-client']?.rateLimitSlots?.add(releaseRateLimit);
+      requestConfig['axios-retry-client'] = {
+        startTime: Date.now(),
+        ...requestConfig['axios-retry-client'],
+        releaseRateLimit,
+      };
+
+      return requestConfig;
+    });
+
+    client.interceptors.response.use(
+      response => {
+        response.config['axios-retry-client']?.releaseRateLimit?.();
+        return response;
+      },
+      error => {
+        error?.config?.['axios-retry-client']?.releaseRateLimit?.();
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Adds the interceptors that time every attempt and record its metrics. They are registered
+   * before axios-retry's so that they see each attempt.
+   *
+   * @param client - The axios instance
+   */
+  private useAttemptStats(client: AxiosInstance) {
+    client.interceptors.request.use(requestConfig => {
+      requestConfig['axios-retry-client'] = {
+        startTime: Date.now(),
+        ...requestConfig['axios-retry-client'],
+        attemptStartTime: Date.now(),
+      };
+
+      return requestConfig;
+    });
+
+    client.interceptors.response.use(
+      response => {
+        this.recordAttempt(response, response.config, response.status);
+        return response;
+      },
+      error => {
+        if (error && typeof error === 'object') {
+          this.recordAttempt(error, error.config, error.response?.status);
+        }
+
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Adds the interceptor that builds the body of every attempt for requests with `buildData`
+   *
+   * @param client - The axios instance
+   */
+  private useDataBuilder(client: AxiosInstance) {
+    client.interceptors.request.use(async requestConfig => {
+      const { buildData } = requestConfig as AxiosRetryClientRequestConfig;
+
+      if (buildData) {
+        requestConfig.data = await buildData();
+        // axios-retry skips the request transforms on retries, as the data was already transformed
+        requestConfig.transformRequest = client.defaults.transformRequest!;
+      }
+
+      return requestConfig;
+    });
+  }
+
+  /**
+   * Records the stats and metrics for an attempt
+   *
+   * @param result - The response or error the attempt finished with
+   * @param requestConfig - The request config of the attempt
+   * @param status - The response status
+   */
+  private recordAttempt(
+    result: object,
+    requestConfig: AxiosRequestConfig | undefined,
+    status: number | undefined
+  ) {
+    const attemptStartTime = requestConfig?.['axios-retry-client']?.attemptStartTime;
+
+    if (!requestConfig || attemptStartTime === undefined) {
+      return;
+    }
+
+    const responseTime = Date.now() - attemptStartTime;
+
+    const attempts = getAttemptNumber(requestConfig);
+    const spanKey = requestConfig['axios-retry-client']?.spanKey;
+
+    this.attemptStats.set(result, {
+      attempts,
+      responseTime,
+      ...(status !== undefined && { status }),
+    });
+
+    if (spanKey !== undefined) {
+      const errorType =
+        status !== undefined && status >= 400
+          ? String(status)
+          : result instanceof Error
+            ? (result as any).code || result.name
+            : undefined;
+
+      this.activeSpans.get(spanKey)?.addEvent('http.request.attempt', {
+        'http.request.resend_count': attempts - 1,
+        'http.response.status_code': status,
+        'error.type': errorType,
+        duration: responseTime,
+      });
+    }
+
+    if (this.metrics) {
+      const labels: MetricLabels = {
+        client: this.name!,
+        method: (requestConfig.method || 'get').toUpperCase(),
+        route: getRouteLabel(requestConfig.url || '', this.metrics.routes),
+        status: status === undefined ? '' : String(status),
+      };
+
+      this.metrics.sink.increment(METRIC_NAMES.attempts, labels);
+      this.metrics.sink.observe(METRIC_NAMES.attemptDuration, labels, responseTime / 1000);
     }
   }
 
-  private async _request<T>(
+  /**
+   * Records whether a hedged request answered first, and counts the hedge in the call's attempts
+   *
+   * @param requestConfig - The request config
+   * @param won - Whether the hedge's response was used
+   */
+  private recordHedge(requestConfig: InternalAxiosRequestConfig, won: boolean) {
+    const state = requestConfig['axios-retry-client'];
+
+    // hedged copies share the attempt's state object, so every later attempt sees the count
+    if (state) {
+      state.hedges = (state.hedges || 0) + 1;
+    }
+
+    if (this.metrics) {
+      this.metrics.sink.increment(METRIC_NAMES.hedges, {
+        client: this.name!,
+        method: (requestConfig.method || 'get').toUpperCase(),
+        route: getRouteLabel(requestConfig.url || '', this.metrics.routes),
+        outcome: won ? 'won' : 'lost',
+      });
+    }
+  }
+
+  /**
+   * Builds the metrics for a finished call and sends them to the metrics sink
+   *
+   * @param context - The request context
+   * @param response - The response the call resolved with or received before failing, if any
+   * @param error - The error the call failed with, if any
+   * @returns The metrics
+   */
+  private recordMetrics(
+    context: RequestContext,
+    response: AxiosResponse | undefined,
+    error?: unknown
+  ): RequestMetrics {
+    const stats =
+      (error && typeof error === 'object' ? this.attemptStats.get(error) : undefined) ??
+      (response ? this.attemptStats.get(response) : undefined);
+    const outcome = error === undefined ? 'success' : this.getOutcome(error);
+    const status: number | undefined =
+      error === undefined ? response?.status : ((error as any)?.status ?? stats?.status);
+    const metrics: RequestMetrics = {
+      attempts: stats?.attempts ?? 0,
+      outcome,
+      ...(status !== undefined && { status }),
+      timings: {
+        ...(stats &&
+          getConnectionTimings(this.axios.getUri({ ...context.config, url: context.url }))),
+        ...(stats && { response: stats.responseTime }),
+        total: Date.now() - context.startTime,
+      },
+    };
+
+    if (this.metrics) {
+      const labels: MetricLabels = {
+        client: this.name!,
+        method: context.method,
+        route: getRouteLabel(context.url, this.metrics.routes),
+        status: status === undefined ? '' : String(status),
+      };
+
+      this.metrics.sink.increment(METRIC_NAMES.requests, { ...labels, outcome });
+      this.metrics.sink.observe(METRIC_NAMES.requestDuration, labels, metrics.timings.total / 1000);
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Starts the span for a call when tracing is enabled
+   *
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @param config - The request config
+   * @param startTime - Time the call started (ms since epoch)
+   * @returns The span
+   */
+  private startSpan(
     requestType: RequestType,
     url: string,
-    data?: any,
-    config: AxiosRetryClientRequestConfig = {}
-  ): Promise<AxiosRetryClientResponse<T>> {
-    let req: AxiosResponse<T> | undefined;
+    config: AxiosRetryClientRequestConfig,
+    startTime: number
+  ): Span | undefined {
+    if (!this.tracing) {
+      return undefined;
+    }
 
-    if (config.retryConfig) {
-      let retryConfig: IAxiosRetryConfig;
+    const route = getRouteLabel(url, this.tracing.routes);
+    const fullUrl = this.axios.getUri({ ...config, url });
+    let server: URL | undefined;
 
-      if (config.retryConfig.backoff || config.retryConfig.delayFactor) {
-        retryConfig = {
-          ...this.retryConfig,
-          retryDelay: (retryCount: number, error: AxiosError<unknown, any>) =>
-            this.getRetryDelay(
-              retryCount,
-              error,
-              config.retryConfig?.backoff || this.retryConfig.backoff!,
-              config.retryConfig?.delayFactor || this.retryConfig.delayFactor!
-            ),
-          ...config.retryConfig,
-        };
-      } else {
-        retryConfig = {
-          ...this.retryConfig,
-          ...config.retryConfig,
-        };
-      }
+    try {
+      server = new URL(fullUrl);
+    } catch {
+      server = undefined;
+    }
+
+    return this.tracing.tracer.startSpan(`${requestType} ${route}`, {
+      kind: SpanKind.CLIENT,
+      startTime,
+      attributes: {
+        'http.request.method': requestType,
+        'url.full': this.redactor ? this.redactor.redactString(fullUrl) : fullUrl,
+        'url.template': route,
+        ...(server && {
+          'server.address': server.hostname,
+          'server.port': Number(server.port) || (server.protocol === 'https:' ? 443 : 80),
+        }),
+      },
+    });
+  }
+
+  /**
+   * Registers the span for a call so that its attempts can be recorded on it, and adds the
+   * `traceparent` / `tracestate` headers
+   *
+   * @param span - The span
+   * @param config - The request config
+   * @returns The request config
+   */
+  private activateSpan(span: Span, config: AxiosRetryClientRequestConfig) {
+    const spanKey = ++this.spanKeys;
+
+    this.activeSpans.set(spanKey, span);
+    config['axios-retry-client'] = { ...config['axios-retry-client']!, spanKey };
+
+    if (this.tracing?.propagate === false) {
+      return config;
+    }
+
+    const spanContext = span.spanContext();
+    const traceState = spanContext.traceState?.serialize();
+
+    return {
+      ...config,
+      headers: {
+        ...(config.headers as Record<string, any>),
+        traceparent: formatTraceparent(spanContext),
+        ...(traceState && { tracestate: traceState }),
+      },
+    };
+  }
+
+  /**
+   * Records the result of a call on its span and ends it
+   *
+   * @param context - The request context
+   * @param metrics - The metrics for the call
+   * @param error - The error the call failed with, if any
+   */
+  private endSpan(context: RequestContext, metrics: RequestMetrics, error?: unknown) {
+    const { span } = context;
+
+    if (!span) {
+      return;
+    }
+
+    const spanKey = context.config['axios-retry-client']?.spanKey;
+
+    if (spanKey !== undefined) {
+      this.activeSpans.delete(spanKey);
+    }
+
+    if (metrics.status !== undefined) {
+      span.setAttribute('http.response.status_code', metrics.status);
+    }
+
+    if (metrics.attempts > 1) {
+      span.setAttribute('http.request.resend_count', metrics.attempts - 1);
+    }
+
+    if (error !== undefined) {
+      const errorType =
+        error instanceof ApiResponseError
+          ? String(error.status)
+          : (error as any)?.cause?.code || (error as any)?.name || 'Error';
+
+      span.setAttribute('error.type', errorType);
+      span.recordException(error);
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: (error as any)?.message || String(error),
+      });
+    }
+
+    span.end();
+  }
+
+  /**
+   * @param error - The error a call failed with
+   * @returns The outcome for the error
+   */
+  private getOutcome(error: unknown): RequestOutcome {
+    if (error instanceof ApiTimeoutError) {
+      return 'timeout';
+    } else if (error instanceof ApiNetworkError) {
+      return 'network_error';
+    } else if (error instanceof ApiCancelledError) {
+      return 'cancelled';
+    } else if (error instanceof CircuitOpenError) {
+      return 'circuit_open';
+    } else if (error instanceof RateLimitQueueFullError) {
+      return 'rate_limited';
+    } else if (error instanceof ResponseValidationError) {
+      return 'invalid_response';
+    } else if (error instanceof ApiResponseError) {
+      return 'http_error';
+    }
+
+    return 'error';
+  }
+
+  /**
+   * Adds the interceptors that authenticate every attempt and replay a request once after
+   * refreshing the credentials when it is rejected with a 401. They are registered before
+   * axios-retry's so that they see each attempt.
+   *
+   * @param client - The axios instance
+   * @param auth - The auth provider
+   */
+  private useAuth(client: AxiosInstance, auth: AuthProvider) {
+    client.interceptors.request.use(async requestConfig => {
+      requestConfig['axios-retry-client'] = {
+        startTime: Date.now(),
+        ...requestConfig['axios-retry-client'],
+        authGeneration: this.authGeneration,
+      };
+
+      return auth.authenticate(requestConfig);
+    });
+
+    client.interceptors.response.use(undefined, async (error: AxiosError) => {
+      const requestConfig = error.config;
+      const state = requestConfig?.['axios-retry-client'];
+
+      if (
+        error.response?.status !== 401 ||
+        !requestConfig ||
+        !auth.refresh ||
+        state?.authReplayed
+      ) {
+        throw error;
+      }
+
+      try {
+        await this.refreshAuth(auth, state?.authGeneration ?? this.authGeneration);
+      } catch {
+        // the refresh failed, so surface the original 401
+        throw error;
+      }
+
+      requestConfig['axios-retry-client'] = {
+        startTime: Date.now(),
+        ...state,
+        authReplayed: true,
+      };
+
+      return client(requestConfig);
+    });
+  }
+
+  /**
+   * Refreshes the auth provider's credentials. Concurrent callers share a single refresh, and
+   * callers whose credentials were already replaced by a refresh that completed after they were
+   * issued don't trigger another one.
+   *
+   * @param auth - The auth provider
+   * @param generation - The auth generation the rejected credentials were issued under
+   */
+  private refreshAuth(auth: AuthProvider, generation: number): Promise<void> {
+    if (generation !== this.authGeneration && !this.authRefresh) {
+      return Promise.resolve();
+    }
+
+    if (!this.authRefresh) {
+      this.authRefresh = Promise.resolve(auth.refresh?.())
+        .then(() => {
+          this.authGeneration++;
+        })
+        .finally(() => {
+          this.authRefresh = undefined;
+        });
+    }
+
+    return this.authRefresh;
+  }
+
+  /**
+   * Calculates the delay before a retry
+   *
+   * @param retryCount - The retry number
+   * @param error - The error the last attempt failed with
+   * @param retryConfig - The backoff, delay factor, jitter and `respectRetryAfter` to use
+   * @returns The delay (in ms)
+   */
+  private getRetryDelay(
+    retryCount: number,
+    error: AxiosError<unknown, any>,
+    retryConfig: AxiosRetryClientRetryConfig
+  ): number {
+    if (retryConfig.respectRetryAfter) {
+      const retryAfter = getRetryAfterDelay(error);
+
+      if (retryAfter !== undefined) {
+        return retryAfter;
+      }
+    }
+
+    const previousDelay = error.config?.['axios-retry-client']?.retryDelays?.[retryCount - 1];
+
+    return calculateRetryDelay(retryCount, error, {
+      backoff: retryConfig.backoff || 'exponential',
+      delayFactor: retryConfig.delayFactor || 500,
+      random: retryConfig.random || Math.random,
+      ...(retryConfig.jitter !== undefined && { jitter: retryConfig.jitter }),
+      ...(retryConfig.maxDelay !== undefined && { maxDelay: retryConfig.maxDelay }),
+      ...(previousDelay !== undefined && { previousDelay }),
+    });
+  }
+
+  /**
+   * Builds the axios-retry config for a retry config. With retry policy `rules`, the number of
+   * retries is the highest of the rules' (the retry condition enforces each rule's own) and the
+   * delay comes from the matching rule. The delay of each retry is calculated once and kept on
+   * the call, so that the deadline check waits for the same delay and decorrelated backoff can
+   * build on the previous one.
+   *
+   * @param retryConfig - The retry config in effect for the request
+   * @returns The config to hand to axios-retry
+   */
+  private getAxiosRetryConfig(retryConfig: AxiosRetryClientRetryConfig): IAxiosRetryConfig {
+    const { rules, retryDelay } = retryConfig;
+    const getDelay = (retryCount: number, error: AxiosError) => {
+      const rule = rules && findRetryRule(rules, error);
+
+      if (
+        retryDelay &&
+        (!rule ||
+          (!rule.backoff &&
+            !rule.delayFactor &&
+            rule.jitter === undefined &&
+            rule.maxDelay === undefined))
+      ) {
+        return retryDelay(retryCount, error);
+      }
+
+      return this.getRetryDelay(retryCount, error, {
+        ...retryConfig,
+        ...(rule?.backoff && { backoff: rule.backoff }),
+        ...(rule?.delayFactor && { delayFactor: rule.delayFactor }),
+        ...(rule?.jitter !== undefined && { jitter: rule.jitter }),
+        ...(rule?.maxDelay !== undefined && { maxDelay: rule.maxDelay }),
+      });
+    };
+
+    retryConfig = {
+      ...retryConfig,
+      retryDelay: (retryCount, error) => {
+        const state = error.config?.['axios-retry-client'];
+
+        if (!state) {
+          return getDelay(retryCount, error);
+        }
+
+        state.retryDelays = state.retryDelays || [];
+        state.retryDelays[retryCount] ??= getDelay(retryCount, error);
+
+        return state.retryDelays[retryCount];
+      },
+    };
+
+    return {
+      ...retryConfig,
+      ...(rules?.length && {
+        retries: Math.max(retryConfig.retries ?? 3, ...rules.map(rule => rule.retries)),
+      }),
+      retryCondition: this.getRetryCondition(retryConfig),
+      onRetry: this.getOnRetry(retryConfig),
+    };
+  }
+
+  /**
+   * Wraps the configured `retryCondition` so that requests are not retried when the server asks
+   * us to wait longer than `maxRetryAfter`, when `idempotency` is enabled and a non-idempotent
+   * request has no idempotency key, or when the retry would start after the call's deadline.
+   * Failed requests that match a retry policy rule follow the rule instead of the condition.
+   *
+   * @param retryConfig - The retry config in effect for the request
+   * @returns The retry condition to hand to axios-retry
+   */
+  private getRetryCondition(
+    retryConfig: AxiosRetryClientRetryConfig
+  ): NonNullable<IAxiosRetryConfig['retryCondition']> {
+    return async (error: AxiosError) => {
+      const hasIdempotencyKey = this.hasIdempotencyKey(error);
+
+      if (hasIdempotencyKey === false) {
+        return false;
+      }
+
+      const retryCondition =
+        retryConfig.retryCondition ||
+        (hasIdempotencyKey
+          ? isNetworkOrRetryableError
+          : axiosRetry.isNetworkOrIdempotentRequestError);
+      const rule = retryConfig.rules && findRetryRule(retryConfig.rules, error);
+      const retryCount = error.config?.['axios-retry']?.retryCount || 0;
+
+      if (rule) {
+        if (
+          retryCount >= rule.retries ||
+          !(isRetryableByRule(rule, error, hasIdempotencyKey) ?? (await retryCondition(error)))
+        ) {
+          return false;
+        }
+      } else if (
+        (retryConfig.rules?.length && retryCount >= (retryConfig.retries ?? 3)) ||
+        !(await retryCondition(error))
+      ) {
+        return false;
+      }
+
+      if (retryConfig.respectRetryAfter) {
+        const retryAfter = getRetryAfterDelay(error);
+        const maxRetryAfter = retryConfig.maxRetryAfter ?? DEFAULT_MAX_RETRY_AFTER;
+
+        if (retryAfter !== undefined && retryAfter > maxRetryAfter) {
+          this.retryAfterExceeded.set(error, retryAfter);
+          return false;
+        }
+      }
+
+      if (this.isRetryPastDeadline(error, retryConfig)) {
+        this.retriesPastDeadline.add(error);
+        return false;
+      }
+
+      return true;
+    };
+  }
+
+  /**
+   * @param error - The error the attempt failed with
+   * @param retryConfig - The retry config in effect for the request
+   * @returns Whether the next retry would start after the call's deadline
+   */
+  private isRetryPastDeadline(error: AxiosError, retryConfig: AxiosRetryClientRetryConfig) {
+    const deadlineAt = error.config?.['axios-retry-client']?.deadlineAt;
+
+    if (deadlineAt === undefined) {
+      return false;
+    }
+
+    const retryCount = (error.config?.['axios-retry']?.retryCount || 0) + 1;
+    const delay = retryConfig.retryDelay?.(retryCount, error) ?? 0;
+
+    return Date.now() + delay >= deadlineAt;
+  }
+
+  /**
+   * Makes a call abort once its deadline is reached, or when the caller's signal aborts
+   *
+   * @param config - The request config
+   * @param deadlineAt - Time the deadline expires (ms since epoch)
+   * @returns The request config and a function that stops the deadline timer
+   */
+  private applyDeadline(
+    config: AxiosRetryClientRequestConfig,
+    deadlineAt: number
+  ): [AxiosRetryClientRequestConfig, () => void] {
+    const controller = new AbortController();
+    const { signal } = config;
+    const abort = () => controller.abort((signal as AbortSignal).reason);
+    const timer = setTimeout(
+      () => controller.abort(DEADLINE_EXCEEDED),
+      Math.max(deadlineAt - Date.now(), 0)
+    );
+
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener?.('abort', abort);
+    }
+
+    return [
+      {
+        ...config,
+        signal: controller.signal,
+        'axios-retry-client': { ...config['axios-retry-client']!, deadlineAt },
+      },
+      () => {
+        clearTimeout(timer);
+        signal?.removeEventListener?.('abort', abort);
+      },
+    ];
+  }
+
+  /**
+   * Wraps the configured `onRetry` callback so that `onRetry` hooks run after it. The streamed
+   * body of the failed attempt is closed once they've run, since nothing reads it after a retry.
+   *
+   * @param retryConfig - The retry config in effect for the request
+   * @returns The onRetry callback to hand to axios-retry
+   */
+  private getOnRetry(
+    retryConfig: AxiosRetryClientRetryConfig
+  ): NonNullable<IAxiosRetryConfig['onRetry']> {
+    return async (retryCount, error, requestConfig) => {
+      const config = requestConfig as AxiosRetryClientRequestConfig;
+
+      try {
+        await retryConfig.onRetry?.(retryCount, error, requestConfig);
+
+        const hooks = getHooks([...this.hooks, config.hooks], 'onRetry');
+
+        if (!hooks.length) {
+          return;
+        }
+
+        const context: RequestContext = {
+          client: this.name!,
+          method: (config.method || 'get').toUpperCase() as RequestType,
+          url: config.url || '',
+          data: config.data,
+          config,
+          startTime: config['axios-retry-client']?.startTime ?? Date.now(),
+        };
+
+        for (const hook of hooks) {
+          await hook(retryCount, error, context);
+        }
+      } finally {
+        if (config.responseType === 'stream') {
+          discardBody(error.response?.data);
+        }
+      }
+    };
+  }
+
+  /**
+   * Adds hooks to every request made by the client. They run after the hooks that were added
+   * before them.
+   *
+   * @param hooks - The hooks
+   * @returns A function that removes the hooks again
+   */
+  use(hooks: Hooks): () => void {
+    this.hooks.push(hooks);
+
+    return () => {
+      const index = this.hooks.indexOf(hooks);
+
+      if (index !== -1) {
+        this.hooks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Checks whether a failed request that `idempotency` applies to carries an idempotency key
+   *
+   * @param error - The axios error
+   * @returns Whether the request has a key, or undefined if `idempotency` doesn't apply to it
+   */
+  private hasIdempotencyKey(error: AxiosError): boolean | undefined {
+    const method = error.config?.method?.toUpperCase() as RequestType | undefined;
+
+    if (!this.idempotency || !method || !this.idempotency.methods.includes(method)) {
+      return undefined;
+    }
+
+    return !!getIdempotencyKey(error.config?.headers, this.idempotency.header);
+  }
+
+  /**
+   * Adds an idempotency key header to the request config when `idempotency` applies to the
+   * request. A key passed as `idempotencyKey` or already present in the headers is kept.
+   *
+   * @param requestType - The request type
+   * @param config - The request config
+   * @returns The request config
+   */
+  private applyIdempotencyKey(
+    requestType: RequestType,
+    config: AxiosRetryClientRequestConfig
+  ): AxiosRetryClientRequestConfig {
+    if (!this.idempotency || !this.idempotency.methods.includes(requestType)) {
+      return config;
+    }
+
+    const { header, generateKey } = this.idempotency;
+    const key = config.idempotencyKey || getIdempotencyKey(config.headers, header) || generateKey();
+
+    return {
+      ...config,
+      headers: { ...(config.headers as Record<string, any>), [header]: key },
+    };
+  }
+
+  /**
+   * Gets the circuit breaker for a request, creating it if necessary
+   *
+   * @param url - The request URL
+   * @param baseURL - The base URL for the request
+   * @returns The circuit breaker or undefined if circuit breaking is disabled
+   */
+  getCircuitBreaker(url: string, baseURL = this.baseURL): CircuitBreaker | undefined {
+    if (!this.circuitBreaker) {
+      return undefined;
+    }
+
+    let key = this.name!;
+
+    if (this.circuitBreaker.scope !== 'client') {
+      try {
+        key = new URL(url, baseURL).host;
+      } catch {
+        key = baseURL;
+      }
+    }
+
+    let circuitBreaker = this.circuitBreakers.get(key);
+
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker(key, this.circuitBreaker);
+      this.circuitBreakers.set(key, circuitBreaker);
+    }
+
+    return circuitBreaker;
+  }
+
+  private async _request<T>(
+    requestType: RequestType,
+    url: string,
+    data?: any,
+    config: AxiosRetryClientRequestConfig = {}
+  ): Promise<AxiosRetryClientResponse<T>> {
+    const startTime = Date.now();
+
+    if (config.retryConfig) {
+      let retryConfig: AxiosRetryClientRetryConfig;
+
+      if (
+        config.retryConfig.backoff ||
+        config.retryConfig.delayFactor ||
+        config.retryConfig.respectRetryAfter !== undefined ||
+        config.retryConfig.jitter !== undefined ||
+        config.retryConfig.maxDelay !== undefined ||
+        config.retryConfig.random
+      ) {
+        retryConfig = {
+          ...this.retryConfig,
+          retryDelay: (retryCount: number, error: AxiosError<unknown, any>) =>
+            this.getRetryDelay(retryCount, error, {
+              ...this.retryConfig,
+              ...config.retryConfig,
+              backoff: config.retryConfig?.backoff || this.retryConfig.backoff!,
+              delayFactor: config.retryConfig?.delayFactor || this.retryConfig.delayFactor!,
+            }),
+          ...config.retryConfig,
+        };
+      } else {
+        retryConfig = {
+          ...this.retryConfig,
+          ...config.retryConfig,
+        };
+      }
+
+      config['axios-retry'] = this.getAxiosRetryConfig(retryConfig);
+    }
+
+    config = this.applyIdempotencyKey(requestType, config);
+
+    // Call beforeRequest hook to potentially modify the request parameters
+    const filteredArgs = await this.preRequestFilter(requestType, url, data, config);
+    data = filteredArgs.data ?? data;
+    config = filteredArgs.config ?? config;
+
+    const hooks = [...this.hooks, config.hooks];
+    const span = this.startSpan(requestType, url, config, startTime);
+    const context: RequestContext = {
+      client: this.name!,
+      method: requestType,
+      url,
+      data,
+      config,
+      startTime,
+      ...(span && { span }),
+    };
+    let req: AxiosResponse<T>;
+    let received: AxiosResponse<T> | undefined;
+    let failure: unknown;
+    let responseData: T;
+    let clearDeadline: (() => void) | undefined;
+
+    try {
+      let syntheticResponse: AxiosResponse<T> | undefined;
+
+      for (const hook of getHooks(hooks, 'onRequest')) {
+        const result = await hook(context);
+
+        if (result) {
+          syntheticResponse = createSyntheticResponse<T>(result.response, context.config);
+          break;
+        }
+      }
+
+      data = context.data;
+      config = context.config;
+      config['axios-retry-client'] = { ...config['axios-retry-client'], startTime };
+
+      if (span) {
+        config = context.config = this.activateSpan(span, config);
+      }
+
+      const deadline = config.deadline ?? this.deadline;
+
+      if (deadline !== undefined && !syntheticResponse) {
+        [config, clearDeadline] = this.applyDeadline(config, startTime + deadline);
+        context.config = config;
+      }
+
+      if (syntheticResponse) {
+        req = syntheticResponse;
+      } else {
+        // Call beforeRequestAction hook to perform any actions before the request is sent
+        await this.preRequestAction(requestType, url, data, config);
+
+        req = await this.dispatchRequest<T>(requestType, url, data, config);
+        received = req;
+        clearDeadline?.();
+      }
+
+      for (const hook of getHooks(hooks, 'onResponse')) {
+        req = ((await hook(req, context)) as AxiosResponse<T> | undefined) ?? req;
+      }
+
+      const schema = config.schema ?? this.getResponseSchema(requestType, url);
+      responseData = schema
+        ? await this.validateResponse<T>(schema, req, requestType, url)
+        : req.data;
+    } catch (error) {
+      clearDeadline?.();
+      failure = error;
+      req = await this.recoverFromError<T>(hooks, error, context, received);
+      responseData = req.data;
+    }
+
+    const metrics = this.recordMetrics(context, req, failure);
+    this.endSpan(context, metrics, failure);
+
+    for (const hook of getHooks(hooks, 'onComplete')) {
+      await hook({ response: req, duration: metrics.timings.total, metrics }, context);
+    }
+
+    const cache = this.cache?.getMetadata(req);
+
+    return cache
+      ? { request: req, data: responseData, cache, metrics }
+      : { request: req, data: responseData, metrics };
+  }
+
+  /**
+   * Runs the `onError` hooks for a failed call. Resolves with a synthetic response if a hook
+   * recovers from the error, otherwise runs the `onComplete` hooks and rethrows it.
+   *
+   * @param hooks - The hooks for the request
+   * @param error - The error the call failed with
+   * @param context - The request context
+   * @param received - The response received from the server, if any
+   * @returns The synthetic response
+   */
+  private async recoverFromError<T>(
+    hooks: Array<Hooks | undefined>,
+    error: unknown,
+    context: RequestContext,
+    received: AxiosResponse | undefined
+  ): Promise<AxiosResponse<T>> {
+    const failure = error;
+
+    for (const hook of getHooks(hooks, 'onError')) {
+      try {
+        const result = await hook(error, context);
+
+        if (result) {
+          return createSyntheticResponse<T>(result.response, context.config);
+        }
+      } catch (hookError) {
+        error = hookError;
+      }
+    }
+
+    const metrics = this.recordMetrics(context, received, failure);
+    this.endSpan(context, metrics, failure);
+
+    for (const hook of getHooks(hooks, 'onComplete')) {
+      await hook({ error, duration: metrics.timings.total, metrics }, context);
+    }
+
+    throw error;
+  }
+
+  /**
+   * Sends the request, sharing an identical in-flight GET request or serving it from the cache
+   * where enabled. A shared request doesn't use the signal or deadline of the call that started
+   * it: every call waits for it with its own, and it's aborted once all of them have been.
+   *
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @param data - The request data
+   * @param config - The request config
+   * @returns The axios response
+   */
+  private async dispatchRequest<T>(
+    requestType: RequestType,
+    url: string,
+    data: any,
+    config: AxiosRetryClientRequestConfig
+  ): Promise<AxiosResponse<T>> {
+    const dedupeKey = this.getDedupeKey(requestType, url, config);
+
+    if (!dedupeKey) {
+      return this.fetchRequest<T>(requestType, url, data, config);
+    }
+
+    let shared = this.inFlightRequests.get(dedupeKey);
+
+    if (!shared) {
+      const controller = new AbortController();
+      const { deadlineAt, ...state } = config['axios-retry-client']!;
+      const request: SharedRequest = {
+        response: this.fetchRequest(requestType, url, data, {
+          ...config,
+          signal: controller.signal,
+          'axios-retry-client': state,
+        }),
+        controller,
+        callers: 0,
+      };
+      const cleanup = () => {
+        if (this.inFlightRequests.get(dedupeKey) === request) {
+          this.inFlightRequests.delete(dedupeKey);
+        }
+      };
+
+      this.inFlightRequests.set(dedupeKey, request);
+      request.response.then(cleanup, cleanup);
+      shared = request;
+    }
+
+    return this.joinSharedRequest<T>(shared, dedupeKey, requestType, url, config);
+  }
+
+  /**
+   * Waits for a shared request, until the call's own signal aborts. The shared request is
+   * aborted once the last call waiting for it is.
+   *
+   * @param shared - The shared request
+   * @param dedupeKey - The key the request is shared under
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @param config - The request config of the call
+   * @returns The axios response
+   */
+  private joinSharedRequest<T>(
+    shared: SharedRequest,
+    dedupeKey: string,
+    requestType: RequestType,
+    url: string,
+    config: AxiosRetryClientRequestConfig
+  ): Promise<AxiosResponse<T>> {
+    const { signal } = config;
+
+    return new Promise((resolve, reject) => {
+      let waiting = true;
+
+      const leave = () => {
+        if (waiting) {
+          waiting = false;
+          shared.callers--;
+          signal?.removeEventListener?.('abort', abort);
+        }
+      };
+
+      const abort = () => {
+        leave();
+
+        if (!shared.callers) {
+          if (this.inFlightRequests.get(dedupeKey) === shared) {
+            this.inFlightRequests.delete(dedupeKey);
+          }
+
+          shared.controller.abort();
+        }
+
+        try {
+          this.handleRequestError(
+            new axios.AxiosError(
+              'canceled',
+              axios.AxiosError.ERR_CANCELED,
+              config as InternalAxiosRequestConfig
+            ),
+            requestType,
+            url,
+            config
+          );
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      shared.callers++;
+
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+
+      signal?.addEventListener?.('abort', abort);
+      shared.response.then(
+        response => {
+          leave();
+          resolve(response as AxiosResponse<T>);
+        },
+        error => {
+          leave();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Sends the request, or serves it from the cache where enabled
+   *
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @param data - The request data
+   * @param config - The request config
+   * @returns The axios response
+   */
+  private fetchRequest<T>(
+    requestType: RequestType,
+    url: string,
+    data: any,
+    config: AxiosRetryClientRequestConfig
+  ): Promise<AxiosResponse<T>> {
+    return this.cache &&
+      requestType === RequestType.GET &&
+      config.responseType !== 'stream' &&
+      config.cache !== false
+      ? this.cache.fetch(url, config, cacheConfig =>
+          this.executeRequest<T>(requestType, url, data, cacheConfig)
+        )
+      : this.executeRequest<T>(requestType, url, data, config);
+  }
+
+  /**
+   * Gets the key used to coalesce identical in-flight GET requests
+   *
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @param config - The request config
+   * @returns The key or undefined if the request shouldn't be coalesced
+   */
+  private getDedupeKey(
+    requestType: RequestType,
+    url: string,
+    config: AxiosRetryClientRequestConfig
+  ): string | undefined {
+    if (
+      requestType !== RequestType.GET ||
+      config.responseType === 'stream' ||
+      config.retryConfig !== undefined ||
+      !(config.dedupe ?? this.dedupe)
+    ) {
+      return undefined;
+    }
+
+    const options = typeof this.dedupe === 'object' ? this.dedupe : {};
+
+    return options.key ? options.key(url, config) : getRequestKey(url, config, options.headers);
+  }
+
+  /**
+   * Rejects the call when the rate limiter's queue is full, otherwise sends the request. Each
+   * attempt waits for its own slot, see `useRateLimit`, and any slot still held once the call
+   * settles is freed.
+   *
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @param data - The request data
+   * @param config - The request config
+   * @returns The axios response
+   */
+  private async executeRequest<T>(
+    requestType: RequestType,
+    url: string,
+    data: any,
+    config: AxiosRetryClientRequestConfig
+  ): Promise<AxiosResponse<T>> {
+    if (this.rateLimiter?.isQueueFull()) {
+      throw new RateLimitQueueFullError(
+        `[${this.name}] ${requestType} ${url} : rate limit queue is full`,
+        this.rateLimiter.queueSize
+      );
+    }
+
+    if (!this.rateLimiter) {
+      return this.sendRequest<T>(requestType, url, data, config);
+    }
+
+    const rateLimitSlots = new Set<() => void>();
+
+    try {
+      return await this.sendRequest<T>(requestType, url, data, {
+        ...config,
+        'axios-retry-client': {
+          startTime: Date.now(),
+          ...config['axios-retry-client'],
+          rateLimitSlots,
+        },
+      });
+    } finally {
+      rateLimitSlots.forEach(release => release());
+    }
+  }
+
+  /**
+   * Makes every attempt of a GET request hedged when `hedge` is enabled for it
+   *
+   * @param config - The request config
+   * @returns The request config
+   */
+  private applyHedging(config: AxiosRetryClientRequestConfig): AxiosRetryClientRequestConfig {
+    const options = config.hedge ?? this.hedge;
+
+    if (!options) {
+      return config;
+    }
+
+    return {
+      ...config,
+      adapter: this.hedger.wrap(
+        axios.getAdapter(config.adapter || this.axios.defaults.adapter),
+        options
+      ),
+    };
+  }
+
+  /**
+   * Finds the default response schema for a request
+   *
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @returns The schema or undefined if none applies
+   */
+  private getResponseSchema(requestType: RequestType, url: string): ResponseSchema | undefined {
+    return this.responseSchemas.find(
+      ({ route, method }) => (!method || method === requestType) && matchRoute(route, url)
+    )?.schema;
+  }
+
+  /**
+   * Validates the response data against a schema
+   *
+   * @param schema - The schema
+   * @param req - The axios response
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @returns The validated data
+   */
+  private async validateResponse<T>(
+    schema: ResponseSchema,
+    req: AxiosResponse,
+    requestType: RequestType,
+    url: string
+  ): Promise<T> {
+    const result = await validateSchema(schema, req.data);
+
+    if (!result.success) {
+      throw new ResponseValidationError(
+        `[${this.name}] ${requestType} ${url} : [${req.status}] response failed validation: ${result.issues
+          .map(issue => (issue.path.length ? `${issue.path.join('.')}: ` : '') + issue.message)
+          .join('; ')}`,
+        result.issues,
+        req.data,
+        req.status
+      );
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Sends the request through the circuit breaker (if enabled) and axios, handing any
+   * errors to `errorHandler`
+   *
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @param data - The request data
+   * @param config - The request config
+   * @returns The axios response
+   */
+  private async sendRequest<T>(
+    requestType: RequestType,
+    url: string,
+    data: any,
+    config: AxiosRetryClientRequestConfig
+  ): Promise<AxiosResponse<T>> {
+    let req: AxiosResponse<T> | undefined;
+
+    const circuitBreaker = this.getCircuitBreaker(url, config.baseURL);
+
+    if (circuitBreaker && !circuitBreaker.tryAcquire()) {
+      throw new CircuitOpenError(
+        `[${this.name}] ${requestType} ${url} : circuit open for ${circuitBreaker.key}`,
+        circuitBreaker.key,
+        circuitBreaker.remainingCooldown
+      );
+    }
+
+    // only requests let through while half-open are probes
+    const probe = circuitBreaker?.state === 'half-open';
+
+    try {
+      switch (requestType) {
+        case RequestType.GET:
+          req = await this.axios.get<T>(url, this.applyHedging(config));
+          break;
+        case RequestType.POST:
+          req = await this.axios.post<T>(url, data, config);
+          break;
+        case RequestType.PUT:
+          req = await this.axios.put<T>(url, data, config);
+          break;
+        case RequestType.PATCH:
+          req = await this.axios.patch<T>(url, data, config);
+          break;
+        case RequestType.DELETE:
+          req = await this.axios.delete<T>(url, config);
+          break;
+        case RequestType.HEAD:
+          req = await this.axios.head<T>(url, config);
+          break;
+        case RequestType.OPTIONS:
+          req = await this.axios.options<T>(url, config);
+          break;
+        default:
+          req = await this.axios.request<T>({
+            ...config,
+            method: requestType,
+            url,
+            ...(data !== undefined && { data }),
+          });
+      }
+
+      circuitBreaker?.record(undefined, probe);
+
+      if (this.debug) {
+        const { attempts, elapsed } = this.getRequestStats(req);
+
+        this.log(
+          'debug',
+          `[${this.name}] ${requestType} ${url} : [${req.status}]`,
+          this.getLogFields(requestType, url, {
+            status: req.status,
+            attempt: attempts,
+            duration: elapsed,
+          })
+        );
+      }
+    } catch (error: any) {
+      circuitBreaker?.record(error, probe);
+
+      try {
+        this.handleRequestError(error, requestType, url, config);
+      } catch (handledError) {
+        const stats = error && typeof error === 'object' ? this.attemptStats.get(error) : undefined;
+
+        if (stats && handledError && typeof handledError === 'object') {
+          this.attemptStats.set(handledError, stats);
+        }
+
+        throw handledError;
+      }
+    }
+
+    return req!;
+  }
+
+  /**
+   * Throws a `RetryAfterExceededError` when the request wasn't retried because the server asked
+   * us to wait too long, or a `DeadlineExceededError` when it wasn't retried because the retry
+   * would have started after the call's deadline, otherwise hands the error to `errorHandler`
+   *
+   * @param error - The error object
+   * @param requestType - The request type
+   * @param url - The request URL
+   * @param config - The request config
+   */
+  private handleRequestError(
+    error: any,
+    requestType: RequestType,
+    url: string,
+    config: AxiosRetryClientRequestConfig
+  ) {
+    if (this.retriesPastDeadline.has(error)) {
+      const { attempts, elapsed } = this.getRequestStats(error);
+      const { startTime, deadlineAt } = error.config['axios-retry-client'];
+
+      throw new DeadlineExceededError(
+        `[${this.name}] ${requestType} ${url} [deadline exceeded] : deadline of ${deadlineAt - startTime}ms leaves no time to retry after ${attempts} attempt(s)`,
+        requestType,
+        url,
+        attempts,
+        elapsed,
+        deadlineAt - startTime,
+        error
+      );
+    }
+
+    const retryAfter = this.retryAfterExceeded.get(error);
+
+    if (retryAfter !== undefined) {
+      throw new RetryAfterExceededError(
+        `[${this.name}] ${requestType} ${url} : [${error.response.status}] server requested a retry delay of ${retryAfter}ms`,
+        error.response.status,
+        error.response.data,
+        retryAfter,
+        config.retryConfig?.maxRetryAfter ??
+          this.retryConfig.maxRetryAfter ??
+          DEFAULT_MAX_RETRY_AFTER,
+        error
+      );
+    }
+
+    this.errorHandler(error, requestType, url);
+  }
+
+  async get<T = any, C extends AxiosRetryClientRequestConfig = AxiosRetryClientRequestConfig>(
+    url: string,
+    config?: C
+  ): Promise<AxiosRetryClientResponse<InferResponseData<T, C>>> {
+    return this._request(RequestType.GET, url, undefined, config);
+  }
+
+  async post<T = any, C extends AxiosRetryClientRequestConfig = AxiosRetryClientRequestConfig>(
+    url: string,
+    data: any,
+    config?: C
+  ): Promise<AxiosRetryClientResponse<InferResponseData<T, C>>> {
+    return this._request(RequestType.POST, url, data, config);
+  }
+
+  async put<T = any, C extends AxiosRetryClientRequestConfig = AxiosRetryClientRequestConfig>(
+    url: string,
+    data: any,
+    config?: C
+  ): Promise<AxiosRetryClientResponse<InferResponseData<T, C>>> {
+    return this._request(RequestType.PUT, url, data, config);
+  }
+
+  async patch<T = any, C extends AxiosRetryClientRequestConfig = AxiosRetryClientRequestConfig>(
+    url: string,
+    data: any,
+    config?: C
+  ): Promise<AxiosRetryClientResponse<InferResponseData<T, C>>> {
+    return this._request(RequestType.PATCH, url, data, config);
+  }
+
+  async delete<T = any, C extends AxiosRetryClientRequestConfig = AxiosRetryClientRequestConfig>(
+    url: string,
+    config?: C
+  ): Promise<AxiosRetryClientResponse<InferResponseData<T, C>>> {
+    return this._request(RequestType.DELETE, url, undefined, config);
+  }
+
+  async head<T = any, C extends AxiosRetryClientRequestConfig = AxiosRetryClientRequestConfig>(
+    url: string,
+    config?: C
+  ): Promise<AxiosRetryClientResponse<InferResponseData<T, C>>> {
+    return this._request(RequestType.HEAD, url, undefined, config);
+  }
+
+  async options<T = any, C extends AxiosRetryClientRequestConfig = AxiosRetryClientRequestConfig>(
+    url: string,
+    config?: C
+  ): Promise<AxiosRetryClientResponse<InferResponseData<T, C>>> {
+    return this._request(RequestType.OPTIONS, url, undefined, config);
+  }
+
+  /**
+   * Sends a request with any method, e.g. `PROPFIND`, through the same filter, hook, retry and
+   * error handling pipeline as the other request methods
+   *
+   * @param method - The request method (case-insensitive)
+   * @param url - The request URL
+   * @param config - The request config, with the request body in `data`
+   * @returns The response
+   */
+  async request<T = any, C extends AxiosRetryClientRequestConfig = AxiosRetryClientRequestConfig>(
+    method: RequestType | string,
+    url: string,
+    config?: C
+  ): Promise<AxiosRetryClientResponse<InferResponseData<T, C>>> {
+    const { data, ...requestConfig }: AxiosRetryClientRequestConfig = config || {};
+
+    return this._request(method.toUpperCase() as RequestType, url, data, requestConfig);
+  }
+
+  /**
+   * Sends a GET request and resolves with the response body as a stream as soon as the response
+   * headers are received: a Node `Readable` with axios' http adapter, or a web `ReadableStream`
+   * with the fetch adapter. Retries only happen before the response is received, so never after
+   * the first byte is consumed. Streamed responses are never cached or coalesced.
+   *
+   * @param url - The request URL
+   * @param config - The request config
+   * @returns The response, with the stream as `data`
+   */
+  async stream(
+    url: string,
+    config: AxiosRetryClientRequestConfig = {}
+  ): Promise<AxiosRetryClientResponse<StreamBody>> {
+    return this._request(RequestType.GET, url, undefined, { ...config, responseType: 'stream' });
+  }
+
+  /**
+   * Streams a response body as chunks of bytes. Reports progress to `onProgress`, and when the
+   * body fails mid-stream resumes where it left off with a `Range` request, up to `maxResumes`
+   * times.
+   *
+   * @param url - The request URL
+   * @param config - The request config
+   * @returns An async iterable of the chunks
+   */
+  async *streamBytes(
+    url: string,
+    config: StreamRequestConfig = {}
+  ): AsyncGenerator<Uint8Array, void, undefined> {
+    const { onProgress, maxResumes = 0, ...requestConfig } = config;
+    let loaded = 0;
+    let resumes = 0;
+    let total: number | undefined;
+    let validator: string | undefined;
+
+    while (true) {
+      const { request, data } = await this.stream(
+        url,
+        loaded
+          ? {
+              ...requestConfig,
+              headers: {
+                ...(requestConfig.headers as Record<string, any>),
+                Range: `bytes=${loaded}-`,
+                ...(validator && { 'If-Range': validator }),
+              },
+            }
+          : requestConfig
+      );
+      // a server that ignores the Range header sends the whole body again
+      let skip = loaded && request.status !== 206 ? loaded : 0;
+
+      if (!loaded) {
+        const contentLength = getHeader(request.headers, 'content-length');
+        const etag = getHeader(request.headers, 'etag');
+
+        total = contentLength === undefined ? undefined : Number(contentLength);
+        validator =
+          etag && !etag.startsWith('W/') ? etag : getHeader(request.headers, 'last-modified');
+      }
+
+      try {
+        for await (const chunk of readChunks(data)) {
+          const bytes = skip ? chunk.subarray(Math.min(skip, chunk.length)) : chunk;
+
+          skip -= chunk.length - bytes.length;
+
+          if (!bytes.length) {
+            continue;
+          }
+
+          loaded += bytes.length;
+          onProgress?.(total === undefined ? { loaded } : { loaded, total });
+
+          yield bytes;
+        }
+
+        return;
+      } catch (error) {
+        if (resumes >= maxResumes || requestConfig.signal?.aborted) {
+          throw error;
+        }
+
+        resumes++;
+
+        if (this.debug) {
+          this.log(
+            'warn',
+            `[${this.name}] GET ${url} : stream failed after ${loaded} bytes, resuming (${resumes}/${maxResumes})`,
+            this.getLogFields(RequestType.GET, url, { error })
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Streams a newline delimited JSON response, one parsed value at a time
+   *
+   * @param url - The request URL
+   * @param config - The request config
+   * @returns An async iterable of the values
+   */
+  async *streamNdjson<T = any>(
+    url: string,
+    config: StreamRequestConfig = {}
+  ): AsyncGenerator<T, void, undefined> {
+    yield* parseNdjson<T>(this.streamBytes(url, config));
+  }
+
+  /**
+   * Streams a server-sent events (`text/event-stream`) response, one event at a time
+   *
+   * @param url - The request URL
+   * @param config - The request config
+   * @returns An async iterable of the events
+   */
+  async *streamEvents(
+    url: string,
+    config: Omit<StreamRequestConfig, 'maxResumes'> = {}
+  ): AsyncGenerator<ServerSentEvent, void, undefined> {
+    yield* parseServerSentEvents(
+      this.streamBytes(url, {
+        ...config,
+        headers: { Accept: 'text/event-stream', ...(config.headers as Record<string, any>) },
+      })
+    );
+  }
+
+  /**
+   * Uploads files as a `multipart/form-data` body. The form is built again for every attempt, so
+   * retries send the whole body, including files read from streams.
+   *
+   * @example
+   * await client.upload('/avatars', {
+   *   files: { avatar: { data: () => fs.createReadStream(path), name: 'me.png', type: 'image/png' } },
+   *   fields: { userId: 42 },
+   *   onProgress: ({ loaded, total }) => console.log(loaded, total),
+   * });
+   *
+   * @param url - The request URL
+   * @param options - The files, fields and request config. Sent with POST unless `method` is set
+   * @returns The response
+   */
+  async upload<T = any>(url: string, options: UploadOptions): Promise<AxiosRetryClientResponse<T>> {
+    const { files, fields, onProgress, method = RequestType.POST, ...config } = options;
+
+    return this._request<T>(method.toUpperCase() as RequestType, url, undefined, {
+      ...config,
+      buildData: () => createFormData(files, fields),
+      ...(onProgress && {
+        onUploadProgress: ({ loaded, total }: AxiosProgressEvent) =>
+          onProgress(total === undefined ? { loaded } : { loaded, total }),
+      }),
+    });
+  }
+
+  /**
+   * Uploads a file in chunks with the tus resumable upload protocol (core protocol and the
+   * creation extension). The upload is created with a POST to `url`, then each chunk is sent
+   * with a PATCH to the upload URL. When a chunk fails after its retries, the offset is fetched
+   * from the server with a HEAD request and the upload carries on from there, up to
+   * `maxResumes` times. Pass `uploadUrl` to resume an upload created earlier.
+   *
+   * @param url - The URL to create the upload at
+   * @param options - The file, chunk size and request config
+   * @returns The upload URL and the response to the last request
+   */
+  async uploadResumable<T = any>(
+    url: string,
+    options: ResumableUploadOptions
+  ): Promise<ResumableUploadResult<T>> {
+    const {
+      file,
+      chunkSize = DEFAULT_CHUNK_SIZE,
+      uploadUrl: existingUploadUrl,
+      onUploadUrl,
+      metadata,
+      maxResumes = 3,
+      onProgress,
+      ...config
+    } = options;
+    const reader = createChunkReader(file);
+    const headers = { ...(config.headers as Record<string, any>), 'Tus-Resumable': TUS_VERSION };
+    let uploadUrl = existingUploadUrl;
+    let response: AxiosRetryClientResponse<T>;
+    let offset = 0;
+    let resumes = 0;
+
+    if (uploadUrl) {
+      ({ offset, response } = await this.getUploadOffset(uploadUrl, { ...config, headers }));
+    } else {
+      response = await this._request<T>(RequestType.POST, url, undefined, {
+        ...config,
+        headers: {
+          ...headers,
+          'Upload-Length': String(reader.size),
+          ...(metadata && { 'Upload-Metadata': encodeUploadMetadata(metadata) }),
+        },
+      });
+
+      const location = getHeader(response.request.headers, 'location');
+
+      if (!location) {
+        throw new ApiResponseError(
+          `[${this.name}] POST ${url} : the server did not return the upload URL`,
+          response.request.status,
+          response.data as object
+        );
+      }
+
+      uploadUrl = this.resolveUrl(location, url, config);
+      onUploadUrl?.(uploadUrl);
+    }
+
+    while (offset < reader.size) {
+      const chunk = await reader.read(offset, chunkSize);
+      const chunkOffset = offset;
+
+      if (!chunk.length) {
+        throw new RangeError(
+          `The file ended after ${chunkOffset} bytes, before its size of ${reader.size} bytes`
+        );
+      }
+
+      try {
+        response = await this._request<T>(RequestType.PATCH, uploadUrl, chunk, {
+          ...config,
+          headers: {
+            ...headers,
+            'Upload-Offset': String(chunkOffset),
+            'Content-Type': 'application/offset+octet-stream',
+          },
+          ...(onProgress && {
+            onUploadProgress: ({ loaded }: AxiosProgressEvent) =>
+              onProgress({ loaded: chunkOffset + loaded, total: reader.size }),
+          }),
+        });
+      } catch (error) {
+        if (resumes >= maxResumes || config.signal?.aborted) {
+          throw error;
+        }
+
+        resumes++;
+
+        if (this.debug) {
+          this.log(
+            'warn',
+            `[${this.name}] PATCH ${uploadUrl} : chunk at ${chunkOffset} failed, resuming (${resumes}/${maxResumes})`,
+            this.getLogFields(RequestType.PATCH, uploadUrl, { error })
+          );
+        }
 
-      config['axios-retry'] = retryConfig;
-    }
+        ({ offset } = await this.getUploadOffset(uploadUrl, { ...config, headers }));
+        continue;
+      }
 
-    // Call beforeRequest hook to potentially modify the request parameters
-    const filteredArgs = await this.preRequestFilter(requestType, url, data, config);
-    data = filteredArgs.data ?? data;
-    config = filteredArgs.config ?? config;
+      const serverOffset = Number(getHeader(response.request.headers, 'upload-offset'));
 
-    // Call beforeRequestAction hook to perform any actions before the request is sent
-    await this.preRequestAction(requestType, url, data, config);
+      offset = Number.isNaN(serverOffset) ? chunkOffset + chunk.length : serverOffset;
 
-    try {
-      switch (requestType) {
-        case RequestType.GET:
-          req = await this.axios.get<T>(url, config);
-          break;
-        case RequestType.POST:
-          req = await this.axios.post<T>(url, data, config);
-          break;
-        case RequestType.PUT:
-          req = await this.axios.put<T>(url, data, config);
-          break;
-        case RequestType.PATCH:
-          req = await this.axios.patch<T>(url, data, config);
-          break;
-        case RequestType.DELETE:
-          req = await this.axios.delete<T>(url, config);
-          break;
+      if (offset <= chunkOffset) {
+        throw new ApiResponseError(
+          `[${this.name}] PATCH ${uploadUrl} : the server did not advance the upload offset from ${chunkOffset}`,
+          response.request.status,
+          response.data as object
+        );
       }
-    } catch (error) {
-      this.errorHandler(error, requestType, url);
+
+      onProgress?.({ loaded: offset, total: reader.size });
     }
 
-    return { request: req!, data: req!.data };
+    return { uploadUrl, response };
   }
 
-  async get<T = any>(
-    url: string,
-    config: AxiosRetryClientRequestConfig = {}
-  ): Promise<AxiosRetryClientResponse<T>> {
-    return this._request<T>(RequestType.GET, url, undefined, config);
-  }
+  /**
+   * Fetches the offset of a tus upload from the server
+   *
+   * @param uploadUrl - The upload URL
+   * @param config - The request config
+   * @returns The number of bytes the server has received and the response it was read from
+   */
+  private async getUploadOffset(
+    uploadUrl: string,
+    config: AxiosRetryClientRequestConfig
+  ): Promise<{ offset: number; response: AxiosRetryClientResponse<any> }> {
+    const response = await this._request(RequestType.HEAD, uploadUrl, undefined, config);
+    const { request } = response;
+    const offset = Number(getHeader(request.headers, 'upload-offset'));
 
-  async post<T = any>(
-    url: string,
-    data: any,
-    config: AxiosRetryClientRequestConfig = {}
-  ): Promise<AxiosRetryClientResponse<T>> {
-    return this._request<T>(RequestType.POST, url, data, config);
+    if (Number.isNaN(offset)) {
+      throw new ApiResponseError(
+        `[${this.name}] HEAD ${uploadUrl} : the server did not return the upload offset`,
+        request.status,
+        request.data
+      );
+    }
+
+    return { offset, response };
   }
 
-  async put<T = any>(
-    url: string,
-    data: any,
-    config: AxiosRetryClientRequestConfig = {}
-  ): Promise<AxiosRetryClientResponse<T>> {
-    return this._request<T>(RequestType.PUT, url, data, config);
+  /**
+   * Resolves a URL returned by the server (e.g. in a `Location` header) against the URL of the
+   * request it was returned for
+   *
+   * @param location - The returned URL
+   * @param url - The request URL
+   * @param config - The request config
+   * @returns The absolute URL, or the returned URL as is if the request URL isn't absolute
+   */
+  private resolveUrl(location: string, url: string, config: AxiosRequestConfig): string {
+    try {
+      return new URL(location, this.axios.getUri({ ...config, url })).toString();
+    } catch {
+      return location;
+    }
   }
 
-  async patch<T = any>(
-    url: string,
-    data: any,
-    config: AxiosRetryClientRequestConfig = {}
-  ): Promise<AxiosRetryClientResponse<T>> {
-    return this._request<T>(RequestType.PATCH, url, data, config);
+  /**
+   * Iterates over the items of a paginated GET endpoint, fetching pages as they are needed. Every
+   * page goes through the same pipeline as `get`, so retries, hooks and error handling apply.
+   *
+   * @example
+   * for await (const user of client.paginate<User>('/users', { strategy: cursorPagination() })) {
+   *   ...
+   * }
+   *
+   * @param url - The URL of the first page
+   * @param options - The pagination strategy, limits and request config
+   * @returns An async iterable of items, with `pages()` to iterate over whole pages
+   */
+  paginate<T = any>(url: string, options: PaginationOptions<T> = {}): Paginator<T> {
+    const { config = {}, ...paginationOptions } = options;
+
+    return new Paginator<T>(
+      { url, params: { ...config.params } },
+      request =>
+        this._request(RequestType.GET, request.url, undefined, {
+          ...config,
+          params: request.params,
+        }),
+      paginationOptions
+    );
   }
 
-  async delete<T = any>(
-    url: string,
-    config: AxiosRetryClientRequestConfig = {}
-  ): Promise<AxiosRetryClientResponse<T>> {
-    return this._request<T>(RequestType.DELETE, url, undefined, config);
+  /**
+   * Creates a typed client object from endpoint definitions. Every function interpolates and URL
+   * encodes the path params, and sends the call through the same pipeline as `request()`.
+   *
+   * @example
+   * const api = client.endpoints({
+   *   getUser: endpoint('GET', '/users/:id').response<User>(),
+   *   listUsers: endpoint('GET', '/users').query<{ page?: number }>().response<User[]>(),
+   *   createUser: endpoint('POST', '/users', { retryConfig: { retries: 0 } })
+   *     .body<NewUser>()
+   *     .response<User>(),
+   * });
+   *
+   * const { data: user } = await api.getUser({ params: { id: 42 } });
+   *
+   * @param definitions - The endpoints by name
+   * @returns The client object
+   */
+  endpoints<D extends EndpointDefinitions>(definitions: D): EndpointClient<D> {
+    return createEndpointClient(
+      (method, url, config) => this.request(method, url, config),
+      definitions
+    );
   }
 
   /**
@@ -246,7 +2414,7 @@ export class AxiosRetryClient {
    * config before the request is sent.
    *
    * @deprecated Use preRequestFilter instead. This will be removed in a future version.
-   * @param requestType - The request type (GET, POST, PUT, PATCH, DELETE)
+   * @param requestType - The request type (GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS or a custom method)
    * @param url - The request URL
    * @param data - The request data
    * @param config - The request config
@@ -265,7 +2433,7 @@ export class AxiosRetryClient {
    * Define this requestType in your extending class to globally modify the
    * request data or config before the request is sent.
    *
-   * @param requestType - The request type (GET, POST, PUT, PATCH, DELETE)
+   * @param requestType - The request type (GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS or a custom method)
    * @param url - The request URL
    * @param data - The request data
    * @param config - The request config
@@ -288,7 +2456,7 @@ export class AxiosRetryClient {
    * log the request details if debug is enabled.
    *
    * @deprecated Use preRequestAction instead. This will be removed in a future version.
-   * @param requestType - The request type (GET, POST, PUT, PATCH, DELETE)
+   * @param requestType - The request type (GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS or a custom method)
    * @param url - The request URL
    * @param data - The request data
    * @param config - The request config
@@ -306,7 +2474,7 @@ export class AxiosRetryClient {
    * Override this method in your extending class to perform any actions before
    * the request is sent such as logging the request details. By default, this will
    * log the request details if debug is enabled.
-   * @param requestType - The request type (GET, POST, PUT, PATCH, DELETE)
+   * @param requestType - The request type (GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS or a custom method)
    * @param url - The request URL
    * @param data - The request data
    * @param config - The request config
@@ -318,11 +2486,14 @@ export class AxiosRetryClient {
     config: AxiosRequestConfig
   ): Promise<void> {
     if (this.debug) {
-      if (this.debugLevel === 'verbose') {
-        logData(`[${this.name}] ${requestType} ${url}`, { data, config });
-      } else {
-        logData(`[${this.name}] ${requestType} ${url}`, { data });
-      }
+      this.log(
+        'debug',
+        `[${this.name}] ${requestType} ${url}`,
+        this.getLogFields(requestType, url, {
+          data,
+          ...(this.debugLevel === 'verbose' && { config }),
+        })
+      );
     }
   }
 
@@ -340,10 +2511,25 @@ export class AxiosRetryClient {
       // The request was made and the server responded with a status code
       // that falls out of the range of 2xx
       if (this.debug) {
+        const { attempts, elapsed } = this.getRequestStats(error);
+        const fields = {
+          status: error.response.status,
+          attempt: attempts,
+          duration: elapsed,
+        };
+
         if (this.debugLevel === 'verbose') {
-          logData(`[${this.name}] ${reqType} ${url} : error.response`, error.response);
+          this.log(
+            'error',
+            `[${this.name}] ${reqType} ${url} : error.response`,
+            this.getLogFields(reqType, url, { ...fields, response: error.response })
+          );
         } else {
-          logData(`[${this.name}] ${reqType} ${url} : error.response.data`, error.response.data);
+          this.log(
+            'error',
+            `[${this.name}] ${reqType} ${url} : error.response.data`,
+            this.getLogFields(reqType, url, { ...fields, data: error.response.data })
+          );
         }
       }
 
@@ -381,41 +2567,202 @@ export class AxiosRetryClient {
    * @param url - The request URL
    */
   protected handleResponseNotReceivedOrOtherError(error: any, reqType: RequestType, url: string) {
+    const { attempts, elapsed } = this.getRequestStats(error);
+    const fields = { attempt: attempts, duration: elapsed };
+
     if (error.request) {
       // The request was made but no response was received
       // `error.request` is an instance of XMLHttpRequest in the browser and an instance of
       // http.ClientRequest in node.js
       if (this.debug) {
         if (this.debugLevel === 'verbose') {
-          logData(`${this.name}] ${reqType} ${url}: error.config`, error.config);
+          this.log(
+            'debug',
+            `[${this.name}] ${reqType} ${url} : error.config`,
+            this.getLogFields(reqType, url, { ...fields, config: error.config })
+          );
         }
-        logData(`[${this.name}] ${reqType} ${url} : error.request`, error.request);
+        this.log(
+          'error',
+          `[${this.name}] ${reqType} ${url} : error.request`,
+          this.getLogFields(reqType, url, { ...fields, request: error.request })
+        );
       }
-
-      throw new Error(`[${this.name}] ${reqType} ${url} [no response] : ${error.message}`, {
-        cause: error,
-      });
     } else {
       // Something happened in setting up the request that triggered an Error
       if (this.debug) {
         if (this.debugLevel === 'verbose') {
-          logData(`[${this.name}] ${reqType} ${url} : error`, error);
+          this.log(
+            'error',
+            `[${this.name}] ${reqType} ${url} : error`,
+            this.getLogFields(reqType, url, { ...fields, error })
+          );
         } else {
-          console.log(`[${this.name}] ${reqType} ${url} error.message : ${error.message}`);
+          this.log(
+            'error',
+            `[${this.name}] ${reqType} ${url} error.message : ${error.message}`,
+            this.getLogFields(reqType, url, fields)
+          );
         }
       }
+    }
 
-      if (error.message) {
-        throw new Error(`[${this.name}] ${reqType} ${url} : ${error.message}`, {
-          cause: error,
-        });
-      } else {
-        throw new Error(error);
-      }
+    if (isDeadlineExceededError(error)) {
+      const { startTime, deadlineAt } = error.config['axios-retry-client'];
+
+      throw new DeadlineExceededError(
+        `[${this.name}] ${reqType} ${url} [deadline exceeded] : deadline of ${deadlineAt - startTime}ms exceeded after ${attempts} attempt(s)`,
+        reqType,
+        url,
+        attempts,
+        elapsed,
+        deadlineAt - startTime,
+        error
+      );
+    }
+
+    if (isCancelledError(error)) {
+      throw new ApiCancelledError(
+        `[${this.name}] ${reqType} ${url} [cancelled] : ${error.message}`,
+        reqType,
+        url,
+        attempts,
+        elapsed,
+        error
+      );
+    }
+
+    if (isTimeoutError(error)) {
+      throw new ApiTimeoutError(
+        `[${this.name}] ${reqType} ${url} [no response] : ${error.message}`,
+        reqType,
+        url,
+        attempts,
+        elapsed,
+        error
+      );
+    }
+
+    if (error.request || isNetworkError(error)) {
+      throw new ApiNetworkError(
+        `[${this.name}] ${reqType} ${url} [no response] : ${error.message}`,
+        reqType,
+        url,
+        attempts,
+        elapsed,
+        error
+      );
     }
+
+    throw new ApiRequestSetupError(
+      `[${this.name}] ${reqType} ${url} : ${error?.message || String(error)}`,
+      reqType,
+      url,
+      attempts,
+      elapsed,
+      error
+    );
+  }
+
+  /**
+   * Sends an entry to the logger, redacting secrets from the message and fields first
+   *
+   * @param level - The log level
+   * @param message - The log message
+   * @param fields - The structured log fields
+   */
+  private log(level: LogLevel, message: string, fields: LogFields) {
+    if (this.redactor) {
+      this.logger[level](this.redactor.redactString(message), this.redactor.redact(fields));
+    } else {
+      this.logger[level](message, fields);
+    }
+  }
+
+  /**
+   * Gets the structured log fields for a request
+   *
+   * @param method - The request type
+   * @param url - The request URL
+   * @param fields - Additional fields
+   * @returns The log fields
+   */
+  private getLogFields(method: RequestType, url: string, fields: LogFields = {}): LogFields {
+    return { client: this.name!, method, url, ...fields };
+  }
+
+  /**
+   * Gets the number of attempts made and the total time spent on a request from
+   * the response or error it finished with
+   *
+   * @param result - The axios response or error
+   * @returns The attempt count and elapsed time in ms
+   */
+  private getRequestStats(result: any): { attempts: number; elapsed: number } {
+    const startTime: number | undefined = result?.config?.['axios-retry-client']?.startTime;
+
+    return {
+      attempts: getAttemptNumber(result?.config),
+      elapsed: startTime ? Date.now() - startTime : 0,
+    };
   }
 }
 
+/**
+ * @param requestConfig - The request config of an attempt
+ * @returns The number of the attempt (1 for the first attempt), counting retries, hedges and the
+ * replay after refreshing credentials
+ */
+const getAttemptNumber = (requestConfig: AxiosRequestConfig | undefined): number =>
+  (requestConfig?.['axios-retry']?.retryCount || 0) +
+  (requestConfig?.['axios-retry-client']?.hedges || 0) +
+  (requestConfig?.['axios-retry-client']?.authReplayed ? 2 : 1);
+
+/**
+ * @param error - The error object
+ * @returns Whether the request was cancelled via an AbortSignal or CancelToken
+ */
+const isCancelledError = (error: any): boolean =>
+  axios.isCancel(error) || error?.code === 'ERR_CANCELED';
+
+/**
+ * Abort reason for calls whose deadline is exceeded
+ */
+const DEADLINE_EXCEEDED = Symbol('deadline exceeded');
+
+/**
+ * @param error - The error object
+ * @returns Whether the request was aborted because the call's deadline was exceeded
+ */
+const isDeadlineExceededError = (error: any): boolean =>
+  isCancelledError(error) && error?.config?.signal?.reason === DEADLINE_EXCEEDED;
+
+/**
+ * @param error - The error object
+ * @returns Whether the request timed out
+ */
+const isTimeoutError = (error: any): boolean =>
+  error?.code === 'ETIMEDOUT' ||
+  (error?.code === 'ECONNABORTED' && /timeout/i.test(error?.message || ''));
+
+/**
+ * @param error - The error object
+ * @returns Whether the request failed due to a network error
+ */
+const isNetworkError = (error: any): boolean =>
+  NETWORK_ERROR_CODES.includes(error?.code) ||
+  (axios.isAxiosError(error) && error.message === 'Network Error');
+
+/**
+ * A retry condition that retries network errors and 5xx responses for every method, POST and PATCH
+ * included. For requests that are safe to send twice, e.g. ones with an idempotency key.
+ *
+ * @param error - The error object
+ * @returns Whether the request should be retried
+ */
+export const isNetworkOrRetryableError = (error: AxiosError): boolean =>
+  axiosRetry.isNetworkError(error) || axiosRetry.isRetryableError(error);
+
 /**
  * Base class for API errors.
  * @extends Error
@@ -447,3 +2794,239 @@ export class ApiResponseError extends Error {
     this.response = response;
   }
 }
+
+/**
+ * Thrown when a request is rejected because the circuit breaker for its host (or client) is open.
+ * @extends Error
+ */
+export class CircuitOpenError extends Error {
+  /**
+   * The circuit that rejected the request (the host or the client name)
+   */
+  key: string;
+  /**
+   * Time (in ms) until the circuit will allow probe requests again
+   */
+  remainingCooldown: number;
+
+  /**
+   * Creates an instance of CircuitOpenError.
+   * @param {string} message - The error message.
+   * @param {string} key - The circuit that rejected the request.
+   * @param {number} remainingCooldown - Time in ms until the circuit allows probe requests.
+   */
+  constructor(message: string, key: string, remainingCooldown: number) {
+    super(message);
+    this.key = key;
+    this.remainingCooldown = remainingCooldown;
+  }
+}
+
+/**
+ * Thrown when a request can't be queued because the rate limiter's wait queue is full.
+ * @extends Error
+ */
+export class RateLimitQueueFullError extends Error {
+  /**
+   * The number of requests waiting when this request was rejected
+   */
+  queueSize: number;
+
+  /**
+   * Creates an instance of RateLimitQueueFullError.
+   * @param {string} message - The error message.
+   * @param {number} queueSize - The number of requests waiting in the queue.
+   */
+  constructor(message: string, queueSize: number) {
+    super(message);
+    this.queueSize = queueSize;
+  }
+}
+
+/**
+ * Thrown when `respectRetryAfter` is enabled and the server asks us to wait longer than
+ * `maxRetryAfter` before retrying.
+ * @extends ApiResponseError
+ */
+export class RetryAfterExceededError extends ApiResponseError {
+  /**
+   * The delay (in ms) the server asked us to wait
+   */
+  retryAfter: number;
+  /**
+   * The maximum delay (in ms) we were willing to wait
+   */
+  maxRetryAfter: number;
+
+  /**
+   * Creates an instance of RetryAfterExceededError.
+   * @param {string} message - The error message.
+   * @param {number} status - The HTTP status code.
+   * @param {object|string} response - The response.
+   * @param {number} retryAfter - The delay the server asked for in ms.
+   * @param {number} maxRetryAfter - The maximum delay we were willing to wait in ms.
+   * @param {any} cause - The cause of the error.
+   */
+  constructor(
+    message: string,
+    status: number,
+    response: object | string,
+    retryAfter: number,
+    maxRetryAfter: number,
+    cause?: any
+  ) {
+    super(message, status, response, cause);
+    this.retryAfter = retryAfter;
+    this.maxRetryAfter = maxRetryAfter;
+  }
+}
+
+/**
+ * Thrown when the response data doesn't match the schema for the request.
+ * @extends Error
+ */
+export class ResponseValidationError extends Error {
+  /**
+   * The validation issues
+   */
+  issues: ValidationIssue[];
+  /**
+   * The raw response data
+   */
+  data: unknown;
+  /**
+   * The HTTP status code.
+   */
+  status: number;
+
+  /**
+   * Creates an instance of ResponseValidationError.
+   * @param {string} message - The error message.
+   * @param {ValidationIssue[]} issues - The validation issues.
+   * @param {unknown} data - The raw response data.
+   * @param {number} status - The HTTP status code.
+   */
+  constructor(message: string, issues: ValidationIssue[], data: unknown, status: number) {
+    super(message);
+    this.issues = issues;
+    this.data = data;
+    this.status = status;
+  }
+}
+
+/**
+ * Base class for errors where no response was received from the server.
+ * @extends Error
+ */
+export class ApiRequestError extends Error {
+  /**
+   * The request method
+   */
+  method: RequestType;
+  /**
+   * The request URL
+   */
+  url: string;
+  /**
+   * The number of attempts made, including retries
+   */
+  attempts: number;
+  /**
+   * Total time (in ms) spent on the request, including retries
+   */
+  elapsed: number;
+  /**
+   * The cause of the error. Usually an AxiosError.
+   */
+  cause?: any;
+
+  /**
+   * Creates an instance of ApiRequestError.
+   * @param {string} message - The error message.
+   * @param {RequestType} method - The request method.
+   * @param {string} url - The request URL.
+   * @param {number} attempts - The number of attempts made.
+   * @param {number} elapsed - Total time spent on the request in ms.
+   * @param {any} cause - The cause of the error.
+   */
+  constructor(
+    message: string,
+    method: RequestType,
+    url: string,
+    attempts: number,
+    elapsed: number,
+    cause?: any
+  ) {
+    super(message, { cause });
+    this.method = method;
+    this.url = url;
+    this.attempts = attempts;
+    this.elapsed = elapsed;
+  }
+}
+
+/**
+ * Thrown when a request times out before a response is received.
+ * @extends ApiRequestError
+ */
+export class ApiTimeoutError extends ApiRequestError {
+  /**
+   * Which timeout was hit: the axios `timeout` of an attempt, or the `deadline` of the call
+   */
+  timeout: 'attempt' | 'deadline' = 'attempt';
+}
+
+/**
+ * Thrown when a call's `deadline` is used up before it completes, across all of its attempts
+ * and retry delays.
+ * @extends ApiTimeoutError
+ */
+export class DeadlineExceededError extends ApiTimeoutError {
+  /**
+   * The deadline (in ms) for the call
+   */
+  deadline: number;
+
+  /**
+   * Creates an instance of DeadlineExceededError.
+   * @param {string} message - The error message.
+   * @param {RequestType} method - The request method.
+   * @param {string} url - The request URL.
+   * @param {number} attempts - The number of attempts made.
+   * @param {number} elapsed - Total time spent on the request in ms.
+   * @param {number} deadline - The deadline for the call in ms.
+   * @param {any} cause - The cause of the error.
+   */
+  constructor(
+    message: string,
+    method: RequestType,
+    url: string,
+    attempts: number,
+    elapsed: number,
+    deadline: number,
+    cause?: any
+  ) {
+    super(message, method, url, attempts, elapsed, cause);
+    this.timeout = 'deadline';
+    this.deadline = deadline;
+  }
+}
+
+/**
+ * Thrown when a request fails due to a network error (DNS failure, connection
+ * refused or reset, etc).
+ * @extends ApiRequestError
+ */
+export class ApiNetworkError extends ApiRequestError {}
+
+/**
+ * Thrown when a request is cancelled via an AbortSignal or CancelToken.
+ * @extends ApiRequestError
+ */
+export class ApiCancelledError extends ApiRequestError {}
+
+/**
+ * Thrown when something goes wrong while setting up the request, before it is sent.
+ * @extends ApiRequestError
+ */
+export class ApiRequestSetupError extends ApiRequestError {}
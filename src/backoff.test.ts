@@ -0,0 +1,116 @@
+import { AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import { applyJitter, calculateRetryDelay, type RetryDelayOptions } from './backoff';
+
+const createError = (headers: Record<string, string> = {}): AxiosError => {
+  const config = { headers: {} } as InternalAxiosRequestConfig;
+
+  return new AxiosError(
+    'Request failed',
+    AxiosError.ERR_BAD_RESPONSE,
+    config,
+    {},
+    {
+      status: 503,
+      statusText: '',
+      headers,
+      config,
+      data: {},
+    }
+  );
+};
+
+/**
+ * A random source that returns the given values in turn
+ */
+const sequence =
+  (...values: number[]) =>
+  () =>
+    values.shift() ?? 0;
+
+describe('backoff', () => {
+  const error = createError();
+
+  describe('applyJitter', () => {
+    it('should randomize the delay with each strategy', () => {
+      expect(applyJitter(1000, false, () => 0.5)).toBe(1000);
+      expect(applyJitter(1000, true, () => 0.5)).toBe(1100);
+      expect(applyJitter(1000, 'full', () => 0.25)).toBe(250);
+      expect(applyJitter(1000, 'equal', () => 0.5)).toBe(750);
+    });
+  });
+
+  describe('calculateRetryDelay', () => {
+    const options: RetryDelayOptions = {
+      backoff: 'exponential',
+      delayFactor: 100,
+      random: () => 0,
+    };
+
+    it('should calculate exponential, linear and constant delays', () => {
+      expect(calculateRetryDelay(3, error, options)).toBe(800);
+      expect(calculateRetryDelay(3, error, { ...options, backoff: 'linear' })).toBe(300);
+      expect(calculateRetryDelay(3, error, { ...options, backoff: 'none' })).toBe(100);
+    });
+
+    it('should add 0-20% jitter to exponential backoff by default', () => {
+      expect(calculateRetryDelay(1, error, { ...options, random: () => 1 })).toBe(240);
+      expect(calculateRetryDelay(1, error, { ...options, random: () => 1, jitter: false })).toBe(
+        200
+      );
+      expect(
+        calculateRetryDelay(2, error, { ...options, backoff: 'linear', random: () => 1 })
+      ).toBe(200);
+      expect(
+        calculateRetryDelay(2, error, {
+          ...options,
+          backoff: 'linear',
+          jitter: 'full',
+          random: () => 0.5,
+        })
+      ).toBe(100);
+    });
+
+    it('should pick decorrelated delays between the delay factor and three times the previous delay', () => {
+      const random = sequence(1, 0.5, 0);
+      const decorrelated: RetryDelayOptions = { ...options, backoff: 'decorrelated', random };
+
+      expect(calculateRetryDelay(1, error, decorrelated)).toBe(300);
+      expect(calculateRetryDelay(2, error, { ...decorrelated, previousDelay: 300 })).toBe(500);
+      expect(calculateRetryDelay(3, error, { ...decorrelated, previousDelay: 500 })).toBe(100);
+    });
+
+    it('should cap the delay at maxDelay', () => {
+      expect(calculateRetryDelay(10, error, { ...options, maxDelay: 5000 })).toBe(5000);
+      expect(
+        calculateRetryDelay(2, error, {
+          ...options,
+          backoff: 'decorrelated',
+          previousDelay: 5000,
+          maxDelay: 2000,
+          random: () => 0.9,
+        })
+      ).toBe(2000);
+    });
+
+    it('should call a custom backoff function', () => {
+      const backoff = jest.fn(() => 1234);
+
+      expect(
+        calculateRetryDelay(2, error, { ...options, backoff, previousDelay: 400, maxDelay: 1000 })
+      ).toBe(1000);
+      expect(backoff).toHaveBeenCalledWith(2, error, {
+        delayFactor: 100,
+        previousDelay: 400,
+        random: options.random,
+      });
+    });
+
+    it('should wait at least as long as a Retry-After header for exponential and linear backoff', () => {
+      const retryAfterError = createError({ 'retry-after': '2' });
+
+      expect(calculateRetryDelay(1, retryAfterError, options)).toBe(2000);
+      expect(calculateRetryDelay(1, retryAfterError, { ...options, backoff: 'linear' })).toBe(2000);
+      expect(calculateRetryDelay(1, retryAfterError, { ...options, backoff: 'none' })).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import type { AxiosError } from 'axios';
+import { retryAfter } from 'axios-retry';
+
+export interface BackoffContext {
+  /**
+   * The configured delay factor (in ms)
+   */
+  delayFactor: number;
+  /**
+   * The delay (in ms) before the previous retry, or `delayFactor` before the first retry
+   */
+  previousDelay: number;
+  /**
+   * The random source, returning a number in [0, 1)
+   */
+  random: () => number;
+}
+
+/**
+ * Calculates the delay (in ms) before a retry
+ */
+export type BackoffFunction = (
+  retryCount: number,
+  error: AxiosError,
+  context: BackoffContext
+) => number;
+
+/**
+ * How the retry delay grows. 'decorrelated' picks a random delay between `delayFactor` and three
+ * times the previous delay, which spreads out clients that failed at the same time.
+ */
+export type BackoffOptions = 'exponential' | 'linear' | 'none' | 'decorrelated' | BackoffFunction;
+
+/**
+ * How the retry delay is randomized. `true` adds a random 0-20%, 'full' picks a random delay
+ * between 0 and the delay, and 'equal' keeps half of the delay and randomizes the other half.
+ */
+export type JitterStrategy = boolean | 'full' | 'equal';
+
+export interface RetryDelayOptions {
+  backoff: BackoffOptions;
+  delayFactor: number;
+  /**
+   * Defaults to true for exponential backoff and false otherwise. Has no effect on decorrelated
+   * backoff, which is random already.
+   */
+  jitter?: JitterStrategy;
+  /**
+   * The maximum delay (in ms)
+   */
+  maxDelay?: number;
+  /**
+   * The delay (in ms) before the previous retry
+   */
+  previousDelay?: number;
+  random: () => number;
+}
+
+/**
+ * Randomizes a delay
+ *
+ * @param delay - The delay (in ms)
+ * @param jitter - The jitter strategy
+ * @param random - The random source
+ * @returns The randomized delay
+ */
+export const applyJitter = (
+  delay: number,
+  jitter: JitterStrategy,
+  random: () => number
+): number => {
+  if (jitter === 'full') {
+    return random() * delay;
+  }
+
+  if (jitter === 'equal') {
+    return delay / 2 + (random() * delay) / 2;
+  }
+
+  return jitter ? delay + delay * 0.2 * random() : delay;
+};
+
+/**
+ * Calculates the delay before a retry. Exponential and linear backoff wait at least as long as a
+ * `Retry-After` header asks, like axios-retry's delays do.
+ *
+ * @param retryCount - The retry number, starting at 1
+ * @param error - The error the last attempt failed with
+ * @param options - The backoff, jitter and random source
+ * @returns The delay (in ms)
+ */
+export const calculateRetryDelay = (
+  retryCount: number,
+  error: AxiosError,
+  options: RetryDelayOptions
+): number => {
+  const { backoff, delayFactor, random } = options;
+  const previousDelay = options.previousDelay ?? delayFactor;
+  let delay: number;
+
+  if (typeof backoff === 'function') {
+    delay = backoff(retryCount, error, { delayFactor, previousDelay, random });
+  } else if (backoff === 'decorrelated') {
+    delay = delayFactor + random() * Math.max(previousDelay * 3 - delayFactor, 0);
+  } else if (backoff === 'exponential') {
+    delay = Math.max(Math.pow(2, retryCount) * delayFactor, retryAfter(error));
+  } else if (backoff === 'linear') {
+    delay = Math.max(retryCount * delayFactor, retryAfter(error));
+  } else {
+    delay = delayFactor;
+  }
+
+  if (backoff !== 'decorrelated') {
+    delay = applyJitter(delay, options.jitter ?? backoff === 'exponential', random);
+  }
+
+  return Math.max(Math.min(delay, options.maxDelay ?? Infinity), 0);
+};
@@ -0,0 +1,216 @@
+import type { AxiosResponse } from 'axios';
+import { getFreshness, MemoryCacheStore, ResponseCache, type CacheEntry } from './cache';
+
+const response = (
+  status: number,
+  data: any,
+  headers: Record<string, string> = {}
+): AxiosResponse => ({
+  status,
+  statusText: '',
+  data,
+  headers,
+  config: {} as any,
+});
+
+const entry = (overrides: Partial<CacheEntry> = {}): CacheEntry => ({
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+  data: { cached: true },
+  storedAt: 0,
+  expiresAt: 0,
+  mustRevalidate: false,
+  ...overrides,
+});
+
+describe('cache', () => {
+  describe('MemoryCacheStore', () => {
+    it('should evict the least recently used entry', () => {
+      const store = new MemoryCacheStore(2);
+
+      store.set('a', entry());
+      store.set('b', entry());
+      store.get('a');
+      store.set('c', entry());
+
+      expect(store.get('a')).toBeDefined();
+      expect(store.get('b')).toBeUndefined();
+      expect(store.get('c')).toBeDefined();
+      expect(store.size).toBe(2);
+    });
+  });
+
+  describe('getFreshness', () => {
+    it('should use max-age', () => {
+      expect(getFreshness({ 'cache-control': 'public, max-age=60' }, 0)).toBe(60000);
+    });
+
+    it('should not store no-store responses', () => {
+      expect(getFreshness({ 'Cache-Control': 'no-store' }, 1000)).toBeUndefined();
+    });
+
+    it('should always revalidate no-cache responses', () => {
+      expect(getFreshness({ 'cache-control': 'no-cache, max-age=60' }, 1000)).toBe(0);
+    });
+
+    it('should fall back to Expires and then the default', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z');
+
+      expect(getFreshness({ expires: 'Thu, 01 Jan 2026 00:01:00 GMT' }, 0, now)).toBe(60000);
+      expect(getFreshness({}, 5000, now)).toBe(5000);
+    });
+  });
+
+  describe('ResponseCache', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should serve fresh responses from the cache', async () => {
+      const cache = new ResponseCache();
+      const send = jest
+        .fn()
+        .mockResolvedValue(response(200, { id: 1 }, { 'cache-control': 'max-age=60' }));
+
+      const first = await cache.fetch('/users/1', {}, send);
+      jest.advanceTimersByTime(10000);
+      const second = await cache.fetch('/users/1', {}, send);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(second.data).toEqual({ id: 1 });
+      expect(cache.getMetadata(first)).toEqual({ hit: false, status: 'miss', age: 0 });
+      expect(cache.getMetadata(second)).toEqual({ hit: true, status: 'hit', age: 10000 });
+    });
+
+    it('should revalidate stale responses with If-None-Match / If-Modified-Since', async () => {
+      const cache = new ResponseCache();
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(
+          response(
+            200,
+            { id: 1 },
+            { etag: '"v1"', 'last-modified': 'Wed, 31 Dec 2025 00:00:00 GMT' }
+          )
+        )
+        .mockResolvedValueOnce(response(304, '', { 'cache-control': 'max-age=60' }));
+
+      await cache.fetch('/users/1', {}, send);
+      const revalidated = await cache.fetch('/users/1', {}, send);
+
+      const config = send.mock.calls[1][0];
+      expect(config.headers).toEqual({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Wed, 31 Dec 2025 00:00:00 GMT',
+      });
+      expect(config.validateStatus(304)).toBe(true);
+      expect(revalidated.data).toEqual({ id: 1 });
+      expect(cache.getMetadata(revalidated)).toMatchObject({ hit: true, status: 'revalidated' });
+
+      // the 304 refreshed the entry's freshness
+      await cache.fetch('/users/1', {}, send);
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not store no-store responses', async () => {
+      const cache = new ResponseCache({ defaultMaxAge: 60000 });
+      const send = jest.fn().mockResolvedValue(response(200, {}, { 'cache-control': 'no-store' }));
+
+      await cache.fetch('/users/1', {}, send);
+      await cache.fetch('/users/1', {}, send);
+
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve stale responses while revalidating in the background', async () => {
+      const cache = new ResponseCache({ staleWhileRevalidate: 60000 });
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(response(200, { version: 1 }, { 'cache-control': 'max-age=1' }))
+        .mockResolvedValueOnce(response(200, { version: 2 }, { 'cache-control': 'max-age=1' }));
+
+      await cache.fetch('/resource', {}, send);
+      jest.advanceTimersByTime(2000);
+
+      const stale = await cache.fetch('/resource', {}, send);
+      expect(stale.data).toEqual({ version: 1 });
+      expect(cache.getMetadata(stale)).toMatchObject({ hit: true, status: 'stale' });
+
+      await Promise.resolve();
+      const fresh = await cache.fetch('/resource', {}, send);
+      expect(fresh.data).toEqual({ version: 2 });
+    });
+
+    it('should serve stale responses if the request fails', async () => {
+      const cache = new ResponseCache({ staleIfError: 60000 });
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(response(200, { id: 1 }, { 'cache-control': 'max-age=1' }))
+        .mockRejectedValueOnce(new Error('Network Error'));
+
+      await cache.fetch('/users/1', {}, send);
+      jest.advanceTimersByTime(2000);
+
+      const stale = await cache.fetch('/users/1', {}, send);
+      expect(stale.data).toEqual({ id: 1 });
+      expect(cache.getMetadata(stale)).toMatchObject({ status: 'stale-if-error' });
+    });
+
+    it('should not share mutations of the data between callers', async () => {
+      const cache = new ResponseCache();
+      const send = jest
+        .fn()
+        .mockResolvedValue(response(200, { tags: ['a'] }, { 'cache-control': 'max-age=60' }));
+
+      const first = await cache.fetch('/users/1', {}, send);
+      first.data.tags.push('b');
+      const second = await cache.fetch('/users/1', {}, send);
+      second.data.tags.push('c');
+      const third = await cache.fetch('/users/1', {}, send);
+
+      expect(third.data).toEqual({ tags: ['a'] });
+    });
+
+    it('should not store responses that can never be reused', async () => {
+      const store = new MemoryCacheStore();
+      const send = jest.fn().mockResolvedValue(response(200, {}));
+
+      await new ResponseCache({ store }).fetch('/users/1', {}, send);
+      expect(store.size).toBe(0);
+
+      await new ResponseCache({ store, staleIfError: 60000 }).fetch('/users/1', {}, send);
+      expect(store.size).toBe(1);
+    });
+
+    it('should not revalidate in the background with the signal of the caller', async () => {
+      const cache = new ResponseCache({ staleWhileRevalidate: 60000 });
+      const send = jest
+        .fn()
+        .mockResolvedValue(response(200, { id: 1 }, { 'cache-control': 'max-age=1' }));
+      const controller = new AbortController();
+
+      await cache.fetch('/users/1', {}, send);
+      jest.advanceTimersByTime(2000);
+      await cache.fetch('/users/1', { signal: controller.signal }, send);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[1][0].signal).toBeUndefined();
+    });
+
+    it('should keep entries separate per authorization header', async () => {
+      const cache = new ResponseCache({ defaultMaxAge: 60000 });
+      const send = jest.fn().mockResolvedValue(response(200, {}));
+
+      await cache.fetch('/me', { headers: { Authorization: 'Bearer a' } }, send);
+      await cache.fetch('/me', { headers: { Authorization: 'Bearer b' } }, send);
+
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,429 @@
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { AxiosRetryClientRequestConfig } from './axios-retry-client';
+import { getRequestKey } from './dedupe';
+import { getHeader, toPlainHeaders } from './headers';
+
+export interface CacheEntry {
+  status: number;
+  statusText: string;
+  headers: Record<string, any>;
+  data: any;
+  /**
+   * Time the entry was stored or last revalidated (ms since epoch)
+   */
+  storedAt: number;
+  /**
+   * Time the entry goes stale (ms since epoch)
+   */
+  expiresAt: number;
+  /**
+   * Whether the response had `Cache-Control: must-revalidate`, in which case it is never
+   * served stale
+   */
+  mustRevalidate: boolean;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Adapter interface for cache stores. Methods may be sync or async so that stores like redis
+ * can be plugged in.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface CacheOptions {
+  /**
+   * The cache store. Defaults to an in-memory LRU store
+   */
+  store?: CacheStore;
+  /**
+   * Maximum number of entries kept by the default in-memory store. Defaults to 500
+   */
+  maxEntries?: number;
+  /**
+   * How long (in ms) responses without `Cache-Control: max-age` or `Expires` are considered
+   * fresh. Defaults to 0, meaning they are always revalidated.
+   */
+  defaultMaxAge?: number;
+  /**
+   * How long (in ms) after going stale a cached response may still be served while it is
+   * revalidated in the background. Defaults to 0
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * How long (in ms) after going stale a cached response may still be served if the request to
+   * refresh it fails. Defaults to 0
+   */
+  staleIfError?: number;
+  /**
+   * Request headers (case-insensitive) to include in the cache key. Defaults to
+   * `['authorization']` so that responses are never shared between users
+   */
+  headers?: string[];
+  /**
+   * Custom cache key function
+   */
+  key?: (url: string, config: AxiosRetryClientRequestConfig) => string;
+}
+
+/**
+ * - `miss`: the response came from the server and was not in the cache
+ * - `hit`: the response was fresh in the cache, no request was sent
+ * - `revalidated`: the server answered a conditional request with a 304
+ * - `stale`: a stale response was served while it is revalidated in the background
+ * - `stale-if-error`: a stale response was served because the request to refresh it failed
+ */
+export type CacheStatus = 'miss' | 'hit' | 'revalidated' | 'stale' | 'stale-if-error';
+
+export interface CacheMetadata {
+  /**
+   * Whether the response data came from the cache
+   */
+  hit: boolean;
+  status: CacheStatus;
+  /**
+   * Age (in ms) of the cached data
+   */
+  age: number;
+}
+
+/**
+ * In-memory least recently used cache store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 500) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      // move to the end so it is the most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Works out how long a response may be cached for from its `Cache-Control` and `Expires`
+ * headers
+ *
+ * @param headers - The response headers
+ * @param defaultMaxAge - Freshness to use when the headers don't specify one
+ * @param now - The current time in ms
+ * @returns The freshness lifetime in ms or undefined if the response must not be stored
+ */
+export const getFreshness = (
+  headers: Record<string, any>,
+  defaultMaxAge: number,
+  now = Date.now()
+): number | undefined => {
+  const cacheControl = (getHeader(headers, 'cache-control') || '').toLowerCase();
+
+  if (/(^|,)\s*no-store\b/.test(cacheControl)) {
+    return undefined;
+  }
+
+  if (/(^|,)\s*no-cache\b/.test(cacheControl)) {
+    return 0;
+  }
+
+  const maxAge = /(^|,)\s*max-age\s*=\s*"?(\d+)/.exec(cacheControl);
+
+  if (maxAge) {
+    return Number(maxAge[2]) * 1000;
+  }
+
+  const expires = getHeader(headers, 'expires');
+
+  if (expires) {
+    const expiresAt = Date.parse(expires);
+    return Number.isNaN(expiresAt) ? 0 : Math.max(0, expiresAt - now);
+  }
+
+  return defaultMaxAge;
+};
+
+/**
+ * Copies response data, so that callers mutating the data they got never change what the cache
+ * serves next
+ *
+ * @param data - The response data
+ * @returns The copy
+ */
+const cloneData = (data: any): any =>
+  typeof Buffer !== 'undefined' && Buffer.isBuffer(data)
+    ? Buffer.from(data)
+    : structuredClone(data);
+
+/**
+ * HTTP response cache for GET requests. Honors `Cache-Control` and revalidates stale entries
+ * with `If-None-Match` / `If-Modified-Since`. Response data is copied when it's stored and when
+ * it's served, so it must be cloneable with `structuredClone`.
+ */
+export class ResponseCache {
+  options: Required<Omit<CacheOptions, 'key' | 'store' | 'maxEntries'>> & Pick<CacheOptions, 'key'>;
+  store: CacheStore;
+
+  private metadata = new WeakMap<AxiosResponse, CacheMetadata>();
+  private revalidating = new Set<string>();
+
+  constructor(options: CacheOptions = {}) {
+    const { store, maxEntries, ...rest } = options;
+
+    this.store = store || new MemoryCacheStore(maxEntries);
+    this.options = {
+      defaultMaxAge: 0,
+      staleWhileRevalidate: 0,
+      staleIfError: 0,
+      headers: ['authorization'],
+      ...rest,
+    };
+  }
+
+  /**
+   * Gets the cache metadata for a response returned by `fetch`
+   *
+   * @param response - The response
+   * @returns The cache metadata
+   */
+  getMetadata(response: AxiosResponse): CacheMetadata | undefined {
+    return this.metadata.get(response);
+  }
+
+  /**
+   * Gets the cache key for a request
+   *
+   * @param url - The request URL
+   * @param config - The request config
+   * @returns The cache key
+   */
+  getKey(url: string, config: AxiosRetryClientRequestConfig): string {
+    return this.options.key
+      ? this.options.key(url, config)
+      : getRequestKey(url, config, this.options.headers);
+  }
+
+  /**
+   * Serves a GET request from the cache where possible, otherwise sends it (conditionally if
+   * there is a stale entry with validators) and stores the response
+   *
+   * @param url - The request URL
+   * @param config - The request config
+   * @param send - Sends the request with the given config
+   * @returns The response
+   */
+  async fetch(
+    url: string,
+    config: AxiosRetryClientRequestConfig,
+    send: (config: AxiosRetryClientRequestConfig) => Promise<AxiosResponse>
+  ): Promise<AxiosResponse> {
+    const key = this.getKey(url, config);
+    const entry = await this.store.get(key);
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      return this.fromEntry(entry, config, 'hit');
+    }
+
+    if (
+      entry &&
+      !entry.mustRevalidate &&
+      now < entry.expiresAt + this.options.staleWhileRevalidate
+    ) {
+      this.revalidate(key, entry, config, send);
+      return this.fromEntry(entry, config, 'stale');
+    }
+
+    let response: AxiosResponse;
+
+    try {
+      response = await send(this.getConditionalConfig(entry, config));
+    } catch (error) {
+      if (
+        entry &&
+        !entry.mustRevalidate &&
+        Date.now() < entry.expiresAt + this.options.staleIfError
+      ) {
+        return this.fromEntry(entry, config, 'stale-if-error');
+      }
+
+      throw error;
+    }
+
+    return this.handleResponse(key, entry, config, response);
+  }
+
+  /**
+   * Revalidates a stale entry in the background
+   */
+  private revalidate(
+    key: string,
+    entry: CacheEntry,
+    config: AxiosRetryClientRequestConfig,
+    send: (config: AxiosRetryClientRequestConfig) => Promise<AxiosResponse>
+  ) {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+
+    this.revalidating.add(key);
+
+    // the refresh is shared by every later request, so the caller aborting mustn't cancel it
+    const { signal, ...refreshConfig } = config;
+
+    send(this.getConditionalConfig(entry, refreshConfig))
+      .then(response => this.handleResponse(key, entry, refreshConfig, response))
+      .catch(() => {
+        // the stale entry was already served, the next request will try again
+      })
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  /**
+   * Adds `If-None-Match` / `If-Modified-Since` headers when there is an entry to revalidate
+   */
+  private getConditionalConfig(
+    entry: CacheEntry | undefined,
+    config: AxiosRetryClientRequestConfig
+  ): AxiosRetryClientRequestConfig {
+    if (!entry || (!entry.etag && !entry.lastModified)) {
+      return config;
+    }
+
+    const headers: Record<string, any> = { ...(config.headers as Record<string, any>) };
+
+    if (entry.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+
+    if (entry.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+
+    const validateStatus = config.validateStatus;
+
+    return {
+      ...config,
+      headers,
+      validateStatus: status =>
+        status === 304 || (validateStatus ? validateStatus(status) : status >= 200 && status < 300),
+    };
+  }
+
+  /**
+   * Stores a fresh response, or refreshes the entry when the server answered with a 304
+   */
+  private async handleResponse(
+    key: string,
+    entry: CacheEntry | undefined,
+    config: AxiosRetryClientRequestConfig,
+    response: AxiosResponse
+  ): Promise<AxiosResponse> {
+    const now = Date.now();
+
+    if (response.status === 304 && entry) {
+      const headers = { ...entry.headers, ...toPlainHeaders(response.headers) };
+      const freshness = getFreshness(headers, this.options.defaultMaxAge, now);
+      const updated: CacheEntry = {
+        ...entry,
+        headers,
+        storedAt: now,
+        expiresAt: now + (freshness ?? 0),
+      };
+
+      if (freshness === undefined) {
+        await this.store.delete(key);
+      } else {
+        await this.store.set(key, updated);
+      }
+
+      return this.fromEntry(updated, config, 'revalidated');
+    }
+
+    if (response.status === 200) {
+      const headers = toPlainHeaders(response.headers);
+      const freshness = getFreshness(headers, this.options.defaultMaxAge, now);
+
+      const etag = getHeader(headers, 'etag');
+      const lastModified = getHeader(headers, 'last-modified');
+      const mustRevalidate = /must-revalidate/i.test(getHeader(headers, 'cache-control') || '');
+      // an entry that is never fresh, can't be revalidated and can't be served stale is useless
+      const reusable =
+        !!freshness ||
+        etag !== undefined ||
+        lastModified !== undefined ||
+        (!mustRevalidate &&
+          (this.options.staleWhileRevalidate > 0 || this.options.staleIfError > 0));
+
+      if (freshness === undefined || !reusable) {
+        await this.store.delete(key);
+      } else {
+        await this.store.set(key, {
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+          data: cloneData(response.data),
+          storedAt: now,
+          expiresAt: now + freshness,
+          mustRevalidate,
+          ...(etag !== undefined && { etag }),
+          ...(lastModified !== undefined && { lastModified }),
+        });
+      }
+    }
+
+    this.metadata.set(response, { hit: false, status: 'miss', age: 0 });
+    return response;
+  }
+
+  /**
+   * Builds a response from a cache entry
+   */
+  private fromEntry(
+    entry: CacheEntry,
+    config: AxiosRetryClientRequestConfig,
+    status: CacheStatus
+  ): AxiosResponse {
+    const response: AxiosResponse = {
+      data: cloneData(entry.data),
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+      config: config as InternalAxiosRequestConfig,
+    };
+
+    this.metadata.set(response, { hit: true, status, age: Date.now() - entry.storedAt });
+    return response;
+  }
+}
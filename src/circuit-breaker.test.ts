@@ -0,0 +1,154 @@
+import { CanceledError } from 'axios';
+import { CircuitBreaker, isCircuitBreakerFailure } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should start closed and allow requests', () => {
+    const breaker = new CircuitBreaker('api.example.com');
+    expect(breaker.state).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should open once the failure threshold is reached', () => {
+    const onStateChange = jest.fn();
+    const breaker = new CircuitBreaker('api.example.com', { failureThreshold: 2, onStateChange });
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(onStateChange).toHaveBeenCalledWith({
+      key: 'api.example.com',
+      from: 'closed',
+      to: 'open',
+    });
+  });
+
+  it('should only count failures within the rolling window', () => {
+    const breaker = new CircuitBreaker('api.example.com', {
+      failureThreshold: 2,
+      rollingWindow: 1000,
+    });
+
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1500);
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should open once the failure rate threshold is reached', () => {
+    const breaker = new CircuitBreaker('api.example.com', {
+      failureThreshold: 100,
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+    });
+
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should go half-open after the cooldown and limit probe requests', () => {
+    const breaker = new CircuitBreaker('api.example.com', {
+      failureThreshold: 1,
+      cooldown: 1000,
+    });
+
+    breaker.recordFailure();
+    expect(breaker.remainingCooldown).toBe(1000);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should close after a successful probe', () => {
+    const breaker = new CircuitBreaker('api.example.com', { failureThreshold: 1, cooldown: 1000 });
+
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should free the probe slot of a cancelled probe without closing', () => {
+    const breaker = new CircuitBreaker('api.example.com', { failureThreshold: 1, cooldown: 1000 });
+
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.record(new CanceledError());
+
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should only count probes while half-open', () => {
+    const breaker = new CircuitBreaker('api.example.com', { failureThreshold: 1, cooldown: 1000 });
+
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.record(undefined, false);
+    breaker.record(new Error('Network Error'), false);
+
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.record(undefined, true);
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should re-open after a failed probe', () => {
+    const onStateChange = jest.fn();
+    const breaker = new CircuitBreaker('api.example.com', {
+      failureThreshold: 1,
+      cooldown: 1000,
+      onStateChange,
+    });
+
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(onStateChange.mock.calls.map(([change]) => change.to)).toEqual([
+      'open',
+      'half-open',
+      'open',
+    ]);
+  });
+
+  describe('isCircuitBreakerFailure', () => {
+    it('should treat network errors and 5xx responses as failures', () => {
+      expect(isCircuitBreakerFailure(new Error('Network Error'))).toBe(true);
+      expect(isCircuitBreakerFailure({ response: { status: 503 } })).toBe(true);
+      expect(isCircuitBreakerFailure({ response: { status: 404 } })).toBe(false);
+    });
+
+    it('should not treat cancelled requests as failures', () => {
+      expect(isCircuitBreakerFailure(new CanceledError())).toBe(false);
+      expect(isCircuitBreakerFailure({ code: 'ERR_CANCELED' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import axios from 'axios';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStateChange {
+  /**
+   * The circuit that changed state. This is the host when `scope` is 'host' or the client name
+   * when `scope` is 'client'
+   */
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+}
+
+export interface CircuitBreakerOptions {
+  /**
+   * Whether to keep a separate circuit per host or a single circuit for the whole client.
+   * Defaults to 'host'
+   */
+  scope?: 'client' | 'host';
+  /**
+   * Number of failed requests within `rollingWindow` that will open the circuit. Defaults to 5
+   */
+  failureThreshold?: number;
+  /**
+   * Optional failure rate (0 - 1) within `rollingWindow` that will open the circuit. Only
+   * evaluated once `minimumRequests` requests have been made within the window.
+   */
+  failureRateThreshold?: number;
+  /**
+   * Minimum number of requests within `rollingWindow` before `failureRateThreshold` is
+   * evaluated. Defaults to 10
+   */
+  minimumRequests?: number;
+  /**
+   * Time window (in ms) that failures are counted in. Defaults to 60000
+   */
+  rollingWindow?: number;
+  /**
+   * Time (in ms) the circuit stays open before allowing probe requests. Defaults to 30000
+   */
+  cooldown?: number;
+  /**
+   * Number of concurrent probe requests allowed while the circuit is half-open. Defaults to 1
+   */
+  halfOpenMaxProbes?: number;
+  /**
+   * Number of successful probe requests needed to close the circuit again. Defaults to 1
+   */
+  successThreshold?: number;
+  /**
+   * Determines whether an error counts as a failure. By default network errors, timeouts and
+   * 5xx responses count as failures.
+   */
+  isFailure?: (error: any) => boolean;
+  /**
+   * Called whenever a circuit changes state
+   */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * @param error - The error thrown by axios
+ * @returns Whether the request was cancelled by the caller or aborted by its deadline
+ */
+const isCancellation = (error: any): boolean =>
+  axios.isCancel(error) || error?.code === 'ERR_CANCELED';
+
+/**
+ * Default failure check. Errors without a response (network errors, timeouts) and 5xx
+ * responses count as failures. Cancelled requests don't, as they say nothing about the host.
+ *
+ * @param error - The error thrown by axios
+ * @returns Whether the error counts as a failure
+ */
+export const isCircuitBreakerFailure = (error: any): boolean => {
+  if (isCancellation(error)) {
+    return false;
+  }
+
+  const status = error?.response?.status;
+
+  if (!status) {
+    return true;
+  }
+
+  return status >= 500;
+};
+
+/**
+ * A circuit breaker with closed, open and half-open states.
+ *
+ * While closed, requests are allowed and outcomes are recorded. Once the number (or rate) of
+ * failures within the rolling window crosses the threshold, the circuit opens and requests are
+ * rejected until the cooldown has passed. The circuit then goes half-open and allows a limited
+ * number of probe requests through. Successful probes close the circuit, a failed probe opens
+ * it again.
+ */
+export class CircuitBreaker {
+  key: string;
+  options: Required<Omit<CircuitBreakerOptions, 'failureRateThreshold' | 'onStateChange'>> &
+    Pick<CircuitBreakerOptions, 'failureRateThreshold' | 'onStateChange'>;
+
+  private _state: CircuitState = 'closed';
+  private outcomes: { time: number; failure: boolean }[] = [];
+  private openedAt = 0;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+
+  constructor(key: string, options: CircuitBreakerOptions = {}) {
+    this.key = key;
+    this.options = {
+      scope: 'host',
+      failureThreshold: 5,
+      minimumRequests: 10,
+      rollingWindow: 60000,
+      cooldown: 30000,
+      halfOpenMaxProbes: 1,
+      successThreshold: 1,
+      isFailure: isCircuitBreakerFailure,
+      ...options,
+    };
+  }
+
+  /**
+   * The current state of the circuit. An open circuit whose cooldown has passed is reported as
+   * half-open.
+   */
+  get state(): CircuitState {
+    if (this._state === 'open' && Date.now() - this.openedAt >= this.options.cooldown) {
+      this.transition('half-open');
+    }
+
+    return this._state;
+  }
+
+  /**
+   * Time (in ms) until an open circuit will allow probe requests
+   */
+  get remainingCooldown(): number {
+    if (this._state !== 'open') {
+      return 0;
+    }
+
+    return Math.max(0, this.openedAt + this.options.cooldown - Date.now());
+  }
+
+  /**
+   * Checks whether a request may be sent. In the half-open state this reserves one of the probe
+   * slots, so every call that returns true must be followed by `record()` with the request's
+   * outcome, saying whether it was admitted as a probe (i.e. `state` was half-open).
+   *
+   * @returns Whether the request may be sent
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+
+    if (state === 'closed') {
+      return true;
+    }
+
+    if (state === 'half-open' && this.probesInFlight < this.options.halfOpenMaxProbes) {
+      this.probesInFlight++;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Records the outcome of a request. Cancelled requests only free their probe slot and count
+   * as neither a success nor a failure. While half-open, only probes count: a request admitted
+   * before the circuit went half-open says nothing about whether the service recovered.
+   *
+   * @param error - The error thrown by the request, if any
+   * @param probe - Whether the request was admitted as a probe. Defaults to true
+   */
+  record(error?: any, probe = true): void {
+    if (!probe && this._state === 'half-open') {
+      return;
+    }
+
+    if (error !== undefined && isCancellation(error)) {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    } else if (error !== undefined && this.options.isFailure(error)) {
+      this.recordFailure();
+    } else {
+      this.recordSuccess();
+    }
+  }
+
+  recordSuccess(): void {
+    if (this._state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.probeSuccesses++;
+
+      if (this.probeSuccesses >= this.options.successThreshold) {
+        this.transition('closed');
+      }
+
+      return;
+    }
+
+    this.addOutcome(false);
+  }
+
+  recordFailure(): void {
+    if (this._state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.transition('open');
+      return;
+    }
+
+    if (this._state === 'open') {
+      return;
+    }
+
+    this.addOutcome(true);
+
+    if (this.shouldOpen()) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Forces the circuit back to the closed state and clears all recorded outcomes
+   */
+  reset(): void {
+    this.transition('closed');
+  }
+
+  private addOutcome(failure: boolean) {
+    const now = Date.now();
+    this.outcomes.push({ time: now, failure });
+    this.outcomes = this.outcomes.filter(
+      outcome => now - outcome.time < this.options.rollingWindow
+    );
+  }
+
+  private shouldOpen(): boolean {
+    const failures = this.outcomes.filter(outcome => outcome.failure).length;
+
+    if (failures >= this.options.failureThreshold) {
+      return true;
+    }
+
+    const { failureRateThreshold, minimumRequests } = this.options;
+
+    if (failureRateThreshold !== undefined && this.outcomes.length >= minimumRequests) {
+      return failures / this.outcomes.length >= failureRateThreshold;
+    }
+
+    return false;
+  }
+
+  private transition(to: CircuitState) {
+    const from = this._state;
+
+    if (to === 'open') {
+      this.openedAt = Date.now();
+    }
+
+    if (to === 'closed') {
+      this.outcomes = [];
+    }
+
+    this.probesInFlight = 0;
+    this.probeSuccesses = 0;
+    this._state = to;
+
+    if (from !== to && this.options.onStateChange) {
+      this.options.onStateChange({ key: this.key, from, to });
+    }
+  }
+}
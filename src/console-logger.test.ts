@@ -0,0 +1,43 @@
+import { ConsoleLogger } from './console-logger';
+
+describe('ConsoleLogger', () => {
+  let consoleLogSpy: jest.SpyInstance;
+  const logger = new ConsoleLogger();
+
+  beforeEach(() => {
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+  });
+
+  it('should print debug fields without the request context', () => {
+    logger.debug('[Client] GET /users', {
+      client: 'Client',
+      method: 'GET',
+      url: '/users',
+      data: { id: 1 },
+    });
+
+    expect(consoleLogSpy).toHaveBeenCalledTimes(3);
+    expect(consoleLogSpy).toHaveBeenNthCalledWith(2, '\x1b[36m== [Client] GET /users ==\x1b[0m');
+    expect(consoleLogSpy).toHaveBeenNthCalledWith(3, JSON.stringify({ data: { id: 1 } }, null, 2));
+  });
+
+  it('should only print the title when there are no other fields', () => {
+    logger.debug('[Client] GET /users : [200]', { status: 200, attempt: 1, duration: 12 });
+    expect(consoleLogSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should print warnings in yellow', () => {
+    logger.warn('Retry #1', { attempt: 2 });
+    expect(consoleLogSpy).toHaveBeenCalledWith('\x1b[33mRetry #1\x1b[0m');
+  });
+
+  it('should print the stack of an error field', () => {
+    const error = new Error('boom');
+    logger.error('[Client] GET /users : error', { error });
+    expect(consoleLogSpy).toHaveBeenCalledWith('\x1b[31m' + error.stack + '\x1b[0m');
+  });
+});
@@ -0,0 +1,51 @@
+import { logData, logError, logInfo, logWarning, type LogFields, type Logger } from './logger';
+
+/**
+ * Fields that identify the request. They are already part of the message, so the console
+ * logger doesn't repeat them.
+ */
+const CONTEXT_FIELDS = ['client', 'method', 'url', 'status', 'attempt', 'duration'];
+
+/**
+ * Gets the fields worth printing below the message
+ *
+ * @param fields - The log fields
+ * @returns The remaining fields or undefined if there are none
+ */
+const getDetails = (fields: LogFields = {}): Record<string, any> | undefined => {
+  const details = Object.keys(fields)
+    .filter(key => !CONTEXT_FIELDS.includes(key) && fields[key] !== undefined)
+    .reduce<Record<string, any>>((picked, key) => {
+      picked[key] = fields[key];
+      return picked;
+    }, {});
+
+  return Object.keys(details).length ? details : undefined;
+};
+
+/**
+ * The default logger. Writes colorized output to the console for local development. Info and
+ * warning entries are a single line, debug and error entries print their fields below the
+ * message.
+ */
+export class ConsoleLogger implements Logger {
+  debug(message: string, fields?: LogFields) {
+    logData(message, getDetails(fields));
+  }
+
+  info(message: string, _fields?: LogFields) {
+    logInfo(message);
+  }
+
+  warn(message: string, _fields?: LogFields) {
+    logWarning(message);
+  }
+
+  error(message: string, fields?: LogFields) {
+    if (fields?.error) {
+      logError(fields.error, message);
+    } else {
+      logData(message, getDetails(fields));
+    }
+  }
+}
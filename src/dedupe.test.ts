@@ -0,0 +1,31 @@
+import { getRequestKey, stableStringify } from './dedupe';
+
+describe('dedupe', () => {
+  describe('stableStringify', () => {
+    it('should produce the same string regardless of key order', () => {
+      expect(stableStringify({ b: 2, a: { d: 4, c: 3 } })).toBe(
+        stableStringify({ a: { c: 3, d: 4 }, b: 2 })
+      );
+    });
+
+    it('should return an empty string for undefined', () => {
+      expect(stableStringify(undefined)).toBe('');
+    });
+  });
+
+  describe('getRequestKey', () => {
+    it('should include the url and params', () => {
+      expect(getRequestKey('/users', { params: { page: 1 } })).toBe('GET /users {"page":1} {}');
+    });
+
+    it('should only include the chosen headers', () => {
+      const key = getRequestKey(
+        '/users',
+        { headers: { Authorization: 'Bearer a', 'X-Request-Id': '1' } },
+        ['authorization']
+      );
+
+      expect(key).toBe('GET /users  {"authorization":"Bearer a"}');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import type { AxiosRetryClientRequestConfig } from './axios-retry-client';
+
+export interface DedupeOptions {
+  /**
+   * Request headers (case-insensitive) to include in the key, e.g. `['authorization']` so that
+   * requests made on behalf of different users are never coalesced
+   */
+  headers?: string[];
+  /**
+   * Custom key function. Requests with the same key share a single underlying request. Return
+   * undefined to skip coalescing for a request.
+   */
+  key?: (url: string, config: AxiosRetryClientRequestConfig) => string | undefined;
+}
+
+/**
+ * JSON.stringify with object keys sorted, so that `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }`
+ * produce the same string
+ *
+ * @param value - The value to stringify
+ * @returns The stringified value
+ */
+export const stableStringify = (value: any): string => {
+  if (value === undefined) {
+    return '';
+  }
+
+  return JSON.stringify(value, (_, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.keys(val)
+        .sort()
+        .reduce<Record<string, any>>((sorted, key) => {
+          sorted[key] = val[key];
+          return sorted;
+        }, {});
+    }
+    return val;
+  });
+};
+
+/**
+ * Builds a key identifying a GET request from its URL, params and the chosen headers. Used
+ * for coalescing in-flight requests and as the default cache key.
+ *
+ * @param url - The request URL
+ * @param config - The request config
+ * @param headerNames - The headers to include in the key
+ * @returns The key
+ */
+export const getRequestKey = (
+  url: string,
+  config: AxiosRetryClientRequestConfig,
+  headerNames: string[] = []
+): string => {
+  const headers: Record<string, any> = { ...(config.headers as Record<string, any>) };
+  const names = headerNames.map(name => name.toLowerCase());
+  const selected = Object.keys(headers)
+    .filter(name => names.includes(name.toLowerCase()))
+    .reduce<Record<string, any>>((picked, name) => {
+      picked[name.toLowerCase()] = headers[name];
+      return picked;
+    }, {});
+
+  return [
+    'GET',
+    `${config.baseURL || ''}${url}`,
+    stableStringify(config.params),
+    stableStringify(selected),
+  ].join(' ');
+};
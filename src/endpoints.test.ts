@@ -0,0 +1,152 @@
+import { AxiosRetryClient } from './axios-retry-client';
+import { buildPath, endpoint, type PathParams } from './endpoints';
+import { MockAdapter } from './testing';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+describe('endpoints', () => {
+  describe('buildPath', () => {
+    it('should interpolate and URL encode path params', () => {
+      expect(buildPath('/users/:id/files/:name', { id: 1, name: 'a b/c.txt' })).toBe(
+        '/users/1/files/a%20b%2Fc.txt'
+      );
+    });
+
+    it('should throw when a param is missing', () => {
+      expect(() => buildPath('/users/:id', {})).toThrow('Missing path param "id" for /users/:id');
+    });
+
+    it('should only fill in the path of absolute URLs', () => {
+      expect(buildPath('http://localhost:8080/users/:id?at=10:30', { id: 1 })).toBe(
+        'http://localhost:8080/users/1?at=10:30'
+      );
+    });
+
+    it('should end param names at the first non-word character', () => {
+      expect(buildPath('/files/:name.json', { name: 'report' })).toBe('/files/report.json');
+      expect(buildPath('/events/:from-:to', { from: 1, to: 2 })).toBe('/events/1-2');
+      expect(buildPath('/time/12:30/:id', { id: 1 })).toBe('/time/12:30/1');
+    });
+
+    it('should type the params of a path template', () => {
+      const params: PathParams<'/orgs/:org/users/:id'> = { org: 'acme', id: 1 };
+
+      // @ts-expect-error - `id` is missing
+      const missing: PathParams<'/orgs/:org/users/:id'> = { org: 'acme' };
+
+      const file: PathParams<'/files/:name.json'> = { name: 'report' };
+      const absolute: PathParams<'http://localhost:8080/users/:id?at=10:30'> = { id: 1 };
+
+      // @ts-expect-error - `8080` and `30` aren't params
+      const port: PathParams<'http://localhost:8080/users/:id?at=10:30'> = { id: 1, 8080: 1 };
+
+      expect([params, missing, file, absolute, port]).toBeDefined();
+    });
+  });
+
+  describe('client.endpoints', () => {
+    let client: AxiosRetryClient;
+    let mock: MockAdapter;
+
+    const definitions = {
+      getUser: endpoint('GET', '/users/:id').response<User>(),
+      listUsers: endpoint('GET', '/users')
+        .query<{ page?: number; role?: string }>()
+        .response<User[]>(),
+      search: endpoint('GET', '/search').query<{ q: string }>().response<User[]>(),
+      createUser: endpoint('POST', '/orgs/:org/users').body<Omit<User, 'id'>>().response<User>(),
+      updateUser: endpoint('PUT', '/users/:id', { retryConfig: { retries: 0 } })
+        .body<Partial<User>>()
+        .response<User>(),
+      deleteUser: endpoint('DELETE', '/users/:id', { config: { headers: { 'X-Audit': 'yes' } } }),
+      getStrictUser: endpoint('GET', '/users/:id').schema((data: unknown): User => {
+        if (typeof (data as User)?.name !== 'string') {
+          throw new Error('name must be a string');
+        }
+        return data as User;
+      }),
+    };
+
+    beforeEach(() => {
+      client = new AxiosRetryClient({
+        baseURL: 'https://api.example.com',
+        name: 'Endpoints',
+        retryConfig: { retries: 2, retryDelay: () => 1 },
+      });
+      mock = new MockAdapter().attach(client);
+    });
+
+    it('should call endpoints with interpolated paths, query params and bodies', async () => {
+      const api = client.endpoints(definitions);
+      mock.onGet('/users/42').reply(200, { id: 42, name: 'Ada' });
+      mock.onGet('/users').reply(200, []);
+      mock.onPost('/orgs/acme%20inc/users').reply(201, { id: 1, name: 'Grace' });
+
+      const { data: user } = await api.getUser({ params: { id: 42 } });
+      const name: string = user.name;
+      await api.listUsers();
+      await api.listUsers({ query: { page: 2 } });
+      const { data: created } = await api.createUser({
+        params: { org: 'acme inc' },
+        body: { name: 'Grace' },
+      });
+
+      expect(name).toBe('Ada');
+      expect(created).toEqual({ id: 1, name: 'Grace' });
+      expect(mock.callsTo('GET', '/users').map(call => call.query)).toEqual([{}, { page: '2' }]);
+      expect(mock.callsTo('POST')[0].body).toEqual({ name: 'Grace' });
+    });
+
+    it('should type check the arguments', async () => {
+      const api = client.endpoints(definitions);
+      mock.onAny().reply(200, []);
+
+      // @ts-expect-error - the path params are required
+      await expect(api.getUser()).rejects.toThrow('Missing path param "id"');
+      // @ts-expect-error - `q` is required
+      await api.search({ query: {} });
+      // @ts-expect-error - the body has the wrong type
+      await api.createUser({ params: { org: 'acme' }, body: { name: 1 } });
+      // @ts-expect-error - the endpoint has no query type
+      await api.getUser({ params: { id: 1 }, query: { page: 1 } });
+
+      expect(mock.calls).toHaveLength(3);
+    });
+
+    it('should apply the endpoint retry config and request config', async () => {
+      const api = client.endpoints(definitions);
+      mock.onPut('/users/1').reply(503);
+      mock
+        .onDelete('/users/1', { headers: { 'x-audit': 'yes' } })
+        .replyOnce(503)
+        .reply(204);
+
+      await expect(api.updateUser({ params: { id: 1 }, body: { name: 'Ada' } })).rejects.toThrow();
+      await api.deleteUser({ params: { id: 1 } });
+      await api.deleteUser({
+        params: { id: 1 },
+        config: { retryConfig: { retries: 0 }, headers: { 'X-Request-Id': '1' } },
+      });
+
+      expect(mock.callsTo('PUT')).toHaveLength(1);
+      expect(mock.callsTo('DELETE').map(call => call.attempt)).toEqual([1, 2, 1]);
+    });
+
+    it('should validate responses against the endpoint schema', async () => {
+      const api = client.endpoints(definitions);
+      mock.onGet('/users/1').reply(200, { id: 1, name: 'Ada' });
+      mock.onGet('/users/2').reply(200, { id: 2 });
+
+      const { data } = await api.getStrictUser({ params: { id: 1 } });
+      const user: User = data;
+
+      expect(user.name).toBe('Ada');
+      await expect(api.getStrictUser({ params: { id: 2 } })).rejects.toThrow(
+        'name must be a string'
+      );
+    });
+  });
+});
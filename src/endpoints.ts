@@ -0,0 +1,246 @@
+import type {
+  AxiosRetryClientRequestConfig,
+  AxiosRetryClientResponse,
+  AxiosRetryClientRetryConfig,
+  RequestType,
+} from './axios-retry-client';
+import type { InferSchema, ResponseSchema } from './schema';
+
+/**
+ * The characters of a string, as a union
+ */
+type Chars<S extends string, Found extends string = never> = S extends `${infer C}${infer Rest}`
+  ? Chars<Rest, Found | C>
+  : Found;
+
+type Letter = Chars<'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'>;
+
+type ParamNameStart = Letter | '_';
+
+type ParamNameChar = ParamNameStart | Chars<'0123456789'>;
+
+/**
+ * The longest run of word characters at the start of a string
+ */
+type TakeParamName<S extends string, Name extends string = ''> = S extends `${infer C}${infer Rest}`
+  ? C extends ParamNameChar
+    ? TakeParamName<Rest, `${Name}${C}`>
+    : Name
+  : Name;
+
+/**
+ * The path of a path template or URL, without its origin, query and hash
+ */
+type PathPart<P extends string> = P extends `${infer Path}#${string}`
+  ? PathPart<Path>
+  : P extends `${infer Path}?${string}`
+    ? PathPart<Path>
+    : P extends `${string}://${infer Rest}`
+      ? Rest extends `${string}/${infer Path}`
+        ? `/${Path}`
+        : ''
+      : P;
+
+type ParamNames<P extends string> = P extends `${string}:${infer Rest}`
+  ? (Rest extends `${ParamNameStart}${string}` ? TakeParamName<Rest> : never) | ParamNames<Rest>
+  : never;
+
+/**
+ * The names of the `:params` in a path template. A name starts with a letter or `_` and goes on
+ * with letters, digits and `_`, so `/files/:name.json` has a `name` param. Colons in the origin
+ * of an absolute URL (e.g. a port) and in the query aren't params.
+ */
+export type PathParamNames<P extends string> = ParamNames<PathPart<P>>;
+
+/**
+ * The values of the `:params` in a path template, e.g. `{ id: string | number }` for
+ * `/users/:id`
+ */
+export type PathParams<P extends string> = { [K in PathParamNames<P>]: string | number };
+
+export interface EndpointOptions {
+  /**
+   * Retry config for every call to the endpoint. Per-call `retryConfig` is merged over it.
+   */
+  retryConfig?: AxiosRetryClientRetryConfig;
+  /**
+   * Default request config for every call to the endpoint (headers, timeout, etc)
+   */
+  config?: AxiosRetryClientRequestConfig;
+}
+
+/**
+ * The arguments of a call to an endpoint. `params` is required when the path has `:params`,
+ * `query` when the query type has required properties and `body` when a body type is declared.
+ */
+export type EndpointArgs<P extends string, Q, B> = ([PathParamNames<P>] extends [never]
+  ? { params?: Record<string, never> }
+  : { params: PathParams<P> }) &
+  ([Q] extends [undefined]
+    ? { query?: never }
+    : Partial<Q> extends Q
+      ? { query?: Q }
+      : { query: Q }) &
+  ([B] extends [undefined] ? { body?: never } : { body: B }) & {
+    /**
+     * Request config for this call, merged over the endpoint's config
+     */
+    config?: AxiosRetryClientRequestConfig;
+  };
+
+/**
+ * A typed endpoint: its method, path template and options, and the types of its query, body and
+ * response. Declare the types by chaining `query<Q>()`, `body<B>()` and `response<R>()` (or
+ * `schema(schema)` to validate the response and infer its type).
+ */
+export class Endpoint<P extends string = string, Q = undefined, B = undefined, R = any> {
+  schemaValidator: ResponseSchema | undefined;
+
+  constructor(
+    public method: RequestType | string,
+    public path: P,
+    public options: EndpointOptions = {}
+  ) {}
+
+  /**
+   * Declares the query params type
+   */
+  query<T extends object>(): Endpoint<P, T, B, R> {
+    return this as unknown as Endpoint<P, T, B, R>;
+  }
+
+  /**
+   * Declares the request body type
+   */
+  body<T>(): Endpoint<P, Q, T, R> {
+    return this as unknown as Endpoint<P, Q, T, R>;
+  }
+
+  /**
+   * Declares the response data type
+   */
+  response<T>(): Endpoint<P, Q, B, T> {
+    return this as unknown as Endpoint<P, Q, B, T>;
+  }
+
+  /**
+   * Validates responses against a schema, inferring the response data type from it
+   *
+   * @param schema - The schema
+   */
+  schema<S extends ResponseSchema>(schema: S): Endpoint<P, Q, B, InferSchema<S>> {
+    this.schemaValidator = schema;
+    return this as unknown as Endpoint<P, Q, B, InferSchema<S>>;
+  }
+}
+
+/**
+ * Declares an endpoint
+ *
+ * @example
+ * const getUser = endpoint('GET', '/users/:id').response<User>();
+ * const createUser = endpoint('POST', '/users').body<NewUser>().response<User>();
+ *
+ * @param method - The request method
+ * @param path - The path template, with `:params`
+ * @param options - The retry config and default request config
+ * @returns The endpoint
+ */
+export const endpoint = <P extends string>(
+  method: RequestType | `${RequestType}` | (string & {}),
+  path: P,
+  options: EndpointOptions = {}
+): Endpoint<P> => new Endpoint(method, path, options);
+
+export type EndpointDefinitions = Record<string, Endpoint<any, any, any, any>>;
+
+/**
+ * A function that calls an endpoint. The arguments are optional when none are required.
+ */
+export type EndpointFunction<E> =
+  E extends Endpoint<infer P, infer Q, infer B, infer R>
+    ? Partial<EndpointArgs<P, Q, B>> extends EndpointArgs<P, Q, B>
+      ? (args?: EndpointArgs<P, Q, B>) => Promise<AxiosRetryClientResponse<R>>
+      : (args: EndpointArgs<P, Q, B>) => Promise<AxiosRetryClientResponse<R>>
+    : never;
+
+/**
+ * A client object with a function for every endpoint
+ */
+export type EndpointClient<D extends EndpointDefinitions> = {
+  [K in keyof D]: EndpointFunction<D[K]>;
+};
+
+/**
+ * Sends a request. Matches the client's `request()` method.
+ */
+export type EndpointRequestFunction = (
+  method: string,
+  url: string,
+  config: AxiosRetryClientRequestConfig
+) => Promise<AxiosRetryClientResponse<any>>;
+
+/**
+ * Fills in the `:params` of a path template, URL encoding them. Only the path is filled in, the
+ * origin of an absolute URL and the query are left as they are.
+ *
+ * @param path - The path template
+ * @param params - The param values
+ * @returns The path
+ */
+export const buildPath = (path: string, params: Record<string, string | number> = {}): string => {
+  const [, origin = '', pathname = '', rest = ''] =
+    /^([a-z][a-z\d+.-]*:\/\/[^/?#]*)?([^?#]*)([\s\S]*)$/i.exec(path) || [];
+
+  return `${origin}${pathname.replace(/:([A-Za-z_]\w*)/g, (_, name: string) => {
+    const value = params[name];
+
+    if (value === undefined || value === null || value === '') {
+      throw new TypeError(`Missing path param "${name}" for ${path}`);
+    }
+
+    return encodeURIComponent(String(value));
+  })}${rest}`;
+};
+
+/**
+ * Creates the client object for a set of endpoints
+ *
+ * @param request - Sends a request
+ * @param definitions - The endpoints
+ * @returns The client object
+ */
+export const createEndpointClient = <D extends EndpointDefinitions>(
+  request: EndpointRequestFunction,
+  definitions: D
+): EndpointClient<D> => {
+  const client: Record<string, unknown> = {};
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    const { method, path, options, schemaValidator } = definition;
+
+    client[name] = async (
+      args: {
+        params?: Record<string, string | number>;
+        query?: object;
+        body?: unknown;
+        config?: AxiosRetryClientRequestConfig;
+      } = {}
+    ) => {
+      const config: AxiosRetryClientRequestConfig = { ...options.config, ...args.config };
+
+      return request(method, buildPath(path, args.params), {
+        ...config,
+        headers: { ...(options.config?.headers as object), ...(args.config?.headers as object) },
+        ...((options.retryConfig || config.retryConfig) && {
+          retryConfig: { ...options.retryConfig, ...config.retryConfig },
+        }),
+        ...(schemaValidator && !config.schema && { schema: schemaValidator }),
+        ...(args.query && { params: { ...config.params, ...args.query } }),
+        ...(args.body !== undefined && { data: args.body }),
+      });
+    };
+  }
+
+  return client as EndpointClient<D>;
+};
@@ -0,0 +1,39 @@
+/**
+ * Reads a header from an axios headers object (or plain object) regardless of casing
+ *
+ * @param headers - The headers
+ * @param name - The header name
+ * @returns The header value if present
+ */
+export const getHeader = (
+  headers: Record<string, any> | undefined,
+  name: string
+): string | undefined => {
+  if (!headers) {
+    return undefined;
+  }
+
+  const lowerName = name.toLowerCase();
+  const key = Object.keys(headers).find(key => key.toLowerCase() === lowerName);
+  const value = typeof headers.get === 'function' ? headers.get(name) : key && headers[key];
+
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  return String(Array.isArray(value) ? value[0] : value).trim();
+};
+
+/**
+ * Converts an axios headers object into a plain object
+ *
+ * @param headers - The headers
+ * @returns A plain object of header names to values
+ */
+export const toPlainHeaders = (headers: Record<string, any> | undefined): Record<string, any> => {
+  if (!headers) {
+    return {};
+  }
+
+  return typeof headers.toJSON === 'function' ? headers.toJSON() : { ...headers };
+};
@@ -0,0 +1,160 @@
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { RequestHedger } from './hedge';
+
+interface FakeCall {
+  aborted: boolean;
+}
+
+/**
+ * An adapter whose nth request answers (or fails when the latency is negative) after the nth
+ * latency, and that records whether each request was aborted
+ */
+const createAdapter = (...latencies: number[]) => {
+  const calls: FakeCall[] = [];
+
+  const adapter = (config: InternalAxiosRequestConfig) =>
+    new Promise<AxiosResponse>((resolve, reject) => {
+      const call: FakeCall = { aborted: false };
+      const index = calls.push(call) - 1;
+      const latency = latencies[index] ?? 0;
+      const timer = setTimeout(() => {
+        if (latency < 0) {
+          reject(new Error(`request ${index} failed`));
+        } else {
+          resolve({ data: index, status: 200, statusText: 'OK', headers: {}, config });
+        }
+      }, Math.abs(latency));
+
+      config.signal?.addEventListener?.('abort', () => {
+        call.aborted = true;
+        clearTimeout(timer);
+        reject(new Error(`request ${index} aborted`));
+      });
+    });
+
+  return { adapter, calls };
+};
+
+const config = { method: 'get', url: '/users', headers: {} } as InternalAxiosRequestConfig;
+
+describe('RequestHedger', () => {
+  it('should not hedge requests that answer within the delay', async () => {
+    const onResult = jest.fn();
+    const { adapter, calls } = createAdapter(5);
+
+    const response = await new RequestHedger({ onResult }).wrap(adapter, { delay: 50 })(config);
+
+    expect(response.data).toBe(0);
+    expect(calls).toHaveLength(1);
+    expect(onResult).not.toHaveBeenCalled();
+  });
+
+  it('should use the hedge when it answers first and abort the original request', async () => {
+    const onResult = jest.fn();
+    const hedger = new RequestHedger({ onResult });
+    const { adapter, calls } = createAdapter(200, 5);
+
+    const response = await hedger.wrap(adapter, { delay: 10 })(config);
+
+    expect(response.data).toBe(1);
+    expect(calls.map(call => call.aborted)).toEqual([true, false]);
+    expect(onResult).toHaveBeenCalledWith(config, true);
+    expect(hedger.inFlight).toBe(0);
+  });
+
+  it('should abort the hedge when the original request answers first', async () => {
+    const onResult = jest.fn();
+    const { adapter, calls } = createAdapter(30, 200);
+
+    const response = await new RequestHedger({ onResult }).wrap(adapter, { delay: 10 })(config);
+
+    expect(response.data).toBe(0);
+    expect(calls.map(call => call.aborted)).toEqual([false, true]);
+    expect(onResult).toHaveBeenCalledWith(config, false);
+  });
+
+  it('should send up to maxHedges hedges', async () => {
+    const { adapter, calls } = createAdapter(200, 200, 5);
+
+    const response = await new RequestHedger().wrap(adapter, { delay: 10, maxHedges: 2 })(config);
+
+    expect(response.data).toBe(2);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('should wait for the other requests when one fails', async () => {
+    const { adapter } = createAdapter(-30, 50);
+
+    const response = await new RequestHedger().wrap(adapter, { delay: 10 })(config);
+
+    expect(response.data).toBe(1);
+  });
+
+  it('should fail with the first error when every request fails', async () => {
+    const { adapter } = createAdapter(-30, -5);
+
+    await expect(new RequestHedger().wrap(adapter, { delay: 10 })(config)).rejects.toThrow(
+      'request 1 failed'
+    );
+  });
+
+  it('should not hedge once the requests fail before the delay', async () => {
+    const { adapter, calls } = createAdapter(-5);
+
+    await expect(new RequestHedger().wrap(adapter, { delay: 10 })(config)).rejects.toThrow(
+      'request 0 failed'
+    );
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should cap the hedges in flight across requests', async () => {
+    const hedger = new RequestHedger();
+    const { adapter, calls } = createAdapter(100, 50, 500);
+    const hedged = hedger.wrap(adapter, { delay: 20, maxInFlight: 1 });
+
+    const responses = await Promise.all([hedged(config), hedged(config)]);
+
+    expect(responses.map(response => response.data)).toEqual([0, 1]);
+    expect(calls.map(call => call.aborted)).toEqual([false, false, true]);
+  });
+
+  it('should abort every request when the caller aborts', async () => {
+    const controller = new AbortController();
+    const { adapter, calls } = createAdapter(200, 200);
+    const request = new RequestHedger().wrap(adapter, { delay: 10 })({
+      ...config,
+      signal: controller.signal,
+    });
+
+    setTimeout(() => controller.abort(), 30);
+
+    await expect(request).rejects.toThrow('aborted');
+    expect(calls.map(call => call.aborted)).toEqual([true, true]);
+  });
+
+  it('should report the results that are not used', async () => {
+    const onDiscarded = jest.fn();
+    const { adapter } = createAdapter(200, 5);
+
+    await new RequestHedger({ onDiscarded }).wrap(adapter, { delay: 10 })(config);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(onDiscarded).toHaveBeenCalledTimes(1);
+    expect(onDiscarded.mock.calls[0][1]).toEqual(new Error('request 0 aborted'));
+  });
+
+  it('should only send a hedge when it gets a slot, and free the slot once it finishes', async () => {
+    const release = jest.fn();
+    const acquireSlot = jest.fn().mockReturnValueOnce(undefined).mockReturnValue(release);
+    const { adapter, calls } = createAdapter(200, 5);
+
+    const response = await new RequestHedger({ acquireSlot }).wrap(adapter, { delay: 10 })(config);
+
+    expect(response.data).toBe(1);
+    expect(calls).toHaveLength(2);
+    expect(acquireSlot).toHaveBeenCalledTimes(2);
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,174 @@
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export interface HedgeOptions {
+  /**
+   * Time (in ms) to wait for an attempt to answer before sending a hedge, e.g. the p95 latency
+   * of the endpoint
+   */
+  delay: number;
+  /**
+   * Maximum number of hedges sent for one attempt, each `delay` after the previous one.
+   * Defaults to 1
+   */
+  maxHedges?: number;
+  /**
+   * Maximum number of hedges in flight at once across the client. Once reached, attempts don't
+   * send a hedge until one finishes. Defaults to 10
+   */
+  maxInFlight?: number;
+}
+
+/**
+ * Called for every hedge sent once its attempt settles, with whether the hedge's response was
+ * the one used
+ */
+export type HedgeResultCallback = (config: InternalAxiosRequestConfig, won: boolean) => void;
+
+export interface RequestHedgerHooks {
+  /**
+   * Called for every hedge sent once its attempt settles
+   */
+  onResult?: HedgeResultCallback;
+  /**
+   * Called with the response or error of every request of an attempt whose result isn't the one
+   * the attempt settles with, e.g. the original request that lost to a hedge and was aborted
+   */
+  onDiscarded?: (config: InternalAxiosRequestConfig, result: unknown) => void;
+  /**
+   * Takes a slot for a hedge before it's sent, e.g. from a rate limiter. Returns the function
+   * that frees the slot once the hedge finishes, or undefined to not send the hedge.
+   */
+  acquireSlot?: (config: InternalAxiosRequestConfig) => (() => void) | undefined;
+}
+
+/**
+ * Sends hedged requests: when an attempt hasn't answered within `delay`, the same request is
+ * sent again in parallel. The first response wins and the other requests are aborted. If a
+ * request fails, the attempt waits for the others, and fails with the first error if they all do.
+ */
+export class RequestHedger {
+  /**
+   * Number of hedges in flight
+   */
+  inFlight = 0;
+
+  constructor(private hooks: RequestHedgerHooks = {}) {}
+
+  /**
+   * Wraps an axios adapter so that its requests are hedged
+   *
+   * @param adapter - The adapter that sends the requests
+   * @param options - The hedging options
+   * @returns The hedging adapter
+   */
+  wrap(
+    adapter: AxiosAdapter,
+    { delay, maxHedges = 1, maxInFlight = 10 }: HedgeOptions
+  ): AxiosAdapter {
+    return config =>
+      new Promise<AxiosResponse>((resolve, reject) => {
+        const { signal } = config;
+        const controllers: AbortController[] = [];
+        const hedges: AbortController[] = [];
+        const errors: unknown[] = [];
+        let pending = 0;
+        let settled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const abortAll = () =>
+          controllers.forEach(controller => controller.abort((signal as AbortSignal).reason));
+
+        const settle = (winner?: AbortController) => {
+          settled = true;
+          clearTimeout(timer);
+          signal?.removeEventListener?.('abort', abortAll);
+          controllers.forEach(controller => controller !== winner && controller.abort());
+          hedges.forEach(hedge => this.hooks.onResult?.(config, hedge === winner));
+        };
+
+        const discard = (result: unknown) => this.hooks.onDiscarded?.(config, result);
+
+        const send = (isHedge: boolean) => {
+          const releaseSlot = isHedge ? this.hooks.acquireSlot?.(config) : undefined;
+
+          if (isHedge && this.hooks.acquireSlot && !releaseSlot) {
+            return;
+          }
+
+          const controller = new AbortController();
+          const done = () => {
+            pending--;
+            releaseSlot?.();
+
+            if (isHedge) {
+              this.inFlight--;
+            }
+          };
+
+          controllers.push(controller);
+          pending++;
+
+          if (isHedge) {
+            hedges.push(controller);
+            this.inFlight++;
+          }
+
+          adapter({ ...config, signal: controller.signal }).then(
+            response => {
+              done();
+
+              if (settled) {
+                discard(response);
+                return;
+              }
+
+              settle(controller);
+              resolve(response);
+              errors.forEach(discard);
+            },
+            error => {
+              done();
+
+              if (settled) {
+                discard(error);
+                return;
+              }
+
+              errors.push(error);
+
+              if (!pending) {
+                settle();
+                reject(errors[0]);
+                errors.slice(1).forEach(discard);
+              }
+            }
+          );
+        };
+
+        const scheduleHedge = () => {
+          timer = setTimeout(() => {
+            if (settled) {
+              return;
+            }
+
+            if (this.inFlight < maxInFlight) {
+              send(true);
+            }
+
+            if (hedges.length < maxHedges) {
+              scheduleHedge();
+            }
+          }, delay);
+        };
+
+        send(false);
+
+        if (signal?.aborted) {
+          abortAll();
+        } else {
+          signal?.addEventListener?.('abort', abortAll);
+          scheduleHedge();
+        }
+      });
+  }
+}
@@ -0,0 +1,32 @@
+import { createSyntheticResponse, getHooks } from './hooks';
+
+describe('hooks', () => {
+  describe('getHooks', () => {
+    it('should collect single hooks and arrays of hooks in order', () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      const third = jest.fn();
+
+      expect(
+        getHooks(
+          [{ onRequest: first }, undefined, { onRequest: [second, third], onError: jest.fn() }],
+          'onRequest'
+        )
+      ).toEqual([first, second, third]);
+    });
+  });
+
+  describe('createSyntheticResponse', () => {
+    it('should default to a 200 response', () => {
+      const config = { url: '/users' };
+
+      expect(createSyntheticResponse({ data: { id: 1 } }, config)).toEqual({
+        data: { id: 1 },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      });
+    });
+  });
+});
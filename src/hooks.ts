@@ -0,0 +1,143 @@
+import type { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { AxiosRetryClientRequestConfig, RequestType } from './axios-retry-client';
+import type { RequestMetrics } from './metrics';
+import type { Span } from './tracing';
+
+type MaybePromise<T> = T | Promise<T>;
+
+type HookFunction<H> = H extends Array<infer F> ? F : H;
+
+/**
+ * The request a hook is running for. `onRequest` hooks may modify `data` and `config`.
+ */
+export interface RequestContext {
+  /**
+   * Name of the client
+   */
+  client: string;
+  method: RequestType;
+  url: string;
+  data: any;
+  config: AxiosRetryClientRequestConfig;
+  /**
+   * Time the client call started (ms since epoch)
+   */
+  startTime: number;
+  /**
+   * The span for the call when `tracing` is enabled
+   */
+  span?: Span;
+}
+
+/**
+ * A response produced by a hook instead of the server
+ */
+export interface SyntheticResponse<T = any> {
+  data: T;
+  /**
+   * Defaults to 200
+   */
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+}
+
+export interface RequestResult {
+  /**
+   * The response, when the call succeeded
+   */
+  response?: AxiosResponse;
+  /**
+   * The error the call failed with
+   */
+  error?: unknown;
+  /**
+   * Total time spent on the call (ms)
+   */
+  duration: number;
+  /**
+   * Attempt count, outcome and timings for the call
+   */
+  metrics: RequestMetrics;
+}
+
+/**
+ * Runs before the request is sent. Return `{ response }` to skip sending it and resolve with a
+ * synthetic response instead.
+ */
+export type OnRequestHook = (
+  context: RequestContext
+) => MaybePromise<void | { response: SyntheticResponse }>;
+
+/**
+ * Runs after a response is received. Return a response to replace it.
+ */
+export type OnResponseHook = (
+  response: AxiosResponse,
+  context: RequestContext
+) => MaybePromise<void | AxiosResponse>;
+
+/**
+ * Runs when the call fails, after all retries. Return `{ response }` to recover with a synthetic
+ * response, or throw to replace the error.
+ */
+export type OnErrorHook = (
+  error: unknown,
+  context: RequestContext
+) => MaybePromise<void | { response: SyntheticResponse }>;
+
+/**
+ * Runs before each retry attempt
+ */
+export type OnRetryHook = (
+  retryCount: number,
+  error: AxiosError,
+  context: RequestContext
+) => MaybePromise<void>;
+
+/**
+ * Runs once the call has finished, whether it succeeded or failed
+ */
+export type OnCompleteHook = (result: RequestResult, context: RequestContext) => MaybePromise<void>;
+
+export interface Hooks {
+  onRequest?: OnRequestHook | OnRequestHook[];
+  onResponse?: OnResponseHook | OnResponseHook[];
+  onError?: OnErrorHook | OnErrorHook[];
+  onRetry?: OnRetryHook | OnRetryHook[];
+  onComplete?: OnCompleteHook | OnCompleteHook[];
+}
+
+/**
+ * Collects the hooks of one type from a list of hook sets, in order
+ *
+ * @param hooks - The hook sets
+ * @param name - The hook type
+ * @returns The hook functions
+ */
+export const getHooks = <K extends keyof Hooks>(
+  hooks: Array<Hooks | undefined>,
+  name: K
+): Array<HookFunction<NonNullable<Hooks[K]>>> =>
+  hooks.flatMap(set => {
+    const hook = set?.[name];
+    return (hook ? (Array.isArray(hook) ? hook : [hook]) : []) as any[];
+  });
+
+/**
+ * Builds an axios response from a synthetic response
+ *
+ * @param response - The synthetic response
+ * @param config - The request config
+ * @returns The axios response
+ */
+export const createSyntheticResponse = <T>(
+  response: SyntheticResponse<T>,
+  config: AxiosRetryClientRequestConfig
+): AxiosResponse<T> => ({
+  data: response.data,
+  status: response.status ?? 200,
+  statusText: response.statusText ?? 'OK',
+  headers: response.headers ?? {},
+  config: config as InternalAxiosRequestConfig,
+});
@@ -0,0 +1,29 @@
+import { generateIdempotencyKey, getIdempotencyKey } from './idempotency';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('idempotency', () => {
+  describe('generateIdempotencyKey', () => {
+    it('should generate a v4 UUID', () => {
+      expect(generateIdempotencyKey()).toMatch(UUID_PATTERN);
+    });
+
+    it('should fall back to Math.random when crypto.randomUUID is unavailable', () => {
+      const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+      Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+
+      try {
+        expect(generateIdempotencyKey()).toMatch(UUID_PATTERN);
+      } finally {
+        Object.defineProperty(globalThis, 'crypto', descriptor);
+      }
+    });
+  });
+
+  describe('getIdempotencyKey', () => {
+    it('should read the header regardless of casing', () => {
+      expect(getIdempotencyKey({ 'idempotency-key': 'abc' }, 'Idempotency-Key')).toBe('abc');
+      expect(getIdempotencyKey({}, 'Idempotency-Key')).toBeUndefined();
+    });
+  });
+});
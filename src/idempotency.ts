@@ -0,0 +1,47 @@
+import type { RequestType } from './axios-retry-client';
+import { getHeader } from './headers';
+
+export const DEFAULT_IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+export interface IdempotencyOptions {
+  /**
+   * The header to send the key in. Defaults to 'Idempotency-Key'
+   */
+  header?: string;
+  /**
+   * The request types that get a key. Defaults to POST and PATCH
+   */
+  methods?: RequestType[];
+  /**
+   * Generates a key. Defaults to a random UUID
+   */
+  generateKey?: () => string;
+}
+
+/**
+ * Generates a random v4 UUID, using `crypto.randomUUID` where available
+ *
+ * @returns The UUID
+ */
+export const generateIdempotencyKey = (): string => {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+};
+
+/**
+ * Gets the idempotency key from a request's headers
+ *
+ * @param headers - The request headers
+ * @param header - The idempotency header name
+ * @returns The key if present
+ */
+export const getIdempotencyKey = (
+  headers: Record<string, any> | undefined,
+  header: string
+): string | undefined => getHeader(headers, header);
@@ -1,9 +1,183 @@
 export {
   AxiosRetryClient,
   ApiResponseError,
+  ApiRequestError,
+  ApiTimeoutError,
+  DeadlineExceededError,
+  ApiNetworkError,
+  ApiCancelledError,
+  ApiRequestSetupError,
+  RetryAfterExceededError,
+  CircuitOpenError,
+  ResponseValidationError,
+  RateLimitQueueFullError,
   RequestType,
+  isNetworkOrRetryableError,
   AxiosRetryClientRequestConfig,
   AxiosRetryClientOptions,
+  ResumableUploadResult,
 } from './axios-retry-client';
 
+export {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChange,
+} from './circuit-breaker';
+
+export { RateLimiter, RateLimiterOptions, RateLimit, RouteRateLimit } from './rate-limiter';
+
+export {
+  InferSchema,
+  ResponseSchema,
+  ResponseSchemaRoute,
+  ResponseValidator,
+  ValidationIssue,
+  ValidationResult,
+} from './schema';
+
+export { Route } from './route';
+
+export { RetryRule, StatusMatcher, findRetryRule, matchesRetryRule } from './retry-policy';
+
+export {
+  BackoffContext,
+  BackoffFunction,
+  BackoffOptions,
+  JitterStrategy,
+  RetryDelayOptions,
+  applyJitter,
+  calculateRetryDelay,
+} from './backoff';
+
+export {
+  Hooks,
+  OnCompleteHook,
+  OnErrorHook,
+  OnRequestHook,
+  OnResponseHook,
+  OnRetryHook,
+  RequestContext,
+  RequestResult,
+  SyntheticResponse,
+} from './hooks';
+
+export { Logger, LogFields, LogLevel } from './logger';
+
+export { ConsoleLogger } from './console-logger';
+
+export { Redactor, RedactionOptions } from './redact';
+
+export {
+  METRIC_NAMES,
+  MetricLabels,
+  MetricsOptions,
+  MetricsSink,
+  PrometheusMetrics,
+  PrometheusMetricsOptions,
+  RequestMetrics,
+  RequestOutcome,
+  RequestTimings,
+} from './metrics';
+
+export {
+  Attributes,
+  AttributeValue,
+  InMemorySpan,
+  InMemoryTracer,
+  Span,
+  SpanContext,
+  SpanEvent,
+  SpanKind,
+  SpanOptions,
+  SpanStatusCode,
+  Tracer,
+  TracingOptions,
+  formatTraceparent,
+  parseTraceparent,
+} from './tracing';
+
+export {
+  CursorPaginationOptions,
+  OffsetPaginationOptions,
+  Page,
+  PageNumberPaginationOptions,
+  PageRequest,
+  PageResult,
+  PaginationOptions,
+  PaginationStrategy,
+  Paginator,
+  ValueExtractor,
+  cursorPagination,
+  linkHeaderPagination,
+  offsetPagination,
+  pageNumberPagination,
+  parseLinkHeader,
+} from './paginate';
+
+export {
+  ServerSentEvent,
+  StreamBody,
+  StreamProgress,
+  StreamRequestConfig,
+  WebReadableStream,
+  parseNdjson,
+  parseServerSentEvents,
+  readChunks,
+  readLines,
+} from './stream';
+
+export {
+  Endpoint,
+  EndpointArgs,
+  EndpointClient,
+  EndpointDefinitions,
+  EndpointFunction,
+  EndpointOptions,
+  PathParamNames,
+  PathParams,
+  buildPath,
+  createEndpointClient,
+  endpoint,
+} from './endpoints';
+
+export {
+  ChunkReader,
+  ResumableUploadOptions,
+  UploadFile,
+  UploadOptions,
+  UploadProgress,
+  UploadSource,
+  createChunkReader,
+  createFormData,
+  encodeUploadMetadata,
+} from './upload';
+
+export { DedupeOptions } from './dedupe';
+
+export { HedgeOptions, HedgeResultCallback, RequestHedger, RequestHedgerHooks } from './hedge';
+
+export {
+  ApiKeyAuth,
+  ApiKeyAuthOptions,
+  AuthProvider,
+  BasicAuth,
+  BearerTokenAuth,
+  OAuth2Auth,
+  OAuth2AuthOptions,
+  OAuth2Token,
+} from './auth';
+
+export { IdempotencyOptions } from './idempotency';
+
+export {
+  CacheEntry,
+  CacheMetadata,
+  CacheOptions,
+  CacheStatus,
+  CacheStore,
+  MemoryCacheStore,
+  ResponseCache,
+} from './cache';
+
 export { isAxiosError, AxiosError } from 'axios';
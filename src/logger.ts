@@ -104,3 +104,39 @@ export const logError = (error: unknown, title?: string) => {
     console.error(red(String(error)));
   }
 };
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to client log entries
+ */
+export interface LogFields {
+  /**
+   * Name of the client
+   */
+  client?: string;
+  method?: string;
+  url?: string;
+  status?: number;
+  /**
+   * The attempt number (1 for the first attempt)
+   */
+  attempt?: number;
+  /**
+   * Time spent on the request so far (ms)
+   */
+  duration?: number;
+  [key: string]: any;
+}
+
+/**
+ * Logger interface accepted by the client. Each method takes a message and an object of fields,
+ * like winston and console style loggers. pino takes them the other way round, so wrap it, e.g.
+ * `debug: (message, fields) => log.debug(fields, message)`.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
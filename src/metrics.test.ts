@@ -0,0 +1,87 @@
+import { PrometheusMetrics, getConnectionTimings, getRouteLabel } from './metrics';
+
+describe('metrics', () => {
+  describe('getRouteLabel', () => {
+    it('should use the first matching route template', () => {
+      expect(getRouteLabel('/users/42?expand=1', ['/users/:id', '/users/*'])).toBe('/users/:id');
+      expect(getRouteLabel('/v2/search', [/\/search$/])).toBe('\\/search$');
+    });
+
+    it('should replace id segments when no route matches', () => {
+      expect(getRouteLabel('/users/42/orders/0b7f2a6e-5c8d-4f1e-9a3b-2c4d6e8f0a1b')).toBe(
+        '/users/:id/orders/:id'
+      );
+      expect(getRouteLabel('https://api.example.com/files/5f2b8c9d0e1a2b3c/raw')).toBe(
+        '/files/:id/raw'
+      );
+      expect(getRouteLabel('/users/me')).toBe('/users/me');
+    });
+  });
+
+  describe('getConnectionTimings', () => {
+    it('should read timings from resource timing entries', () => {
+      const spy = jest.spyOn(performance, 'getEntriesByName').mockReturnValue([
+        {
+          domainLookupStart: 10,
+          domainLookupEnd: 15,
+          connectStart: 15,
+          secureConnectionStart: 20,
+          connectEnd: 40,
+        } as any,
+      ]);
+
+      try {
+        expect(getConnectionTimings('https://api.example.com/users')).toEqual({
+          dns: 5,
+          connect: 25,
+          tls: 20,
+        });
+        expect(spy).toHaveBeenCalledWith('https://api.example.com/users', 'resource');
+      } finally {
+        spy.mockRestore();
+      }
+    });
+
+    it('should return nothing when there is no entry', () => {
+      expect(getConnectionTimings('https://api.example.com/none')).toEqual({});
+    });
+  });
+
+  describe('PrometheusMetrics', () => {
+    it('should render counters and histograms in the text format', () => {
+      const metrics = new PrometheusMetrics({ buckets: [1, 0.1] });
+
+      metrics.increment('http_client_requests_total', { method: 'GET', route: '/a"b' });
+      metrics.increment('http_client_requests_total', { route: '/a"b', method: 'GET' }, 2);
+      metrics.observe('http_client_request_duration_seconds', { method: 'GET' }, 0.05);
+      metrics.observe('http_client_request_duration_seconds', { method: 'GET' }, 0.5);
+      metrics.observe('http_client_request_duration_seconds', { method: 'GET' }, 3);
+
+      expect(metrics.toString()).toBe(
+        [
+          '# HELP http_client_requests_total Total number of client calls',
+          '# TYPE http_client_requests_total counter',
+          'http_client_requests_total{method="GET",route="/a\\"b"} 3',
+          '# HELP http_client_request_duration_seconds Duration of client calls in seconds, including retries',
+          '# TYPE http_client_request_duration_seconds histogram',
+          'http_client_request_duration_seconds_bucket{le="0.1",method="GET"} 1',
+          'http_client_request_duration_seconds_bucket{le="1",method="GET"} 2',
+          'http_client_request_duration_seconds_bucket{le="+Inf",method="GET"} 3',
+          'http_client_request_duration_seconds_sum{method="GET"} 3.55',
+          'http_client_request_duration_seconds_count{method="GET"} 3',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should clear metrics on reset', () => {
+      const metrics = new PrometheusMetrics();
+
+      metrics.increment('custom_total', {});
+      expect(metrics.toString()).toBe('# TYPE custom_total counter\ncustom_total 1\n');
+
+      metrics.reset();
+      expect(metrics.toString()).toBe('');
+    });
+  });
+});
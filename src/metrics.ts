@@ -0,0 +1,299 @@
+import { getPath, matchRoute, type Route } from './route';
+
+/**
+ * How a client call ended
+ */
+export type RequestOutcome =
+  | 'success'
+  | 'http_error'
+  | 'timeout'
+  | 'network_error'
+  | 'cancelled'
+  | 'circuit_open'
+  | 'rate_limited'
+  | 'invalid_response'
+  | 'error';
+
+export interface RequestTimings {
+  /**
+   * DNS lookup time of the final attempt (ms). Only available where the runtime records
+   * resource timing (browsers, or the fetch adapter on Node)
+   */
+  dns?: number;
+  /**
+   * TCP connect time of the final attempt, including the TLS handshake (ms). Only available where
+   * the runtime records resource timing
+   */
+  connect?: number;
+  /**
+   * TLS handshake time of the final attempt (ms). Only available where the runtime records
+   * resource timing
+   */
+  tls?: number;
+  /**
+   * Time from sending the final attempt until its response was received (ms)
+   */
+  response?: number;
+  /**
+   * Total time spent on the call, including retries and retry delays (ms)
+   */
+  total: number;
+}
+
+export interface RequestMetrics {
+  /**
+   * Number of attempts made, including retries
+   */
+  attempts: number;
+  outcome: RequestOutcome;
+  status?: number;
+  timings: RequestTimings;
+}
+
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Receives client metrics. Counters are incremented with `increment` and histogram values are
+ * recorded with `observe`.
+ */
+export interface MetricsSink {
+  increment(name: string, labels: MetricLabels, value?: number): void;
+  observe(name: string, labels: MetricLabels, value: number): void;
+}
+
+export interface MetricsOptions {
+  sink: MetricsSink;
+  /**
+   * Route templates used as the `route` label, e.g. `/users/:id`. URLs that don't match any of
+   * them are labelled with their path, with ids replaced by `:id`
+   */
+  routes?: Route[];
+}
+
+/**
+ * Names of the metrics recorded by the client
+ */
+export const METRIC_NAMES = {
+  /**
+   * Counter of client calls by client, method, route, status and outcome
+   */
+  requests: 'http_client_requests_total',
+  /**
+   * Histogram of the total call duration in seconds, including retries
+   */
+  requestDuration: 'http_client_request_duration_seconds',
+  /**
+   * Counter of attempts (the first one and every retry) by client, method, route and status
+   */
+  attempts: 'http_client_attempts_total',
+  /**
+   * Histogram of the duration of each attempt in seconds
+   */
+  attemptDuration: 'http_client_attempt_duration_seconds',
+  /**
+   * Counter of hedged GET requests sent, by client, method, route and whether the hedge won
+   */
+  hedges: 'http_client_hedges_total',
+} as const;
+
+const METRIC_HELP: Record<string, string> = {
+  [METRIC_NAMES.requests]: 'Total number of client calls',
+  [METRIC_NAMES.requestDuration]: 'Duration of client calls in seconds, including retries',
+  [METRIC_NAMES.attempts]: 'Total number of request attempts, including retries',
+  [METRIC_NAMES.attemptDuration]: 'Duration of request attempts in seconds',
+  [METRIC_NAMES.hedges]: 'Total number of hedged requests, by whether they answered first',
+};
+
+/**
+ * Matches path segments that look like ids: numbers, UUIDs and long hex strings
+ */
+const ID_SEGMENT_PATTERN =
+  /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,})$/i;
+
+/**
+ * Gets the `route` label for a request URL
+ *
+ * @param url - The request URL
+ * @param routes - Route templates to label requests with
+ * @returns The matching route template, or the path with ids replaced by `:id`
+ */
+export const getRouteLabel = (url: string, routes: Route[] = []): string => {
+  const route = routes.find(route => matchRoute(route, url));
+
+  if (route !== undefined) {
+    return typeof route === 'string' ? route : route.source;
+  }
+
+  return getPath(url)
+    .split('/')
+    .map(segment => (ID_SEGMENT_PATTERN.test(segment) ? ':id' : segment))
+    .join('/');
+};
+
+/**
+ * Gets the DNS, connect and TLS timings for a URL from the runtime's resource timing entries,
+ * where available
+ *
+ * @param url - The absolute request URL
+ * @returns The timings
+ */
+export const getConnectionTimings = (
+  url: string
+): Pick<RequestTimings, 'dns' | 'connect' | 'tls'> => {
+  const performance: any = (globalThis as any).performance;
+
+  if (typeof performance?.getEntriesByName !== 'function') {
+    return {};
+  }
+
+  const entries = performance.getEntriesByName(url, 'resource');
+  const entry = entries[entries.length - 1];
+
+  if (!entry || !entry.connectEnd) {
+    return {};
+  }
+
+  return {
+    dns: entry.domainLookupEnd - entry.domainLookupStart,
+    connect: entry.connectEnd - entry.connectStart,
+    ...(entry.secureConnectionStart > 0 && {
+      tls: entry.connectEnd - entry.secureConnectionStart,
+    }),
+  };
+};
+
+export interface PrometheusMetricsOptions {
+  /**
+   * Histogram buckets. Defaults to `[0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]`
+   */
+  buckets?: number[];
+}
+
+interface Histogram {
+  labels: MetricLabels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Escapes a label value for the Prometheus text format
+ */
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+/**
+ * Formats labels for the Prometheus text format
+ */
+const formatLabels = (labels: MetricLabels): string => {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map(name => `${name}="${escapeLabelValue(labels[name])}"`);
+
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+};
+
+/**
+ * In-memory metrics sink that renders the Prometheus text exposition format, e.g. for a
+ * `/metrics` endpoint
+ */
+export class PrometheusMetrics implements MetricsSink {
+  buckets: number[];
+
+  private counters = new Map<string, Map<string, { labels: MetricLabels; value: number }>>();
+  private histograms = new Map<string, Map<string, Histogram>>();
+
+  constructor(options: PrometheusMetricsOptions = {}) {
+    this.buckets = [
+      ...(options.buckets || [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]),
+    ].sort((a, b) => a - b);
+  }
+
+  increment(name: string, labels: MetricLabels, value = 1) {
+    const series = this.getSeries(this.counters, name);
+    const key = formatLabels(labels);
+    const counter = series.get(key) || { labels, value: 0 };
+
+    counter.value += value;
+    series.set(key, counter);
+  }
+
+  observe(name: string, labels: MetricLabels, value: number) {
+    const series = this.getSeries(this.histograms, name);
+    const key = formatLabels(labels);
+    const histogram = series.get(key) || {
+      labels,
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        histogram.buckets[i]++;
+      }
+    });
+    histogram.sum += value;
+    histogram.count++;
+    series.set(key, histogram);
+  }
+
+  /**
+   * Clears all recorded metrics
+   */
+  reset() {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  /**
+   * Renders the recorded metrics in the Prometheus text exposition format
+   *
+   * @returns The metrics text
+   */
+  toString(): string {
+    const lines: string[] = [];
+
+    this.counters.forEach((series, name) => {
+      this.addHeader(lines, name, 'counter');
+      series.forEach(({ labels, value }) => {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      });
+    });
+
+    this.histograms.forEach((series, name) => {
+      this.addHeader(lines, name, 'histogram');
+      series.forEach(({ labels, buckets, sum, count }) => {
+        this.buckets.forEach((bound, i) => {
+          lines.push(
+            `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`
+          );
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      });
+    });
+
+    return lines.length ? `${lines.join('\n')}\n` : '';
+  }
+
+  private addHeader(lines: string[], name: string, type: 'counter' | 'histogram') {
+    if (METRIC_HELP[name]) {
+      lines.push(`# HELP ${name} ${METRIC_HELP[name]}`);
+    }
+
+    lines.push(`# TYPE ${name} ${type}`);
+  }
+
+  private getSeries<V>(metrics: Map<string, Map<string, V>>, name: string): Map<string, V> {
+    let series = metrics.get(name);
+
+    if (!series) {
+      series = new Map();
+      metrics.set(name, series);
+    }
+
+    return series;
+  }
+}
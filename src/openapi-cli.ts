@@ -0,0 +1,100 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { generateClientFromFile, type GenerateClientOptions } from './openapi';
+
+const USAGE = `Usage: axios-retry-client-openapi <input> [options]
+
+Generates a typed AxiosRetryClient subclass from an OpenAPI 3 JSON or YAML document.
+
+Options:
+  -o, --output <file>           Write the client to a file instead of stdout
+  -n, --class-name <name>       Name of the generated class
+  -i, --import-path <path>      Module the client is imported from
+  -r, --idempotent-retries <n>  Retries for operations marked x-idempotent (default: 3)
+  -h, --help                    Show this help
+`;
+
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const defaultIo: CliIo = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+/**
+ * Runs the `axios-retry-client-openapi` command
+ *
+ * @param args - The command line arguments, without the node and script paths
+ * @param io - Where to write output
+ * @returns The exit code
+ */
+export const main = async (args: string[], io: CliIo = defaultIo): Promise<number> => {
+  const options: GenerateClientOptions = {};
+  let input: string | undefined;
+  let output: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[i + 1];
+
+    if (arg === '-h' || arg === '--help') {
+      io.stdout(USAGE);
+      return 0;
+    }
+
+    if (!arg.startsWith('-')) {
+      if (input !== undefined) {
+        io.stderr(`Unexpected argument ${arg}\n\n${USAGE}`);
+        return 1;
+      }
+
+      input = arg;
+      continue;
+    }
+
+    if (value === undefined || value.startsWith('-')) {
+      io.stderr(`Missing value for ${arg}\n\n${USAGE}`);
+      return 1;
+    }
+
+    i++;
+
+    if (arg === '-o' || arg === '--output') {
+      output = value;
+    } else if (arg === '-n' || arg === '--class-name') {
+      options.className = value;
+    } else if (arg === '-i' || arg === '--import-path') {
+      options.importPath = value;
+    } else if ((arg === '-r' || arg === '--idempotent-retries') && /^\d+$/.test(value)) {
+      options.idempotentRetries = Number(value);
+    } else {
+      io.stderr(`Unknown option ${arg} ${value}\n\n${USAGE}`);
+      return 1;
+    }
+  }
+
+  if (input === undefined) {
+    io.stderr(USAGE);
+    return 1;
+  }
+
+  try {
+    const source = await generateClientFromFile(input, options);
+
+    if (output === undefined) {
+      io.stdout(source);
+    } else {
+      await mkdir(dirname(output), { recursive: true });
+      await writeFile(output, source);
+      io.stderr(`Wrote ${output}\n`);
+    }
+
+    return 0;
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+};
@@ -0,0 +1,404 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { stringify } from 'yaml';
+import { main } from './openapi-cli';
+import {
+  generateClient,
+  generateClientFromFile,
+  readOpenApiDocument,
+  type OpenApiDocument,
+} from './openapi';
+import { MockAdapter } from './testing';
+
+const petstore: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store', version: '1.2.0' },
+  servers: [
+    { url: 'https://{region}.pets.example.com/v1', variables: { region: { default: 'eu' } } },
+  ],
+  'x-retry': { retries: 1 },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        description: 'A pet',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string' },
+          tag: { type: 'string', nullable: true, description: 'A free form tag' },
+          status: { $ref: '#/components/schemas/Status' },
+          'owner-id': { type: 'string', deprecated: true },
+        },
+      },
+      NewPet: {
+        allOf: [
+          { $ref: '#/components/schemas/Pet' },
+          { type: 'object', properties: { microchip: { type: 'string' } } },
+        ],
+      },
+      Status: { type: 'string', enum: ['available', 'sold'] },
+    },
+    parameters: {
+      PetId: { name: 'petId', in: 'path', required: true, schema: { type: 'integer' } },
+    },
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        summary: 'List all pets',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer' } },
+          { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+        ],
+        responses: {
+          '200': {
+            description: 'The pets',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        operationId: 'createPet',
+        'x-idempotent': true,
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/NewPet' } } },
+        },
+        responses: {
+          '201': {
+            description: 'Created',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+          },
+        },
+      },
+    },
+    '/pets/{petId}': {
+      parameters: [{ $ref: '#/components/parameters/PetId' } as any],
+      get: {
+        operationId: 'show-pet-by-id',
+        'x-retry': { retries: 2, backoff: 'linear' },
+        responses: {
+          '200': {
+            description: 'The pet',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+          },
+        },
+      },
+      put: {
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['name'],
+                properties: { name: { type: 'string' } },
+              },
+            },
+          },
+        },
+        responses: { '204': { description: 'Updated' } },
+      },
+      delete: {
+        operationId: 'deletePet',
+        deprecated: true,
+        parameters: [
+          {
+            name: 'If-Match',
+            in: 'header',
+            required: true,
+            description: 'The ETag of the pet',
+            schema: { type: 'string' },
+          },
+        ],
+        'x-retry': false,
+        responses: { '204': { description: 'Deleted' } },
+      },
+    },
+    '/health': {
+      get: {
+        operationId: 'get',
+        responses: {
+          '200': { description: 'OK', content: { 'text/plain': { schema: { type: 'string' } } } },
+        },
+      },
+    },
+  },
+};
+
+describe('openapi', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'axios-retry-client-openapi-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('generateClient', () => {
+    it('should generate types for the schemas', () => {
+      const source = generateClient(petstore);
+
+      expect(source).toContain(
+        [
+          '/**',
+          ' * A pet',
+          ' */',
+          'export interface Pet {',
+          '  id: number;',
+          '  name: string;',
+          '  /**',
+          '   * A free form tag',
+          '   */',
+          '  tag?: string | null;',
+          '  status?: Status;',
+          '  /**',
+          '   * @deprecated',
+          '   */',
+          '  "owner-id"?: string;',
+          '}',
+        ].join('\n')
+      );
+      expect(source).toContain('export type NewPet = Pet & {\n  microchip?: string;\n};');
+      expect(source).toContain('export type Status = "available" | "sold";');
+      expect(source).toContain(
+        'export interface ListPetsQuery {\n  limit?: number;\n  tags?: Array<string>;\n}'
+      );
+    });
+
+    it('should generate a method per operation', () => {
+      const source = generateClient(petstore);
+
+      expect(source).toContain('export class PetStoreClient extends AxiosRetryClient {');
+      expect(source).toContain('baseURL: "https://eu.pets.example.com/v1"');
+      expect(source).toContain(
+        'async listPets(query: ListPetsQuery = {}, config: AxiosRetryClientRequestConfig = {}) {'
+      );
+      expect(source).toContain(
+        'async createPet(body: NewPet, config: AxiosRetryClientRequestConfig = {}) {'
+      );
+      expect(source).toContain(
+        'async showPetById(petId: number, config: AxiosRetryClientRequestConfig = {}) {'
+      );
+      expect(source).toContain(
+        'async putPetsByPetId(petId: number, body?: PutPetsByPetIdBody, config'
+      );
+      expect(source).toContain(
+        'return this.get<string>(`/health`, { ...config, retryConfig: { retries: 1, ...config.retryConfig } });'
+      );
+      expect(source).toContain('async getOperation(');
+      expect(source).toContain(
+        [
+          '  /**',
+          '   * POST /pets',
+          '   *',
+          '   * @param body - The request body',
+          '   * @param config - The request config',
+          '   */',
+        ].join('\n')
+      );
+      expect(source).toMatch(/@deprecated\n {3}\*\/\n {2}async deletePet\(/);
+      expect(source).toContain(
+        'export interface DeletePetHeaders {\n  /**\n   * The ETag of the pet\n   */\n  "If-Match": string;\n}'
+      );
+      expect(source).toContain(
+        'async deletePet(petId: number, headers: DeletePetHeaders, config: AxiosRetryClientRequestConfig = {}) {'
+      );
+      expect(source).toContain('headers: { ...config.headers, ...headers }');
+    });
+
+    it('should generate retry configs from vendor extensions', () => {
+      const source = generateClient(petstore, { idempotentRetries: 5 });
+
+      expect(source).toContain(
+        'retryConfig: { retries: 1, retryCondition: isNetworkOrRetryableError, ...config.retryConfig }'
+      );
+      expect(source).toContain(
+        'retryConfig: { retries: 2, backoff: "linear", ...config.retryConfig }'
+      );
+      expect(source).toContain('retryConfig: { retries: 0, ...config.retryConfig }');
+      expect(source).toContain(
+        'import { AxiosRetryClient, isNetworkOrRetryableError, type AxiosRetryClientOptions'
+      );
+
+      const withoutRetries = generateClient(
+        {
+          ...petstore,
+          'x-retry': {},
+          paths: { '/pets': { post: { ...petstore.paths!['/pets'].post!, 'x-retry': {} } } },
+        },
+        { idempotentRetries: 5 }
+      );
+
+      expect(withoutRetries).toContain(
+        'retryConfig: { retries: 5, retryCondition: isNetworkOrRetryableError,'
+      );
+    });
+
+    it('should take path params missing from the parameters as strings', () => {
+      const source = generateClient({
+        openapi: '3.1.0',
+        paths: {
+          '/orgs/{org-id}/pets/{petId}': {
+            get: {
+              operationId: 'getOrgPet',
+              parameters: [
+                { name: 'petId', in: 'path', required: true, schema: { type: 'integer' } },
+              ],
+            },
+          },
+        },
+      });
+
+      expect(source).toContain(
+        'async getOrgPet(petId: number, orgId: string, config: AxiosRetryClientRequestConfig = {}) {'
+      );
+      expect(source).toContain(
+        '`/orgs/${encodeURIComponent(String(orgId))}/pets/${encodeURIComponent(String(petId))}`'
+      );
+    });
+
+    it('should reject cookie params', () => {
+      expect(() =>
+        generateClient({
+          openapi: '3.1.0',
+          paths: {
+            '/me': {
+              get: { parameters: [{ name: 'session', in: 'cookie', schema: { type: 'string' } }] },
+            },
+          },
+        })
+      ).toThrow("Cookie params aren't supported (GET /me: session)");
+    });
+
+    it('should reject documents that are not OpenAPI 3', () => {
+      expect(() => generateClient({ swagger: '2.0' } as any)).toThrow(
+        'Unsupported OpenAPI version undefined, expected 3.x'
+      );
+    });
+
+    it('should generate a working client', async () => {
+      const file = join(directory, 'pet-store-client.ts');
+      writeFileSync(
+        file,
+        generateClient(petstore, { importPath: resolve(__dirname, 'index').replace(/\\/g, '/') })
+      );
+
+      const { PetStoreClient } = require(file);
+      const client = new PetStoreClient({ retryConfig: { retryDelay: () => 1 } });
+      const mock = new MockAdapter().attach(client);
+
+      expect(client.baseURL).toBe('https://eu.pets.example.com/v1');
+
+      mock.onGet('/pets').reply(200, [{ id: 1, name: 'Rex' }]);
+      mock.onPost('/pets').replyOnce(503).reply(201, { id: 2, name: 'Tom' });
+      mock.onGet('/pets/:id').replyOnce(503).replyOnce(503).reply(200, { id: 3, name: 'Kit' });
+      mock.onDelete('/pets/:id').reply(503);
+
+      expect((await client.listPets({ limit: 10, tags: ['a', 'b'] })).data).toEqual([
+        { id: 1, name: 'Rex' },
+      ]);
+      expect((await client.createPet({ id: 2, name: 'Tom' })).data).toEqual({ id: 2, name: 'Tom' });
+      expect((await client.showPetById(3)).data).toEqual({ id: 3, name: 'Kit' });
+      await expect(client.deletePet(4, { 'If-Match': '"v1"' })).rejects.toThrow();
+
+      expect(mock.callsTo('GET', '/pets')[0].query).toEqual({ limit: '10', tags: ['a', 'b'] });
+      expect(mock.callsTo('POST')).toHaveLength(2);
+      expect(mock.callsTo('GET', '/pets/:id')).toHaveLength(3);
+      expect(mock.callsTo('DELETE')).toHaveLength(1);
+      expect(mock.callsTo('DELETE')[0].headers['if-match']).toBe('"v1"');
+    });
+  });
+
+  describe('readOpenApiDocument', () => {
+    it('should read JSON and YAML documents', async () => {
+      writeFileSync(join(directory, 'api.json'), JSON.stringify(petstore));
+      writeFileSync(join(directory, 'api.yaml'), stringify(petstore));
+
+      expect(await readOpenApiDocument(join(directory, 'api.json'))).toEqual(petstore);
+      expect(await readOpenApiDocument(join(directory, 'api.yaml'))).toEqual(petstore);
+      expect(await generateClientFromFile(join(directory, 'api.yaml'))).toBe(
+        generateClient(petstore)
+      );
+    });
+
+    it('should explain how to read YAML documents without the yaml package', async () => {
+      writeFileSync(join(directory, 'api.yaml'), stringify(petstore));
+      jest.doMock('yaml', () => {
+        throw new Error("Cannot find module 'yaml'");
+      });
+
+      try {
+        await expect(readOpenApiDocument(join(directory, 'api.yaml'))).rejects.toThrow(
+          'Reading YAML OpenAPI documents requires the `yaml` package'
+        );
+      } finally {
+        jest.dontMock('yaml');
+      }
+    });
+  });
+
+  describe('cli', () => {
+    const run = async (...args: string[]) => {
+      let stdout = '';
+      let stderr = '';
+      const code = await main(args, {
+        stdout: text => {
+          stdout += text;
+        },
+        stderr: text => {
+          stderr += text;
+        },
+      });
+
+      return { code, stdout, stderr };
+    };
+
+    it('should write the client to a file', async () => {
+      const input = join(directory, 'api.yml');
+      const output = join(directory, 'generated', 'client.ts');
+      writeFileSync(input, stringify(petstore));
+
+      const result = await run(input, '-o', output, '--class-name', 'Pets', '-r', '2');
+
+      expect(result.code).toBe(0);
+      expect(result.stderr).toBe(`Wrote ${output}\n`);
+      expect(readFileSync(output, 'utf8')).toBe(
+        generateClient(petstore, { className: 'Pets', idempotentRetries: 2 })
+      );
+    });
+
+    it('should print the client to stdout', async () => {
+      const input = join(directory, 'api.json');
+      writeFileSync(input, JSON.stringify(petstore));
+
+      const result = await run(input, '--import-path', '../client');
+
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("} from '../client';");
+    });
+
+    it('should fail with usage on bad arguments', async () => {
+      expect((await run()).code).toBe(1);
+      expect((await run('a.json', 'b.json')).stderr).toContain('Unexpected argument b.json');
+      expect((await run('a.json', '--output')).stderr).toContain('Missing value for --output');
+      expect((await run('a.json', '--nope', 'x')).stderr).toContain('Unknown option --nope');
+      expect((await run('--help')).stdout).toContain('Usage: axios-retry-client-openapi');
+    });
+
+    it('should report errors', async () => {
+      const result = await run(join(directory, 'missing.json'));
+
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('ENOENT');
+    });
+  });
+});
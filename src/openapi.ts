@@ -0,0 +1,809 @@
+import { readFile } from 'fs/promises';
+import { AxiosRetryClient, type AxiosRetryClientRetryConfig } from './axios-retry-client';
+
+/**
+ * The parts of a JSON schema (as used by OpenAPI 3.0 and 3.1) the generator reads
+ */
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  description?: string;
+  deprecated?: boolean;
+}
+
+export interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiRequestBody {
+  $ref?: string;
+  required?: boolean;
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  $ref?: string;
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+/**
+ * Retry policy in the `x-retry` extension of an operation, path or document. `false` disables
+ * retries.
+ */
+export type OpenApiRetryExtension =
+  | false
+  | Pick<
+      AxiosRetryClientRetryConfig,
+      'retries' | 'backoff' | 'delayFactor' | 'respectRetryAfter' | 'maxRetryAfter'
+    >;
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses?: Record<string, OpenApiResponse>;
+  'x-retry'?: OpenApiRetryExtension;
+  /**
+   * Marks an operation as safe to retry, whatever its method
+   */
+  'x-idempotent'?: boolean;
+}
+
+export type OpenApiPathItem = {
+  parameters?: OpenApiParameter[];
+  'x-retry'?: OpenApiRetryExtension;
+} & { [method in OperationMethod]?: OpenApiOperation };
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  servers?: Array<{ url: string; variables?: Record<string, { default: string }> }>;
+  paths?: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    requestBodies?: Record<string, OpenApiRequestBody>;
+    responses?: Record<string, OpenApiResponse>;
+  };
+  'x-retry'?: OpenApiRetryExtension;
+}
+
+export interface GenerateClientOptions {
+  /**
+   * Name of the generated class. Defaults to the document title in PascalCase followed by `Client`
+   */
+  className?: string;
+  /**
+   * Where the generated code imports the client from. Defaults to
+   * `@reggieofarrell/axios-retry-client`
+   */
+  importPath?: string;
+  /**
+   * Retries for operations marked with `x-idempotent: true` that don't set `x-retry.retries`.
+   * Defaults to 3
+   */
+  idempotentRetries?: number;
+}
+
+const OPERATION_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+
+type OperationMethod = (typeof OPERATION_METHODS)[number];
+
+const RESERVED_WORDS = new Set(
+  (
+    'break case catch class const continue debugger default delete do else enum export extends ' +
+    'false finally for function if import in instanceof new null return super switch this throw ' +
+    'true try typeof var void while with yield let static implements interface package private ' +
+    'protected public await'
+  ).split(' ')
+);
+
+/**
+ * Splits a name into words, e.g. `list-pets_byId` into `list`, `pets`, `by` and `Id`
+ *
+ * @param name - The name
+ * @returns The words
+ */
+const getWords = (name: string): string[] =>
+  name
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z\d]+/)
+    .filter(Boolean);
+
+/**
+ * @param name - A name
+ * @returns The name in PascalCase, as a valid identifier
+ */
+const toPascalCase = (name: string): string => {
+  const pascal = getWords(name)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+
+  return /^\d/.test(pascal) ? `_${pascal}` : pascal || '_';
+};
+
+/**
+ * @param name - A name
+ * @returns The name in camelCase, as a valid identifier
+ */
+const toCamelCase = (name: string): string => {
+  const pascal = toPascalCase(name);
+  const camel = pascal[0] === '_' ? pascal : pascal[0].toLowerCase() + pascal.slice(1);
+
+  return RESERVED_WORDS.has(camel) ? `_${camel}` : camel;
+};
+
+/**
+ * @param name - A property name
+ * @returns The name, quoted if it isn't a valid identifier
+ */
+const toPropertyName = (name: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+
+/**
+ * Renders a doc comment
+ *
+ * @param lines - The lines of the comment
+ * @param indent - The indentation
+ * @returns The comment, or an empty string when there are no lines
+ */
+const renderComment = (lines: Array<string | undefined>, indent: string): string => {
+  const content = lines
+    .filter((line): line is string => line !== undefined)
+    .flatMap(line => line.split('\n'))
+    .map(line => line.replace(/\*\//g, '*\\/').trimEnd());
+
+  while (content.length && !content[content.length - 1]) {
+    content.pop();
+  }
+
+  if (!content.length) {
+    return '';
+  }
+
+  return `${indent}/**\n${content.map(line => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+};
+
+/**
+ * Generates the source of a TypeScript module with the types of an OpenAPI 3 document and a
+ * class extending `AxiosRetryClient` with a method per operation.
+ */
+class ClientGenerator {
+  private declarations: string[] = [];
+  private typeNames = new Map<string, string>();
+  private usedTypeNames = new Set<string>();
+  private usesRetryCondition = false;
+  private className: string;
+
+  constructor(
+    private document: OpenApiDocument,
+    private options: GenerateClientOptions
+  ) {
+    this.className = this.reserveTypeName(
+      options.className || `${document.info?.title || 'Api'} Client`
+    );
+
+    for (const name of Object.keys(document.components?.schemas || {})) {
+      this.typeNames.set(`#/components/schemas/${name}`, this.reserveTypeName(name));
+    }
+  }
+
+  generate(): string {
+    const { document, className } = this;
+    const importPath = this.options.importPath || '@reggieofarrell/axios-retry-client';
+
+    for (const [name, schema] of Object.entries(document.components?.schemas || {})) {
+      this.declareSchema(this.typeNames.get(`#/components/schemas/${name}`)!, schema);
+    }
+
+    const methods = this.generateMethods();
+    const baseURL = this.getBaseURL();
+    const imports = [
+      'AxiosRetryClient',
+      ...(this.usesRetryCondition ? ['isNetworkOrRetryableError'] : []),
+      'type AxiosRetryClientOptions',
+      'type AxiosRetryClientRequestConfig',
+    ];
+    const optionsType =
+      baseURL === undefined
+        ? 'AxiosRetryClientOptions'
+        : `Omit<AxiosRetryClientOptions, 'baseURL'> & { baseURL?: string }`;
+
+    return [
+      `// Generated from ${document.info?.title || 'an OpenAPI document'}${
+        document.info?.version ? ` ${document.info.version}` : ''
+      } by axios-retry-client-openapi. Do not edit.\n`,
+      `import { ${imports.join(', ')} } from '${importPath}';\n`,
+      ...this.declarations,
+      `export class ${className} extends AxiosRetryClient {\n` +
+        `  constructor(config: ${optionsType}${baseURL === undefined ? '' : ' = {}'}) {\n` +
+        `    super({ name: '${className}', ${
+          baseURL === undefined ? '' : `baseURL: ${JSON.stringify(baseURL)}, `
+        }...config });\n` +
+        `  }\n` +
+        methods.map(method => `\n${method}`).join('') +
+        `}\n`,
+    ].join('\n');
+  }
+
+  /**
+   * @returns The URL of the first server, with its variables set to their defaults
+   */
+  private getBaseURL(): string | undefined {
+    const server = this.document.servers?.[0];
+
+    return server?.url.replace(
+      /\{([^}]+)\}/g,
+      (match, name: string) => server.variables?.[name]?.default ?? match
+    );
+  }
+
+  /**
+   * @param name - The wanted name
+   * @returns A type name that isn't used yet
+   */
+  private reserveTypeName(name: string): string {
+    const base = toPascalCase(name);
+    let typeName = base;
+
+    for (let i = 2; this.usedTypeNames.has(typeName); i++) {
+      typeName = `${base}${i}`;
+    }
+
+    this.usedTypeNames.add(typeName);
+    return typeName;
+  }
+
+  /**
+   * Declares a named type for a schema
+   *
+   * @param name - The type name
+   * @param schema - The schema
+   */
+  private declareSchema(name: string, schema: OpenApiSchema) {
+    const comment = renderComment(
+      [schema.description, schema.deprecated ? '@deprecated' : undefined],
+      ''
+    );
+    const isInterface =
+      !schema.$ref &&
+      !schema.allOf &&
+      !schema.oneOf &&
+      !schema.anyOf &&
+      !schema.enum &&
+      !schema.nullable &&
+      !Array.isArray(schema.type) &&
+      (schema.type === 'object' || (!schema.type && !!schema.properties)) &&
+      !!schema.properties;
+
+    this.declarations.push(
+      isInterface
+        ? `${comment}export interface ${name} ${this.renderObject(schema, '')}\n`
+        : `${comment}export type ${name} = ${this.renderType(schema, '')};\n`
+    );
+  }
+
+  /**
+   * Returns the type of a schema. Object types get a named type, so that method signatures stay
+   * readable.
+   *
+   * @param name - The name for the type
+   * @param schema - The schema
+   * @returns The type
+   */
+  private getNamedType(name: string, schema: OpenApiSchema): string {
+    const type = this.renderType(schema, '');
+
+    if (!type.includes('\n')) {
+      return type;
+    }
+
+    const typeName = this.reserveTypeName(name);
+
+    this.declareSchema(typeName, schema);
+    return typeName;
+  }
+
+  /**
+   * Resolves a `$ref` to a component
+   *
+   * @param value - The value, possibly a reference
+   * @returns The referenced value
+   */
+  private resolve<T extends { $ref?: string }>(value: T): T {
+    if (!value.$ref) {
+      return value;
+    }
+
+    const target = value.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<any>((current, key) => current?.[key], this.document);
+
+    if (!target) {
+      throw new Error(`Unresolved reference ${value.$ref}`);
+    }
+
+    return this.resolve(target as T);
+  }
+
+  /**
+   * Renders the TypeScript type of a schema
+   *
+   * @param schema - The schema
+   * @param indent - The indentation of the line the type starts on
+   * @returns The type
+   */
+  private renderType(schema: OpenApiSchema | boolean | undefined, indent: string): string {
+    if (schema === undefined || schema === true) {
+      return 'unknown';
+    }
+
+    if (schema === false) {
+      return 'never';
+    }
+
+    const type = this.renderBaseType(schema, indent);
+
+    return schema.nullable && type !== 'unknown' ? `${type} | null` : type;
+  }
+
+  private renderBaseType(schema: OpenApiSchema, indent: string): string {
+    if (schema.$ref) {
+      const name = this.typeNames.get(schema.$ref);
+
+      return name || this.renderType(this.resolve(schema), indent);
+    }
+
+    if (schema.const !== undefined) {
+      return JSON.stringify(schema.const);
+    }
+
+    if (schema.enum) {
+      return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+    }
+
+    if (schema.allOf) {
+      return schema.allOf.map(item => this.renderMember(item, indent)).join(' & ');
+    }
+
+    if (schema.oneOf || schema.anyOf) {
+      return (schema.oneOf || schema.anyOf)!
+        .map(item => this.renderMember(item, indent))
+        .join(' | ');
+    }
+
+    if (Array.isArray(schema.type)) {
+      return schema.type.map(type => this.renderBaseType({ ...schema, type }, indent)).join(' | ');
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return schema.format === 'binary' ? 'Blob' : 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return `Array<${this.renderType(schema.items, indent)}>`;
+      case 'object':
+        return this.renderObject(schema, indent);
+      default:
+        return schema.properties || schema.additionalProperties
+          ? this.renderObject(schema, indent)
+          : 'unknown';
+    }
+  }
+
+  /**
+   * Renders a member of a union or intersection, wrapping it in parens when needed
+   */
+  private renderMember(schema: OpenApiSchema, indent: string): string {
+    const type = this.renderType(schema, indent);
+
+    return / [|&] /.test(type) && !type.startsWith('{') ? `(${type})` : type;
+  }
+
+  /**
+   * Renders an object type
+   *
+   * @param schema - The object schema
+   * @param indent - The indentation of the line the type starts on
+   * @returns The type
+   */
+  private renderObject(schema: OpenApiSchema, indent: string): string {
+    const required = new Set(schema.required || []);
+    const inner = `${indent}  `;
+    const members = Object.entries(schema.properties || {}).map(
+      ([name, property]) =>
+        renderComment(
+          [property.description, property.deprecated ? '@deprecated' : undefined],
+          inner
+        ) +
+        `${inner}${toPropertyName(name)}${required.has(name) ? '' : '?'}: ${this.renderType(
+          property,
+          inner
+        )};`
+    );
+
+    if (schema.additionalProperties !== undefined && schema.additionalProperties !== false) {
+      members.push(
+        `${inner}[key: string]: ${this.renderType(schema.additionalProperties, inner)};`
+      );
+    }
+
+    return members.length ? `{\n${members.join('\n')}\n${indent}}` : 'Record<string, unknown>';
+  }
+
+  /**
+   * Reads the JSON (or text) schema of a request body or response
+   *
+   * @param content - The content by media type
+   * @returns The schema and whether it's JSON, or undefined if there's no content
+   */
+  private getContentSchema(
+    content: Record<string, OpenApiMediaType> | undefined
+  ): { schema: OpenApiSchema | undefined; json: boolean } | undefined {
+    const entries = Object.entries(content || {});
+
+    if (!entries.length) {
+      return undefined;
+    }
+
+    const json = entries.find(([mediaType]) => /[/+]json\b/i.test(mediaType));
+
+    if (json) {
+      return { schema: json[1].schema, json: true };
+    }
+
+    const text = entries.find(([mediaType]) => /^text\//i.test(mediaType));
+
+    return { schema: text ? { type: 'string' } : entries[0][1].schema, json: false };
+  }
+
+  /**
+   * @param operation - The operation
+   * @param name - The base name for an inline type
+   * @returns The response data type, from the first 2xx response (or the default one)
+   */
+  private getResponseType(operation: OpenApiOperation, name: string): string {
+    const responses = operation.responses || {};
+    const key =
+      Object.keys(responses)
+        .filter(status => /^2(\d\d|XX)$/i.test(status))
+        .sort()[0] ?? (responses.default ? 'default' : undefined);
+
+    if (key === undefined) {
+      return 'unknown';
+    }
+
+    const content = this.getContentSchema(this.resolve(responses[key]).content);
+
+    if (!content) {
+      return 'void';
+    }
+
+    return content.schema ? this.getNamedType(`${name}Response`, content.schema) : 'unknown';
+  }
+
+  /**
+   * Builds the retry config literal of an operation from its `x-idempotent` and `x-retry`
+   * extensions
+   *
+   * @param operation - The operation
+   * @param pathItem - The path item
+   * @returns The fields of the retry config literal, or undefined if the client's config applies
+   */
+  private getRetryConfig(operation: OpenApiOperation, pathItem: OpenApiPathItem) {
+    const retry = [operation, pathItem, this.document]
+      .map(item => item['x-retry'])
+      .find(value => value !== undefined);
+
+    if (retry === false) {
+      return 'retries: 0';
+    }
+
+    const config: Record<string, unknown> = { ...retry };
+
+    if (operation['x-idempotent']) {
+      config.retries = config.retries ?? this.options.idempotentRetries ?? 3;
+    }
+
+    const fields = Object.entries(config)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+
+    if (operation['x-idempotent']) {
+      this.usesRetryCondition = true;
+      fields.push('retryCondition: isNetworkOrRetryableError');
+    }
+
+    return fields.length ? fields.join(', ') : undefined;
+  }
+
+  /**
+   * Declares the interface of an operation's query or header params
+   *
+   * @param name - The interface name
+   * @param parameters - The params
+   * @returns The parameter type, with a `= {}` default when no param is required
+   */
+  private generateParamsType(name: string, parameters: OpenApiParameter[]): string {
+    const typeName = this.reserveTypeName(name);
+    const required = parameters.filter(parameter => parameter.required);
+
+    this.declarations.push(
+      `export interface ${typeName} ${this.renderObject(
+        {
+          properties: Object.fromEntries(
+            parameters.map(parameter => [
+              parameter.name,
+              {
+                ...parameter.schema,
+                ...(parameter.description !== undefined && {
+                  description: parameter.description,
+                }),
+              },
+            ])
+          ),
+          required: required.map(parameter => parameter.name),
+        },
+        ''
+      )}\n`
+    );
+
+    return `${typeName}${required.length ? '' : ' = {}'}`;
+  }
+
+  private generateMethods(): string[] {
+    const methods: string[] = [];
+    const usedNames = new Set(Object.getOwnPropertyNames(AxiosRetryClient.prototype));
+
+    for (const [path, pathItem] of Object.entries(this.document.paths || {})) {
+      for (const method of OPERATION_METHODS) {
+        const operation = pathItem[method];
+
+        if (!operation) {
+          continue;
+        }
+
+        let methodName = toCamelCase(
+          operation.operationId || `${method} ${path.replace(/\{([^}]+)\}/g, 'by $1')}`
+        );
+
+        while (usedNames.has(methodName)) {
+          methodName = `${methodName}Operation`;
+        }
+
+        usedNames.add(methodName);
+        methods.push(this.generateMethod(methodName, method, path, operation, pathItem));
+      }
+    }
+
+    return methods;
+  }
+
+  /**
+   * Generates the method for an operation
+   *
+   * @param methodName - The method name
+   * @param method - The HTTP method
+   * @param path - The path template
+   * @param operation - The operation
+   * @param pathItem - The path item
+   * @returns The method source
+   */
+  private generateMethod(
+    methodName: string,
+    method: OperationMethod,
+    path: string,
+    operation: OpenApiOperation,
+    pathItem: OpenApiPathItem
+  ): string {
+    const typeName = toPascalCase(methodName);
+    const parameters = new Map<string, OpenApiParameter>();
+
+    for (const parameter of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+      const resolved = this.resolve(parameter);
+      parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+    }
+
+    // path params the template names but the document doesn't declare are taken as strings
+    for (const [, name] of path.matchAll(/\{([^}]+)\}/g)) {
+      if (!parameters.has(`path:${name}`)) {
+        parameters.set(`path:${name}`, { name, in: 'path', required: true });
+      }
+    }
+
+    const cookieParams = [...parameters.values()].filter(parameter => parameter.in === 'cookie');
+
+    if (cookieParams.length) {
+      throw new Error(
+        `Cookie params aren't supported (${method.toUpperCase()} ${path}: ${cookieParams
+          .map(parameter => parameter.name)
+          .join(', ')})`
+      );
+    }
+
+    const pathParams = [...parameters.values()].filter(parameter => parameter.in === 'path');
+    const queryParams = [...parameters.values()].filter(parameter => parameter.in === 'query');
+    const headerParams = [...parameters.values()].filter(parameter => parameter.in === 'header');
+    const requestBody = operation.requestBody && this.resolve(operation.requestBody);
+    const bodyContent = requestBody && this.getContentSchema(requestBody.content);
+    const responseType = this.getResponseType(operation, typeName);
+    const args: string[] = [];
+    const docs = [operation.summary, operation.description].filter(
+      (line): line is string => !!line
+    );
+    const paramDocs: string[] = [];
+    const argNames = new Map<string, string>();
+
+    for (const parameter of pathParams) {
+      let argName = toCamelCase(parameter.name);
+
+      while ([...argNames.values(), 'body', 'query', 'headers', 'config'].includes(argName)) {
+        argName = `${argName}Param`;
+      }
+
+      argNames.set(parameter.name, argName);
+      args.push(`${argName}: ${this.renderType(parameter.schema || { type: 'string' }, '  ')}`);
+      paramDocs.push(
+        `@param ${argName} - ${parameter.description || `The ${parameter.name} path param`}`
+      );
+    }
+
+    if (requestBody) {
+      const bodyType = bodyContent?.schema
+        ? this.getNamedType(`${typeName}Body`, bodyContent.schema)
+        : 'unknown';
+
+      args.push(`body${requestBody.required ? '' : '?'}: ${bodyType}`);
+      paramDocs.push(`@param body - ${requestBody.description || 'The request body'}`);
+    }
+
+    if (queryParams.length) {
+      args.push(`query: ${this.generateParamsType(`${typeName}Query`, queryParams)}`);
+      paramDocs.push('@param query - The query params');
+    }
+
+    if (headerParams.length) {
+      args.push(`headers: ${this.generateParamsType(`${typeName}Headers`, headerParams)}`);
+      paramDocs.push('@param headers - The header params');
+    }
+
+    args.push('config: AxiosRetryClientRequestConfig = {}');
+    paramDocs.push('@param config - The request config');
+
+    const url = `\`${path.replace(
+      /\{([^}]+)\}/g,
+      (_, name: string) =>
+        `\${encodeURIComponent(String(${argNames.get(name)}))}`
+    )}\``;
+    const retryConfig = this.getRetryConfig(operation, pathItem);
+    const configFields = [
+      '...config',
+      ...(queryParams.length ? ['params: { ...config.params, ...query }'] : []),
+      ...(headerParams.length ? ['headers: { ...config.headers, ...headers }'] : []),
+      ...(retryConfig ? [`retryConfig: { ${retryConfig}, ...config.retryConfig }`] : []),
+      ...(requestBody && ['get', 'delete', 'head', 'options'].includes(method)
+        ? ['data: body']
+        : []),
+    ];
+    const requestConfig = configFields.length === 1 ? 'config' : `{ ${configFields.join(', ')} }`;
+    const call = ['post', 'put', 'patch'].includes(method)
+      ? `this.${method}<${responseType}>(${url}, ${requestBody ? 'body' : 'undefined'}, ${requestConfig})`
+      : `this.${method}<${responseType}>(${url}, ${requestConfig})`;
+
+    return (
+      renderComment(
+        [
+          ...(docs.length ? [...docs, ''] : []),
+          `${method.toUpperCase()} ${path}`,
+          '',
+          ...paramDocs,
+          operation.deprecated ? '@deprecated' : undefined,
+        ],
+        '  '
+      ) +
+      `  async ${methodName}(${args.join(', ')}) {\n` +
+      `    return ${call};\n` +
+      `  }\n`
+    );
+  }
+}
+
+/**
+ * Generates a TypeScript module from an OpenAPI 3 document: the types of its schemas, query
+ * and header params, request bodies and responses, and a class extending `AxiosRetryClient` with
+ * a method per operation. Throws on operations with cookie params, which aren't supported.
+ *
+ * Retry policies come from the `x-retry` extension (`{ retries, backoff, delayFactor,
+ * respectRetryAfter, maxRetryAfter }`, or `false`) of an operation, its path or the document.
+ * Operations marked `x-idempotent: true` are retried on network errors and 5xx responses
+ * whatever their method.
+ *
+ * @param document - The OpenAPI document
+ * @param options - The generator options
+ * @returns The source of the module
+ */
+export const generateClient = (
+  document: OpenApiDocument,
+  options: GenerateClientOptions = {}
+): string => {
+  if (!/^3\./.test(String(document?.openapi))) {
+    throw new Error(`Unsupported OpenAPI version ${document?.openapi}, expected 3.x`);
+  }
+
+  return new ClientGenerator(document, options).generate();
+};
+
+/**
+ * Loads the `yaml` package, an optional peer dependency only needed to read YAML documents
+ *
+ * @returns The package
+ */
+const loadYaml = async (): Promise<typeof import('yaml')> => {
+  try {
+    return await import('yaml');
+  } catch (error) {
+    throw new Error(
+      'Reading YAML OpenAPI documents requires the `yaml` package, install it with `npm install yaml`',
+      { cause: error }
+    );
+  }
+};
+
+/**
+ * Reads an OpenAPI document from a JSON or YAML file. YAML needs the `yaml` package to be
+ * installed.
+ *
+ * @param path - The file path
+ * @returns The document
+ */
+export const readOpenApiDocument = async (path: string): Promise<OpenApiDocument> => {
+  const source = await readFile(path, 'utf8');
+
+  // YAML is a superset of JSON, but JSON.parse is faster and gives better errors for JSON
+  return /\.json$/i.test(path) ? JSON.parse(source) : (await loadYaml()).parse(source);
+};
+
+/**
+ * Reads an OpenAPI document from a JSON or YAML file and generates a client module from it
+ *
+ * @param path - The file path
+ * @param options - The generator options
+ * @returns The source of the module
+ */
+export const generateClientFromFile = async (
+  path: string,
+  options: GenerateClientOptions = {}
+): Promise<string> => generateClient(await readOpenApiDocument(path), options);
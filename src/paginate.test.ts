@@ -0,0 +1,268 @@
+import type { AxiosResponse } from 'axios';
+import {
+  Paginator,
+  cursorPagination,
+  linkHeaderPagination,
+  offsetPagination,
+  pageNumberPagination,
+  parseLinkHeader,
+  type PageRequest,
+} from './paginate';
+
+const response = (data: any, headers: Record<string, string> = {}) =>
+  ({ data, headers, status: 200, statusText: 'OK', config: {} }) as AxiosResponse;
+
+describe('paginate', () => {
+  describe('parseLinkHeader', () => {
+    it('should parse links by rel', () => {
+      expect(
+        parseLinkHeader(
+          '<https://api.example.com/users?page=3>; rel="next", <https://api.example.com/users?page=1>; rel="first prev"'
+        )
+      ).toEqual({
+        next: 'https://api.example.com/users?page=3',
+        first: 'https://api.example.com/users?page=1',
+        prev: 'https://api.example.com/users?page=1',
+      });
+      expect(parseLinkHeader('<https://api.example.com/users?page=2>;rel=next')).toEqual({
+        next: 'https://api.example.com/users?page=2',
+      });
+    });
+
+    it('should ignore missing or malformed headers', () => {
+      expect(parseLinkHeader(undefined)).toEqual({});
+      expect(parseLinkHeader('https://api.example.com; rel="next"')).toEqual({});
+      expect(parseLinkHeader('<https://api.example.com>; title="no rel"')).toEqual({});
+    });
+  });
+
+  describe('linkHeaderPagination', () => {
+    it('should follow the next link', () => {
+      const strategy = linkHeaderPagination();
+      const request: PageRequest = { url: '/users', params: { active: true } };
+
+      expect(
+        strategy.next(
+          response([1, 2], { link: '</users?page=2&active=true>; rel="next"' }),
+          request
+        )
+      ).toEqual({ items: [1, 2], next: { url: '/users?page=2&active=true', params: {} } });
+      expect(strategy.next(response([3]), request)).toEqual({ items: [3], next: undefined });
+    });
+
+    it('should resolve relative links against the request URL', () => {
+      const strategy = linkHeaderPagination();
+      const page = {
+        ...response([1], { link: '</v2/users?page=2>; rel="next"' }),
+        config: { baseURL: 'https://api.example.com/v2', url: '/users' },
+      } as AxiosResponse;
+
+      expect(strategy.next(page, { url: '/users', params: {} }).next).toEqual({
+        url: 'https://api.example.com/v2/users?page=2',
+        params: {},
+      });
+
+      const second = { ...page, headers: { link: '<?page=3>; rel="next"' } };
+
+      expect(strategy.next(second, { url: '/users', params: {} }).next!.url).toBe(
+        'https://api.example.com/v2/users?page=3'
+      );
+    });
+  });
+
+  describe('cursorPagination', () => {
+    it('should send the next cursor until there is none', () => {
+      const strategy = cursorPagination({ cursor: 'meta.next', param: 'after' });
+      const request: PageRequest = { url: '/users', params: { q: 'a' } };
+
+      expect(strategy.next(response({ data: [1], meta: { next: 'abc' } }), request)).toEqual({
+        items: [1],
+        next: { url: '/users', params: { q: 'a', after: 'abc' } },
+      });
+      expect(
+        strategy.next(response({ data: [2], meta: { next: null } }), request).next
+      ).toBeUndefined();
+    });
+
+    it('should stop when the cursor does not change', () => {
+      const strategy = cursorPagination();
+
+      expect(
+        strategy.next(response({ items: [1], next_cursor: 'abc' }), {
+          url: '/users',
+          params: { cursor: 'abc' },
+        }).next
+      ).toBeUndefined();
+    });
+
+    it('should accept custom extractors', () => {
+      const strategy = cursorPagination({
+        items: data => data.users,
+        cursor: (_, res) => res.headers['x-next-cursor'],
+      });
+
+      expect(
+        strategy.next(response({ users: [1] }, { 'x-next-cursor': 'abc' }), {
+          url: '/users',
+          params: {},
+        })
+      ).toEqual({ items: [1], next: { url: '/users', params: { cursor: 'abc' } } });
+    });
+  });
+
+  describe('offsetPagination', () => {
+    it('should request pages by offset until a page is empty', () => {
+      const strategy = offsetPagination({ limit: 2 });
+      const first = strategy.first!({ url: '/users', params: { q: 'a' } });
+
+      expect(first).toEqual({ url: '/users', params: { offset: 0, q: 'a', limit: 2 } });
+
+      const { next } = strategy.next(response({ results: [1, 2] }), first);
+
+      expect(next).toEqual({ url: '/users', params: { offset: 2, q: 'a', limit: 2 } });
+      expect(strategy.next(response({ results: [] }), next!).next).toBeUndefined();
+    });
+
+    it('should keep going after a page capped below the limit', () => {
+      const strategy = offsetPagination({ limit: 100 });
+
+      expect(
+        strategy.next(response([1, 2]), { url: '/users', params: { offset: 0, limit: 100 } }).next
+      ).toEqual({ url: '/users', params: { offset: 2, limit: 100 } });
+    });
+
+    it('should stop when the API says there are no more items', () => {
+      const strategy = offsetPagination({ limit: 2, hasMore: 'has_more' });
+
+      expect(
+        strategy.next(response({ data: [1, 2], has_more: false }), {
+          url: '/users',
+          params: { offset: 0, limit: 2 },
+        }).next
+      ).toBeUndefined();
+    });
+
+    it('should stop once the total is reached', () => {
+      const strategy = offsetPagination({ limit: 2, total: 'total' });
+
+      expect(
+        strategy.next(response({ data: [3, 4], total: 4 }), {
+          url: '/users',
+          params: { offset: 2, limit: 2 },
+        }).next
+      ).toBeUndefined();
+    });
+  });
+
+  describe('pageNumberPagination', () => {
+    it('should request pages by number until a page is empty', () => {
+      const strategy = pageNumberPagination();
+      const first = strategy.first!({ url: '/users', params: {} });
+
+      expect(first).toEqual({ url: '/users', params: { page: 1 } });
+      expect(strategy.next(response([1]), first).next).toEqual({
+        url: '/users',
+        params: { page: 2 },
+      });
+      expect(
+        strategy.next(response([]), { url: '/users', params: { page: 2 } }).next
+      ).toBeUndefined();
+    });
+
+    it('should stop on a short page or the last page', () => {
+      const strategy = pageNumberPagination({
+        pageParam: 'p',
+        start: 0,
+        perPage: 2,
+        perPageParam: 'size',
+        totalPages: 'pages',
+      });
+      const first = strategy.first!({ url: '/users', params: {} });
+
+      expect(first.params).toEqual({ p: 0, size: 2 });
+      expect(strategy.next(response({ data: [1] }), first).next).toBeUndefined();
+      expect(
+        strategy.next(response({ data: [1, 2], pages: 2 }), { url: '/users', params: { p: 1 } })
+          .next
+      ).toBeUndefined();
+    });
+  });
+
+  describe('Paginator', () => {
+    const pages = [[1, 2], [3, 4], [5]];
+    const fetchPage = jest.fn(async (request: PageRequest) => {
+      const page = request.params.page;
+
+      return {
+        request: response(pages[page - 1]),
+        data: pages[page - 1],
+        metrics: { attempts: 1, outcome: 'success' as const, timings: { total: 0 } },
+      };
+    });
+    const strategy = pageNumberPagination({ perPage: 2 });
+
+    beforeEach(() => {
+      fetchPage.mockClear();
+    });
+
+    it('should iterate over items across pages', async () => {
+      const items = [];
+
+      for await (const item of new Paginator({ url: '/users', params: {} }, fetchPage, {
+        strategy,
+      })) {
+        items.push(item);
+      }
+
+      expect(items).toEqual([1, 2, 3, 4, 5]);
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+    });
+
+    it('should iterate over pages', async () => {
+      const paginator = new Paginator({ url: '/users', params: {} }, fetchPage, { strategy });
+      const result = [];
+
+      for await (const page of paginator.pages()) {
+        result.push([page.number, page.request.params.page, page.items]);
+      }
+
+      expect(result).toEqual([
+        [1, 1, [1, 2]],
+        [2, 2, [3, 4]],
+        [3, 3, [5]],
+      ]);
+    });
+
+    it('should stop at the page limit', async () => {
+      const paginator = new Paginator({ url: '/users', params: {} }, fetchPage, {
+        strategy,
+        maxPages: 2,
+      });
+
+      expect(await paginator.toArray()).toEqual([1, 2, 3, 4]);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop at the item limit', async () => {
+      const paginator = new Paginator({ url: '/users', params: {} }, fetchPage, {
+        strategy,
+        maxItems: 3,
+      });
+
+      expect(await paginator.toArray()).toEqual([1, 2, 3]);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fetch more pages when iteration stops early', async () => {
+      const paginator = new Paginator({ url: '/users', params: {} }, fetchPage, { strategy });
+
+      for await (const item of paginator) {
+        if (item === 1) {
+          break;
+        }
+      }
+
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+  });
+});
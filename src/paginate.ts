@@ -0,0 +1,411 @@
+import axios, { type AxiosResponse } from 'axios';
+import type { AxiosRetryClientRequestConfig, AxiosRetryClientResponse } from './axios-retry-client';
+import { getHeader } from './headers';
+
+/**
+ * The URL and query params of a page request
+ */
+export interface PageRequest {
+  url: string;
+  params: Record<string, any>;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  /**
+   * The request for the next page, or undefined if this is the last page
+   */
+  next?: PageRequest | undefined;
+}
+
+/**
+ * Decides how pages are requested and how items are read from them
+ */
+export interface PaginationStrategy<T = any> {
+  /**
+   * Builds the request for the first page, e.g. to add a `limit` param
+   */
+  first?(request: PageRequest): PageRequest;
+  /**
+   * Reads the items and the request for the next page from a response
+   */
+  next(response: AxiosResponse, request: PageRequest): PageResult<T>;
+}
+
+/**
+ * Reads a value from the response body. A dot separated path (e.g. `meta.next_cursor`) or a
+ * function.
+ */
+export type ValueExtractor<V> = string | ((data: any, response: AxiosResponse) => V);
+
+export interface PaginationOptions<T = any> {
+  /**
+   * Defaults to `linkHeaderPagination()`
+   */
+  strategy?: PaginationStrategy<T>;
+  /**
+   * Maximum number of pages to fetch
+   */
+  maxPages?: number;
+  /**
+   * Maximum number of items to return. No more pages are fetched once it's reached
+   */
+  maxItems?: number;
+  /**
+   * Request config for every page request. Its `params` are sent with the first page
+   */
+  config?: AxiosRetryClientRequestConfig;
+}
+
+export interface Page<T> {
+  items: T[];
+  /**
+   * The page number, starting at 1
+   */
+  number: number;
+  request: PageRequest;
+  response: AxiosRetryClientResponse<any>;
+}
+
+interface ItemsOptions<T> {
+  /**
+   * Where to read the items from. Defaults to the body if it's an array, otherwise its `data`,
+   * `items` or `results` array
+   */
+  items?: ValueExtractor<T[]>;
+}
+
+export interface CursorPaginationOptions<T> extends ItemsOptions<T> {
+  /**
+   * Where to read the next cursor from. Defaults to `next_cursor`
+   */
+  cursor?: ValueExtractor<string | number | null | undefined>;
+  /**
+   * The query param the cursor is sent in. Defaults to `cursor`
+   */
+  param?: string;
+}
+
+export interface OffsetPaginationOptions<T> extends ItemsOptions<T> {
+  /**
+   * Page size. Defaults to 100
+   */
+  limit?: number;
+  /**
+   * Defaults to `offset`
+   */
+  offsetParam?: string;
+  /**
+   * Defaults to `limit`
+   */
+  limitParam?: string;
+  /**
+   * Where to read the total number of items from, if the API returns it
+   */
+  total?: ValueExtractor<number | undefined>;
+  /**
+   * Where to read whether there are more items from, if the API returns it
+   */
+  hasMore?: ValueExtractor<boolean | undefined>;
+}
+
+export interface PageNumberPaginationOptions<T> extends ItemsOptions<T> {
+  /**
+   * Defaults to `page`
+   */
+  pageParam?: string;
+  /**
+   * The first page number. Defaults to 1
+   */
+  start?: number;
+  /**
+   * Page size, sent in `perPageParam` when set. A page with fewer items is the last one
+   */
+  perPage?: number;
+  /**
+   * Defaults to `per_page`
+   */
+  perPageParam?: string;
+  /**
+   * Where to read the total number of pages from, if the API returns it
+   */
+  totalPages?: ValueExtractor<number | undefined>;
+}
+
+/**
+ * Reads a dot separated path from a value
+ *
+ * @param value - The value
+ * @param path - The path
+ * @returns The value at the path
+ */
+const getPathValue = (value: any, path: string): any =>
+  path
+    .split('.')
+    .filter(Boolean)
+    .reduce(
+      (current, key) => (current === null || current === undefined ? undefined : current[key]),
+      value
+    );
+
+/**
+ * Runs a value extractor against a response
+ *
+ * @param extractor - The extractor
+ * @param response - The response
+ * @returns The extracted value
+ */
+const extract = <V>(extractor: ValueExtractor<V>, response: AxiosResponse): V =>
+  typeof extractor === 'function'
+    ? extractor(response.data, response)
+    : getPathValue(response.data, extractor);
+
+/**
+ * Reads the items of a page
+ *
+ * @param response - The response
+ * @param extractor - Where to read the items from
+ * @returns The items
+ */
+const getItems = <T>(response: AxiosResponse, extractor?: ValueExtractor<T[]>): T[] => {
+  const items = extractor
+    ? extract(extractor, response)
+    : Array.isArray(response.data)
+      ? response.data
+      : ['data', 'items', 'results']
+          .map(key => response.data?.[key])
+          .find(value => Array.isArray(value));
+
+  return Array.isArray(items) ? items : [];
+};
+
+/**
+ * Parses an RFC 5988 `Link` header
+ *
+ * @param header - The header value
+ * @returns The link URLs by rel
+ */
+export const parseLinkHeader = (header: string | undefined): Record<string, string> => {
+  const links: Record<string, string> = {};
+
+  for (const [, url, params] of (header || '').matchAll(/<([^>]*)>((?:\s*;\s*[^,;]+)*)/g)) {
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(params)?.[1];
+
+    rel
+      ?.trim()
+      .split(/\s+/)
+      .forEach(name => {
+        links[name.toLowerCase()] = url;
+      });
+  }
+
+  return links;
+};
+
+/**
+ * Resolves a link against the URL of the response it came from, so that relative links keep
+ * working with a `baseURL` that has a path
+ *
+ * @param link - The link
+ * @param response - The response
+ * @returns The absolute link, or the link as it is when the request URL isn't absolute
+ */
+const resolveLink = (link: string, response: AxiosResponse): string => {
+  try {
+    return new URL(
+      link,
+      new URL(axios.getUri(response.config), (globalThis as any).location?.href)
+    ).toString();
+  } catch {
+    return link;
+  }
+};
+
+/**
+ * Follows `Link: <...>; rel="next"` headers until there is no next link
+ *
+ * @param options - Where to read the items from
+ * @returns The strategy
+ */
+export const linkHeaderPagination = <T = any>(
+  options: ItemsOptions<T> = {}
+): PaginationStrategy<T> => ({
+  next: response => {
+    const next = parseLinkHeader(getHeader(response.headers, 'link')).next;
+
+    return {
+      items: getItems(response, options.items),
+      // the next link already has the query params
+      next: next ? { url: resolveLink(next, response), params: {} } : undefined,
+    };
+  },
+});
+
+/**
+ * Sends the cursor from each page in a query param until a page has no cursor
+ *
+ * @param options - The strategy options
+ * @returns The strategy
+ */
+export const cursorPagination = <T = any>(
+  options: CursorPaginationOptions<T> = {}
+): PaginationStrategy<T> => {
+  const { cursor = 'next_cursor', param = 'cursor' } = options;
+
+  return {
+    next: (response, request) => {
+      const value = extract(cursor, response);
+      const done =
+        value === undefined || value === null || value === '' || value === request.params[param];
+
+      return {
+        items: getItems(response, options.items),
+        next: done ? undefined : { ...request, params: { ...request.params, [param]: value } },
+      };
+    },
+  };
+};
+
+/**
+ * Requests `limit` items at a time by offset until a page is empty, the total is reached or the
+ * API says there are no more items. A short page isn't the last one, as the server may cap the
+ * page size below `limit`.
+ *
+ * @param options - The strategy options
+ * @returns The strategy
+ */
+export const offsetPagination = <T = any>(
+  options: OffsetPaginationOptions<T> = {}
+): PaginationStrategy<T> => {
+  const { limit = 100, offsetParam = 'offset', limitParam = 'limit' } = options;
+
+  return {
+    first: request => ({
+      ...request,
+      params: { [offsetParam]: 0, ...request.params, [limitParam]: limit },
+    }),
+    next: (response, request) => {
+      const items = getItems(response, options.items);
+      const offset = Number(request.params[offsetParam]) + items.length;
+      const total = options.total === undefined ? undefined : extract(options.total, response);
+      const hasMore =
+        options.hasMore === undefined ? undefined : extract(options.hasMore, response);
+      const done =
+        items.length === 0 ||
+        (total !== undefined && offset >= Number(total)) ||
+        hasMore === false;
+
+      return {
+        items,
+        next: done
+          ? undefined
+          : { ...request, params: { ...request.params, [offsetParam]: offset } },
+      };
+    },
+  };
+};
+
+/**
+ * Requests pages by number until a page is empty or short, or the total number of pages is
+ * reached
+ *
+ * @param options - The strategy options
+ * @returns The strategy
+ */
+export const pageNumberPagination = <T = any>(
+  options: PageNumberPaginationOptions<T> = {}
+): PaginationStrategy<T> => {
+  const { pageParam = 'page', start = 1, perPage, perPageParam = 'per_page' } = options;
+
+  return {
+    first: request => ({
+      ...request,
+      params: {
+        [pageParam]: start,
+        ...request.params,
+        ...(perPage !== undefined && { [perPageParam]: perPage }),
+      },
+    }),
+    next: (response, request) => {
+      const items = getItems(response, options.items);
+      const page = Number(request.params[pageParam]);
+      const totalPages =
+        options.totalPages === undefined ? undefined : extract(options.totalPages, response);
+      const done =
+        items.length === 0 ||
+        (perPage !== undefined && items.length < perPage) ||
+        (totalPages !== undefined && page - start + 1 >= Number(totalPages));
+
+      return {
+        items,
+        next: done
+          ? undefined
+          : { ...request, params: { ...request.params, [pageParam]: page + 1 } },
+      };
+    },
+  };
+};
+
+/**
+ * Iterates over the items of a paginated endpoint, fetching pages as they are needed. Use
+ * `pages()` to iterate over whole pages instead.
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  /**
+   * @param request - The request for the first page
+   * @param fetchPage - Fetches a page
+   * @param options - The pagination options
+   */
+  constructor(
+    private request: PageRequest,
+    private fetchPage: (request: PageRequest) => Promise<AxiosRetryClientResponse<any>>,
+    private options: PaginationOptions<T> = {}
+  ) {}
+
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    const {
+      strategy = linkHeaderPagination<T>(),
+      maxPages = Infinity,
+      maxItems = Infinity,
+    } = this.options;
+    let request: PageRequest | undefined = strategy.first
+      ? strategy.first(this.request)
+      : this.request;
+    let number = 0;
+    let count = 0;
+
+    while (request && number < maxPages && count < maxItems) {
+      const response = await this.fetchPage(request);
+      const result = strategy.next(response.request, request);
+      const items = result.items.slice(0, maxItems - count);
+
+      number++;
+      count += items.length;
+
+      yield { items, number, request, response };
+
+      request = result.next;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Fetches all pages, up to the limits
+   *
+   * @returns All items
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+
+    for await (const item of this) {
+      items.push(item);
+    }
+
+    return items;
+  }
+}
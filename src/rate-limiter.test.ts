@@ -0,0 +1,141 @@
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const acquired = (limiter: RateLimiter, url: string, results: string[]) =>
+    limiter.acquire(url).then(release => {
+      results.push(url);
+      return release;
+    });
+
+  it('should let requests through until the sliding window is full', async () => {
+    const limiter = new RateLimiter({ limits: [{ limit: 2, interval: 1000 }] });
+    const results: string[] = [];
+
+    acquired(limiter, '/a', results);
+    acquired(limiter, '/b', results);
+    acquired(limiter, '/c', results);
+    await Promise.resolve();
+
+    expect(results).toEqual(['/a', '/b']);
+    expect(limiter.queueSize).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(results).toEqual(['/a', '/b', '/c']);
+    expect(limiter.queueSize).toBe(0);
+  });
+
+  it('should refill a token bucket continuously', async () => {
+    const limiter = new RateLimiter({
+      strategy: 'token-bucket',
+      limits: [{ limit: 2, interval: 1000 }],
+    });
+    const results: string[] = [];
+
+    acquired(limiter, '/a', results);
+    acquired(limiter, '/b', results);
+    acquired(limiter, '/c', results);
+    await Promise.resolve();
+    expect(results).toEqual(['/a', '/b']);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(results).toEqual(['/a', '/b', '/c']);
+  });
+
+  it('should keep separate buckets per route', async () => {
+    const limiter = new RateLimiter({
+      routes: [{ match: '/search', limits: [{ limit: 1, interval: 1000 }] }],
+    });
+    const results: string[] = [];
+
+    acquired(limiter, '/search?q=1', results);
+    acquired(limiter, '/search?q=2', results);
+    acquired(limiter, '/users', results);
+    await Promise.resolve();
+
+    expect(results).toEqual(['/search?q=1', '/users']);
+  });
+
+  it('should limit concurrency', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const results: string[] = [];
+
+    const release = await acquired(limiter, '/a', results);
+    acquired(limiter, '/b', results);
+    await Promise.resolve();
+
+    expect(results).toEqual(['/a']);
+    expect(limiter.pending).toBe(1);
+
+    release();
+    await Promise.resolve();
+
+    expect(results).toEqual(['/a', '/b']);
+  });
+
+  it('should remove aborted requests from the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const controller = new AbortController();
+
+    const release = await limiter.acquire('/a');
+    const queued = limiter.acquire('/b', controller.signal);
+
+    expect(limiter.queueSize).toBe(1);
+
+    controller.abort(new Error('aborted'));
+
+    await expect(queued).rejects.toThrow('aborted');
+    expect(limiter.queueSize).toBe(0);
+
+    release();
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should keep the process alive while a request is queued', async () => {
+    jest.useRealTimers();
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    const limiter = new RateLimiter({ limits: [{ limit: 1, interval: 20 }] });
+
+    await limiter.acquire('/a');
+    const queued = limiter.acquire('/b');
+    const timer = setTimeoutSpy.mock.results[setTimeoutSpy.mock.results.length - 1].value;
+
+    // an unref'd timer would let node exit with the request still queued
+    expect(timer.hasRef()).toBe(true);
+    await expect(queued).resolves.toBeInstanceOf(Function);
+
+    setTimeoutSpy.mockRestore();
+  });
+
+  it('should only take a slot right away when one is free', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+
+    const release = limiter.tryAcquire('/a');
+
+    expect(release).toBeInstanceOf(Function);
+    expect(limiter.tryAcquire('/b')).toBeUndefined();
+
+    release!();
+    expect(limiter.tryAcquire('/b')).toBeInstanceOf(Function);
+    expect(limiter.queueSize).toBe(0);
+  });
+
+  it('should report when the queue is full', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1, maxQueueSize: 1 });
+
+    await limiter.acquire('/a');
+    expect(limiter.isQueueFull()).toBe(false);
+
+    limiter.acquire('/b');
+    expect(limiter.isQueueFull()).toBe(true);
+  });
+});
@@ -0,0 +1,295 @@
+import type { GenericAbortSignal } from 'axios';
+
+export interface RateLimit {
+  /**
+   * Number of requests allowed per `interval`
+   */
+  limit: number;
+  /**
+   * Interval (in ms) that `limit` applies to. e.g. `{ limit: 10, interval: 1000 }` allows 10
+   * requests per second
+   */
+  interval: number;
+}
+
+export interface RouteRateLimit {
+  /**
+   * The routes this bucket applies to. A string matches any URL starting with it, a RegExp is
+   * tested against the URL.
+   */
+  match: string | RegExp;
+  /**
+   * The limits for this route. These apply in addition to the client-wide `limits`
+   */
+  limits: RateLimit[];
+}
+
+export interface RateLimiterOptions {
+  /**
+   * Limits applied to every request made by the client, e.g.
+   * `[{ limit: 10, interval: 1000 }, { limit: 1000, interval: 3600000 }]`
+   */
+  limits?: RateLimit[];
+  /**
+   * Separate buckets for specific routes. Each entry gets its own bucket shared by every URL it
+   * matches.
+   */
+  routes?: RouteRateLimit[];
+  /**
+   * 'token-bucket' allows bursts up to `limit` and refills continuously, 'sliding-window' never
+   * allows more than `limit` requests in any `interval`. Defaults to 'sliding-window'
+   */
+  strategy?: 'token-bucket' | 'sliding-window';
+  /**
+   * Maximum number of requests in flight at once
+   */
+  maxConcurrency?: number;
+  /**
+   * Maximum number of calls waiting for a slot. Once the queue is full new calls are rejected
+   * with a `RateLimitQueueFullError`, while retries of calls already under way still queue.
+   * Defaults to unlimited
+   */
+  maxQueueSize?: number;
+}
+
+interface Bucket {
+  /**
+   * Time (in ms) until a request can be let through, 0 if one can go now
+   */
+  waitTime(now: number): number;
+  take(now: number): void;
+}
+
+/**
+ * Token bucket that holds up to `limit` tokens and refills at `limit / interval` tokens per ms
+ */
+class TokenBucket implements Bucket {
+  private tokens: number;
+  private lastRefill: number;
+  private rate: number;
+
+  constructor(private rateLimit: RateLimit) {
+    this.tokens = rateLimit.limit;
+    this.lastRefill = Date.now();
+    this.rate = rateLimit.limit / rateLimit.interval;
+  }
+
+  private refill(now: number) {
+    this.tokens = Math.min(this.rateLimit.limit, this.tokens + (now - this.lastRefill) * this.rate);
+    this.lastRefill = now;
+  }
+
+  waitTime(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.rate);
+  }
+
+  take(now: number) {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+}
+
+/**
+ * Sliding window log that lets at most `limit` requests through in any `interval`
+ */
+class SlidingWindow implements Bucket {
+  private timestamps: number[] = [];
+
+  constructor(private rateLimit: RateLimit) {}
+
+  private prune(now: number) {
+    while (this.timestamps.length && now - this.timestamps[0] >= this.rateLimit.interval) {
+      this.timestamps.shift();
+    }
+  }
+
+  waitTime(now: number): number {
+    this.prune(now);
+
+    if (this.timestamps.length < this.rateLimit.limit) {
+      return 0;
+    }
+
+    return this.timestamps[0] + this.rateLimit.interval - now;
+  }
+
+  take(now: number) {
+    this.timestamps.push(now);
+  }
+}
+
+interface Waiter {
+  buckets: Bucket[];
+  resolve: (release: () => void) => void;
+}
+
+/**
+ * Client side rate limiter. Requests wait in a queue until every bucket that applies to them has
+ * capacity and there is a free concurrency slot. Requests held back by the same buckets go in
+ * the order they were queued, but a request held back by its route's buckets doesn't hold up
+ * requests to other routes.
+ */
+export class RateLimiter {
+  options: RateLimiterOptions;
+
+  private globalBuckets: Bucket[];
+  private routeBuckets: { match: string | RegExp; buckets: Bucket[] }[];
+  private queue: Waiter[] = [];
+  private inFlight = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+    this.globalBuckets = this.createBuckets(options.limits);
+    this.routeBuckets = (options.routes || []).map(route => ({
+      match: route.match,
+      buckets: this.createBuckets(route.limits),
+    }));
+  }
+
+  /**
+   * Number of requests currently waiting for a slot
+   */
+  get queueSize(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of requests currently holding a slot
+   */
+  get pending(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Whether the wait queue has reached `maxQueueSize`
+   */
+  isQueueFull(): boolean {
+    return (
+      this.options.maxQueueSize !== undefined && this.queue.length >= this.options.maxQueueSize
+    );
+  }
+
+  /**
+   * Waits for a slot for the given URL
+   *
+   * @param url - The request URL, used to find the route buckets that apply
+   * @param signal - Aborts the wait, leaving the queue and rejecting with the abort reason
+   * @returns A function that must be called once the request has finished to free the
+   * concurrency slot
+   */
+  acquire(url: string, signal?: GenericAbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject((signal as AbortSignal).reason);
+        return;
+      }
+
+      const abort = () => {
+        this.queue = this.queue.filter(queued => queued !== waiter);
+        reject((signal as AbortSignal).reason);
+        this.drain();
+      };
+      const waiter: Waiter = {
+        buckets: [...this.globalBuckets, ...this.getRouteBuckets(url)],
+        resolve: release => {
+          signal?.removeEventListener?.('abort', abort);
+          resolve(release);
+        },
+      };
+
+      signal?.addEventListener?.('abort', abort);
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Takes a slot for the given URL if one is free right away, without queueing. Never takes a
+   * slot ahead of requests already waiting.
+   *
+   * @param url - The request URL, used to find the route buckets that apply
+   * @returns The function that frees the concurrency slot, or undefined if no slot is free
+   */
+  tryAcquire(url: string): (() => void) | undefined {
+    const now = Date.now();
+    const buckets = [...this.globalBuckets, ...this.getRouteBuckets(url)];
+
+    if (
+      this.queue.length ||
+      (this.options.maxConcurrency !== undefined && this.inFlight >= this.options.maxConcurrency) ||
+      buckets.some(bucket => bucket.waitTime(now) > 0)
+    ) {
+      return undefined;
+    }
+
+    buckets.forEach(bucket => bucket.take(now));
+    this.inFlight++;
+
+    return this.createRelease();
+  }
+
+  private createBuckets(limits: RateLimit[] = []): Bucket[] {
+    return limits.map(limit =>
+      this.options.strategy === 'token-bucket' ? new TokenBucket(limit) : new SlidingWindow(limit)
+    );
+  }
+
+  private getRouteBuckets(url: string): Bucket[] {
+    return this.routeBuckets
+      .filter(({ match }) => (typeof match === 'string' ? url.startsWith(match) : match.test(url)))
+      .flatMap(({ buckets }) => buckets);
+  }
+
+  private drain() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = Date.now();
+    let nextCheck = Infinity;
+
+    for (let i = 0; i < this.queue.length; i++) {
+      if (
+        this.options.maxConcurrency !== undefined &&
+        this.inFlight >= this.options.maxConcurrency
+      ) {
+        // a slot will be freed by release()
+        return;
+      }
+
+      const waiter = this.queue[i];
+      const waitTime = Math.max(0, ...waiter.buckets.map(bucket => bucket.waitTime(now)));
+
+      if (waitTime > 0) {
+        nextCheck = Math.min(nextCheck, waitTime);
+        continue;
+      }
+
+      waiter.buckets.forEach(bucket => bucket.take(now));
+      this.queue.splice(i--, 1);
+      this.inFlight++;
+      waiter.resolve(this.createRelease());
+    }
+
+    if (nextCheck !== Infinity) {
+      this.timer = setTimeout(() => this.drain(), nextCheck);
+    }
+  }
+
+  private createRelease() {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+      this.inFlight--;
+      this.drain();
+    };
+  }
+}
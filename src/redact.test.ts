@@ -0,0 +1,109 @@
+import { AxiosHeaders, AxiosError } from 'axios';
+import { Redactor } from './redact';
+
+describe('Redactor', () => {
+  const redactor = new Redactor();
+
+  it('should redact default headers regardless of casing', () => {
+    expect(
+      redactor.redact({
+        headers: { Authorization: 'Bearer abc', COOKIE: 'session=1', Accept: 'application/json' },
+      })
+    ).toEqual({
+      headers: {
+        Authorization: '[REDACTED]',
+        COOKIE: '[REDACTED]',
+        Accept: 'application/json',
+      },
+    });
+  });
+
+  it('should redact AxiosHeaders', () => {
+    const headers = new AxiosHeaders({ 'X-API-Key': 'secret', Accept: 'text/plain' });
+    expect(redactor.redact({ headers })).toEqual({
+      headers: { 'X-API-Key': '[REDACTED]', Accept: 'text/plain' },
+    });
+  });
+
+  it('should redact sensitive keys at any depth ignoring case, dashes and underscores', () => {
+    expect(
+      redactor.redact({ data: { user: { name: 'Ann', Password: 'hunter2' }, apiKey: 'k' } })
+    ).toEqual({ data: { user: { name: 'Ann', Password: '[REDACTED]' }, apiKey: '[REDACTED]' } });
+  });
+
+  it('should redact sensitive query parameters in strings', () => {
+    expect(redactor.redactString('GET /search?q=shoes&api_key=abc123&page=2')).toBe(
+      'GET /search?q=shoes&api_key=[REDACTED]&page=2'
+    );
+  });
+
+  it('should redact credentials, JWTs and card numbers in strings', () => {
+    expect(redactor.redactString('sent Bearer abc.def-123 to server')).toBe(
+      'sent [REDACTED] to server'
+    );
+    expect(redactor.redactString('token eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl')).toBe(
+      'token [REDACTED]'
+    );
+    expect(redactor.redactString('card 4111 1111 1111 1111 ok')).toBe('card [REDACTED] ok');
+    // not a valid card number, e.g. a timestamp
+    expect(redactor.redactString('at 1700000000001')).toBe('at 1700000000001');
+  });
+
+  it('should redact raw header lines', () => {
+    expect(
+      redactor.redactString('GET / HTTP/1.1\r\nAccept: */*\r\nAuthorization: Basic dXNlcg==\r\n')
+    ).toBe('GET / HTTP/1.1\r\nAccept: */*\r\nAuthorization: [REDACTED]\r\n');
+  });
+
+  it('should redact configured paths, keys, headers and patterns', () => {
+    const custom = new Redactor({
+      paths: ['$.data.cards[*].holder', 'response.*.email'],
+      keys: ['pin'],
+      headers: ['X-Session'],
+      patterns: [/\b\d{3}-\d{2}-\d{4}\b/g],
+      replacement: '***',
+    });
+
+    expect(
+      custom.redact({
+        data: { cards: [{ holder: 'Ann', pin: '1234' }], email: 'kept@example.com' },
+        response: { user: { email: 'ann@example.com' } },
+        headers: { 'x-session': 'abc' },
+        note: 'ssn 123-45-6789',
+      })
+    ).toEqual({
+      data: { cards: [{ holder: '***', pin: '***' }], email: 'kept@example.com' },
+      response: { user: { email: '***' } },
+      headers: { 'x-session': '***' },
+      note: 'ssn ***',
+    });
+  });
+
+  it('should only use the configured rules when defaults are disabled', () => {
+    const custom = new Redactor({ defaults: false, keys: ['pin'] });
+    expect(custom.redact({ password: 'hunter2', pin: '1234' })).toEqual({
+      password: 'hunter2',
+      pin: '[REDACTED]',
+    });
+  });
+
+  it('should not modify the original value and should handle circular references', () => {
+    const original: any = { password: 'hunter2' };
+    original.self = original;
+
+    expect(redactor.redact(original)).toEqual({ password: '[REDACTED]', self: '[Circular]' });
+    expect(original.password).toBe('hunter2');
+  });
+
+  it('should keep errors as errors', () => {
+    const error = new AxiosError('Request failed', 'ERR_BAD_REQUEST', {
+      headers: new AxiosHeaders({ Authorization: 'Bearer abc' }),
+    });
+    const redacted = redactor.redact(error);
+
+    expect(redacted).toBeInstanceOf(AxiosError);
+    expect(redacted.message).toBe('Request failed');
+    expect(redacted.config!.headers).toEqual({ Authorization: '[REDACTED]' });
+    expect(error.config!.headers.get('Authorization')).toBe('Bearer abc');
+  });
+});
@@ -0,0 +1,268 @@
+export const DEFAULT_REDACTION_REPLACEMENT = '[REDACTED]';
+
+/**
+ * Headers whose values are redacted by default
+ */
+const DEFAULT_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-auth-token',
+  'x-csrf-token',
+];
+
+/**
+ * Object keys and query parameters whose values are redacted by default
+ */
+const DEFAULT_KEYS = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'access_token',
+  'refresh_token',
+  'id_token',
+  'client_secret',
+  'api_key',
+  'card_number',
+  'cvv',
+  'cvc',
+  'ssn',
+];
+
+/**
+ * Patterns redacted from strings by default: bearer / basic credentials and JWTs
+ */
+const DEFAULT_PATTERNS = [
+  /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi,
+  /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+];
+
+/**
+ * Sequences of 13 to 19 digits, optionally separated by spaces or dashes
+ */
+const CARD_NUMBER_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+export interface RedactionOptions {
+  /**
+   * Header names (case-insensitive) whose values are redacted, wherever they appear
+   */
+  headers?: string[];
+  /**
+   * Object keys and query parameter names whose values are redacted, wherever they appear.
+   * Matching ignores case, dashes and underscores, so `api_key` also matches `apiKey`.
+   */
+  keys?: string[];
+  /**
+   * Paths to redact, relative to the logged fields, e.g. `data.user.email`, `$.data.cards[*].pan`
+   * or `response.data.*.ssn`. `*` matches any key or array index.
+   */
+  paths?: string[];
+  /**
+   * Patterns to redact from string values and log messages
+   */
+  patterns?: RegExp[];
+  /**
+   * Whether to include the default headers, keys and patterns (including card numbers).
+   * Defaults to true
+   */
+  defaults?: boolean;
+  /**
+   * The replacement for redacted values. Defaults to '[REDACTED]'
+   */
+  replacement?: string;
+}
+
+/**
+ * Normalizes a key for comparison
+ *
+ * @param key - The key
+ * @returns The key lowercased without dashes and underscores
+ */
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[-_]/g, '');
+
+/**
+ * Splits a path like `$.data.cards[*].pan` into segments
+ *
+ * @param path - The path
+ * @returns The path segments
+ */
+const parsePath = (path: string): string[] =>
+  path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(['"]?)([^\]]*?)\1\]/g, '.$2')
+    .split('.')
+    .filter(Boolean);
+
+/**
+ * Checks a digit string against the Luhn checksum used by card numbers
+ *
+ * @param digits - The digits
+ * @returns Whether the checksum is valid
+ */
+const isLuhnValid = (digits: string): boolean => {
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+
+    if (i % 2 === 1) {
+      digit *= 2;
+
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+};
+
+/**
+ * Redacts secrets and PII from values before they are logged. Works on a copy, the original
+ * value is never modified.
+ */
+export class Redactor {
+  replacement: string;
+
+  private keys: Set<string>;
+  private headerLinePattern: RegExp | undefined;
+  private paths: string[][];
+  private patterns: RegExp[];
+  private cardNumbers: boolean;
+
+  constructor(options: RedactionOptions = {}) {
+    const defaults = options.defaults !== false;
+    const headers = [...(defaults ? DEFAULT_HEADERS : []), ...(options.headers || [])];
+
+    this.replacement = options.replacement ?? DEFAULT_REDACTION_REPLACEMENT;
+    this.keys = new Set(
+      [...headers, ...(defaults ? DEFAULT_KEYS : []), ...(options.keys || [])].map(normalizeKey)
+    );
+    this.headerLinePattern = headers.length
+      ? new RegExp(
+          `^(${headers.map(header => header.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(:[ \\t]*)[^\\r\\n]*`,
+          'gim'
+        )
+      : undefined;
+    this.paths = (options.paths || []).map(parsePath);
+    this.patterns = [...(defaults ? DEFAULT_PATTERNS : []), ...(options.patterns || [])];
+    this.cardNumbers = defaults;
+  }
+
+  /**
+   * Returns a copy of a value with sensitive keys, paths and patterns redacted. Follows
+   * `JSON.stringify` semantics (`toJSON` is honored, functions are dropped) and replaces
+   * circular references with '[Circular]'. Errors keep their prototype, message and stack.
+   *
+   * @param value - The value to redact
+   * @returns The redacted copy
+   */
+  redact<T>(value: T): T {
+    return this.redactValue(value, [], new Set());
+  }
+
+  /**
+   * Redacts patterns, query parameters and raw header lines from a string
+   *
+   * @param value - The string to redact
+   * @returns The redacted string
+   */
+  redactString(value: string): string {
+    let redacted = value.replace(
+      /([?&])([^=&#\s]+)=([^&#\s]*)/g,
+      (match, separator: string, name: string) =>
+        this.isSensitiveKey(name) ? `${separator}${name}=${this.replacement}` : match
+    );
+
+    if (this.headerLinePattern) {
+      redacted = redacted.replace(this.headerLinePattern, `$1$2${this.replacement}`);
+    }
+
+    for (const pattern of this.patterns) {
+      redacted = redacted.replace(pattern, this.replacement);
+    }
+
+    if (this.cardNumbers) {
+      redacted = redacted.replace(CARD_NUMBER_PATTERN, match =>
+        isLuhnValid(match.replace(/\D/g, '')) ? this.replacement : match
+      );
+    }
+
+    return redacted;
+  }
+
+  private isSensitiveKey(key: string): boolean {
+    return this.keys.has(normalizeKey(key));
+  }
+
+  private isSensitivePath(path: string[]): boolean {
+    return this.paths.some(
+      segments =>
+        segments.length === path.length &&
+        segments.every((segment, i) => segment === '*' || segment === path[i])
+    );
+  }
+
+  private redactValue(value: any, path: string[], seen: Set<object>): any {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+
+    if (value === null || typeof value !== 'object') {
+      return typeof value === 'function' ? undefined : value;
+    }
+
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+
+    seen.add(value);
+
+    if (value instanceof Error) {
+      const copy = Object.create(Object.getPrototypeOf(value));
+
+      Object.getOwnPropertyNames(value).forEach(key => {
+        copy[key] = this.redactProperty(key, (value as any)[key], path, seen);
+      });
+
+      return copy;
+    }
+
+    if (typeof value.toJSON === 'function') {
+      return this.redactValue(value.toJSON(), path, seen);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, i) => this.redactProperty(String(i), item, path, seen));
+    }
+
+    return Object.keys(value).reduce<Record<string, any>>((copy, key) => {
+      const redacted = this.redactProperty(key, value[key], path, seen);
+
+      if (redacted !== undefined) {
+        copy[key] = redacted;
+      }
+
+      return copy;
+    }, {});
+  }
+
+  private redactProperty(key: string, value: any, path: string[], seen: Set<object>): any {
+    const childPath = [...path, key];
+
+    if (
+      value !== undefined &&
+      value !== null &&
+      (this.isSensitiveKey(key) || this.isSensitivePath(childPath))
+    ) {
+      return this.replacement;
+    }
+
+    return this.redactValue(value, childPath, seen);
+  }
+}
@@ -0,0 +1,67 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { getRetryAfterDelay, parseRateLimitReset, parseRetryAfter } from './retry-after';
+
+const errorWithHeaders = (headers: Record<string, string>) => {
+  const error = new AxiosError('Too Many Requests');
+  error.response = {
+    status: 429,
+    statusText: 'Too Many Requests',
+    data: {},
+    headers,
+    config: { headers: new AxiosHeaders() },
+  };
+  return error;
+};
+
+describe('retry-after', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  describe('parseRetryAfter', () => {
+    it('should parse a number of seconds', () => {
+      expect(parseRetryAfter('5', now)).toBe(5000);
+    });
+
+    it('should parse an HTTP-date', () => {
+      expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30000);
+    });
+
+    it('should not return a negative delay for a date in the past', () => {
+      expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+    });
+
+    it('should return undefined for garbage', () => {
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+  });
+
+  describe('parseRateLimitReset', () => {
+    it('should treat small values as seconds to wait', () => {
+      expect(parseRateLimitReset('10', now)).toBe(10000);
+    });
+
+    it('should treat large values as a unix timestamp', () => {
+      expect(parseRateLimitReset(String(now / 1000 + 20), now)).toBe(20000);
+    });
+  });
+
+  describe('getRetryAfterDelay', () => {
+    it('should return undefined when there is no response', () => {
+      expect(getRetryAfterDelay(new AxiosError('Network Error'))).toBeUndefined();
+    });
+
+    it('should prefer Retry-After over X-RateLimit-Reset', () => {
+      const error = errorWithHeaders({ 'retry-after': '2', 'x-ratelimit-reset': '10' });
+      expect(getRetryAfterDelay(error)).toBe(2000);
+    });
+
+    it('should fall back to X-RateLimit-Reset', () => {
+      expect(getRetryAfterDelay(errorWithHeaders({ 'x-ratelimit-reset': '3' }))).toBe(3000);
+    });
+
+    it('should read headers from an AxiosHeaders instance', () => {
+      const error = errorWithHeaders({});
+      error.response!.headers = new AxiosHeaders({ 'Retry-After': '4' });
+      expect(getRetryAfterDelay(error)).toBe(4000);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import type { AxiosError } from 'axios';
+import { getHeader } from './headers';
+
+/**
+ * Values of `X-RateLimit-Reset` above this are treated as a unix timestamp (in seconds)
+ * rather than a number of seconds to wait
+ */
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+/**
+ * Parses a `Retry-After` header value, which is either a number of seconds or an HTTP-date
+ *
+ * @param value - The header value
+ * @param now - The current time in ms
+ * @returns The number of ms to wait or undefined if the value could not be parsed
+ */
+export const parseRetryAfter = (value: string, now = Date.now()): number | undefined => {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.max(0, Math.round(Number(value) * 1000));
+  }
+
+  const date = Date.parse(value);
+
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+};
+
+/**
+ * Parses a `X-RateLimit-Reset` / `RateLimit-Reset` header value. Providers disagree on whether
+ * this is a unix timestamp or a number of seconds until the reset, so large values are treated as
+ * a timestamp.
+ *
+ * @param value - The header value
+ * @param now - The current time in ms
+ * @returns The number of ms to wait or undefined if the value could not be parsed
+ */
+export const parseRateLimitReset = (value: string, now = Date.now()): number | undefined => {
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+
+  if (seconds > EPOCH_SECONDS_THRESHOLD) {
+    return Math.max(0, Math.round(seconds * 1000 - now));
+  }
+
+  return Math.round(seconds * 1000);
+};
+
+/**
+ * Gets the delay the server asked us to wait before retrying, based on the `Retry-After`,
+ * `X-RateLimit-Reset` or `RateLimit-Reset` response headers (in that order of precedence)
+ *
+ * @param error - The axios error
+ * @returns The number of ms to wait or undefined if the server didn't specify one
+ */
+export const getRetryAfterDelay = (error: AxiosError | undefined): number | undefined => {
+  const headers = error?.response?.headers as Record<string, any> | undefined;
+
+  const retryAfter = getHeader(headers, 'retry-after');
+
+  if (retryAfter !== undefined) {
+    const delay = parseRetryAfter(retryAfter);
+
+    if (delay !== undefined) {
+      return delay;
+    }
+  }
+
+  const rateLimitReset =
+    getHeader(headers, 'x-ratelimit-reset') ?? getHeader(headers, 'ratelimit-reset');
+
+  if (rateLimitReset !== undefined) {
+    return parseRateLimitReset(rateLimitReset);
+  }
+
+  return undefined;
+};
@@ -0,0 +1,97 @@
+import { AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import { findRetryRule, isRetryableByRule, matchesRetryRule, type RetryRule } from './retry-policy';
+
+const createError = (
+  method: string,
+  url: string,
+  { status, code }: { status?: number; code?: string } = {}
+): AxiosError => {
+  const config = { method, url, headers: {} } as InternalAxiosRequestConfig;
+
+  return new AxiosError(
+    'Request failed',
+    code ?? (status !== undefined ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_NETWORK),
+    config,
+    {},
+    status !== undefined ? { status, statusText: '', headers: {}, config, data: {} } : undefined
+  );
+};
+
+describe('retry-policy', () => {
+  describe('matchesRetryRule', () => {
+    it('should match status codes and status classes', () => {
+      const rule: RetryRule = { status: [502, 503, '4xx'], retries: 3 };
+
+      expect(matchesRetryRule(rule, createError('get', '/users', { status: 503 }))).toBe(true);
+      expect(matchesRetryRule(rule, createError('get', '/users', { status: 429 }))).toBe(true);
+      expect(matchesRetryRule(rule, createError('get', '/users', { status: 500 }))).toBe(false);
+      expect(matchesRetryRule(rule, createError('get', '/users'))).toBe(false);
+    });
+
+    it('should match error codes', () => {
+      const rule: RetryRule = { code: ['ECONNRESET', 'ETIMEDOUT'], retries: 3 };
+
+      expect(matchesRetryRule(rule, createError('get', '/users', { code: 'ECONNRESET' }))).toBe(
+        true
+      );
+      expect(matchesRetryRule(rule, createError('get', '/users', { code: 'ENOTFOUND' }))).toBe(
+        false
+      );
+    });
+
+    it('should match either the status or the code when both are set', () => {
+      const rule: RetryRule = { status: 503, code: 'ECONNRESET', retries: 3 };
+
+      expect(matchesRetryRule(rule, createError('get', '/a', { status: 503 }))).toBe(true);
+      expect(matchesRetryRule(rule, createError('get', '/a', { code: 'ECONNRESET' }))).toBe(true);
+      expect(matchesRetryRule(rule, createError('get', '/a', { status: 500 }))).toBe(false);
+    });
+
+    it('should narrow rules by method and route', () => {
+      const rule: RetryRule = {
+        method: ['GET', 'PUT'],
+        route: ['/users/:id', /^\/search/],
+        retries: 1,
+      };
+
+      expect(matchesRetryRule(rule, createError('get', '/users/1?full=true'))).toBe(true);
+      expect(matchesRetryRule(rule, createError('put', '/search?q=a'))).toBe(true);
+      expect(matchesRetryRule(rule, createError('post', '/users/1'))).toBe(false);
+      expect(matchesRetryRule(rule, createError('get', '/users'))).toBe(false);
+      expect(matchesRetryRule({ retries: 0 }, createError('post', '/anything'))).toBe(true);
+    });
+  });
+
+  describe('findRetryRule', () => {
+    it('should return the first matching rule', () => {
+      const rules: RetryRule[] = [
+        { route: '/payments/*', retries: 0 },
+        { status: 409, retries: 0 },
+        { status: '5xx', retries: 5 },
+      ];
+
+      expect(findRetryRule(rules, createError('get', '/payments/1', { status: 503 }))).toBe(
+        rules[0]
+      );
+      expect(findRetryRule(rules, createError('get', '/users', { status: 503 }))).toBe(rules[2]);
+      expect(findRetryRule(rules, createError('get', '/users', { status: 400 }))).toBeUndefined();
+    });
+  });
+
+  describe('isRetryableByRule', () => {
+    it('should leave rules without a status or code to the retry condition', () => {
+      expect(isRetryableByRule({ retries: 1 }, createError('get', '/users'))).toBeUndefined();
+    });
+
+    it('should only retry idempotent requests unless the rule lists its methods', () => {
+      const error = createError('post', '/users', { status: 503 });
+
+      expect(isRetryableByRule({ status: 503, retries: 1 }, createError('put', '/users'))).toBe(
+        true
+      );
+      expect(isRetryableByRule({ status: 503, retries: 1 }, error)).toBe(false);
+      expect(isRetryableByRule({ status: 503, retries: 1 }, error, true)).toBe(true);
+      expect(isRetryableByRule({ status: 503, method: 'POST', retries: 1 }, error)).toBe(true);
+    });
+  });
+});
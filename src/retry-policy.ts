@@ -0,0 +1,127 @@
+import type { AxiosError } from 'axios';
+import type { AxiosRetryClientRetryConfig, RequestType } from './axios-retry-client';
+import { matchRoute, type Route } from './route';
+
+/**
+ * A status code, or a class of status codes such as `'5xx'`
+ */
+export type StatusMatcher = number | `${1 | 2 | 3 | 4 | 5}xx`;
+
+/**
+ * Methods that are safe to repeat, which rules matching on `status` or `code` retry unless they
+ * list their own `method`
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * A rule of a retry policy. The first rule that matches a failed request decides whether and how
+ * it's retried. `method` and `route` narrow the requests a rule applies to. `status` and `code`
+ * narrow the errors, and make them retryable: when both are set, either one matching is enough.
+ * A rule without `status` or `code` applies to the errors the retry condition accepts.
+ */
+export interface RetryRule
+  extends Pick<AxiosRetryClientRetryConfig, 'backoff' | 'delayFactor' | 'jitter' | 'maxDelay'> {
+  /**
+   * The status codes the rule applies to, e.g. `[502, 503, 504]` or `'5xx'`
+   */
+  status?: StatusMatcher | StatusMatcher[];
+  /**
+   * The error codes the rule applies to, e.g. `['ECONNRESET', 'ETIMEDOUT']`
+   */
+  code?: string | string[];
+  /**
+   * The request methods the rule applies to. Rules matching on `status` or `code` only retry
+   * idempotent methods, or requests with an idempotency key, unless this is set.
+   */
+  method?: RequestType | `${RequestType}` | Array<RequestType | `${RequestType}`>;
+  /**
+   * The routes the rule applies to
+   */
+  route?: Route | Route[];
+  /**
+   * The number of retries for the requests the rule matches. 0 disables retries.
+   */
+  retries: number;
+}
+
+const toArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Checks whether a status code matches a status matcher
+ *
+ * @param matcher - The status code or status class
+ * @param status - The status code
+ * @returns Whether it matches
+ */
+const matchStatus = (matcher: StatusMatcher, status: number): boolean =>
+  typeof matcher === 'number'
+    ? matcher === status
+    : Number(matcher[0]) === Math.floor(status / 100);
+
+/**
+ * Checks whether a rule applies to a failed request
+ *
+ * @param rule - The rule
+ * @param error - The error the request failed with
+ * @returns Whether the rule applies
+ */
+export const matchesRetryRule = (rule: RetryRule, error: AxiosError): boolean => {
+  const method = (error.config?.method || 'get').toUpperCase();
+  const url = error.config?.url || '';
+  const status = error.response?.status;
+
+  if (rule.method !== undefined && !toArray(rule.method).includes(method as RequestType)) {
+    return false;
+  }
+
+  if (rule.route !== undefined && !toArray(rule.route).some(route => matchRoute(route, url))) {
+    return false;
+  }
+
+  if (rule.status === undefined && rule.code === undefined) {
+    return true;
+  }
+
+  return (
+    (rule.status !== undefined &&
+      status !== undefined &&
+      toArray(rule.status).some(matcher => matchStatus(matcher, status))) ||
+    (rule.code !== undefined && error.code !== undefined && toArray(rule.code).includes(error.code))
+  );
+};
+
+/**
+ * Finds the rule that applies to a failed request
+ *
+ * @param rules - The rules, in order of precedence
+ * @param error - The error the request failed with
+ * @returns The first matching rule or undefined if none applies
+ */
+export const findRetryRule = (rules: RetryRule[], error: AxiosError): RetryRule | undefined =>
+  rules.find(rule => matchesRetryRule(rule, error));
+
+/**
+ * Checks whether a rule retries an error by itself, rather than leaving it to the retry
+ * condition. Rules matching on `status` or `code` do, for idempotent methods, requests with an
+ * idempotency key, or any method when the rule lists its methods.
+ *
+ * @param rule - The rule that applies to the error
+ * @param error - The error the request failed with
+ * @param hasIdempotencyKey - Whether the request was sent with an idempotency key
+ * @returns Whether the error is retryable, or undefined if the retry condition decides
+ */
+export const isRetryableByRule = (
+  rule: RetryRule,
+  error: AxiosError,
+  hasIdempotencyKey = false
+): boolean | undefined => {
+  if (rule.status === undefined && rule.code === undefined) {
+    return undefined;
+  }
+
+  return (
+    rule.method !== undefined ||
+    hasIdempotencyKey ||
+    IDEMPOTENT_METHODS.includes((error.config?.method || 'get').toUpperCase())
+  );
+};
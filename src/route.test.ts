@@ -0,0 +1,35 @@
+import { getPath, matchRoute } from './route';
+
+describe('route', () => {
+  describe('getPath', () => {
+    it('should strip the query string and hash', () => {
+      expect(getPath('/users/1?expand=true#top')).toBe('/users/1');
+    });
+
+    it('should strip the origin from absolute URLs', () => {
+      expect(getPath('https://api.example.com/users/1?expand=true')).toBe('/users/1');
+    });
+  });
+
+  describe('matchRoute', () => {
+    it('should match exact paths', () => {
+      expect(matchRoute('/users', '/users')).toBe(true);
+      expect(matchRoute('/users', '/users/')).toBe(true);
+      expect(matchRoute('/users', '/users/1')).toBe(false);
+    });
+
+    it('should match :param segments', () => {
+      expect(matchRoute('/users/:id', '/users/1?expand=true')).toBe(true);
+      expect(matchRoute('/users/:id', '/users/1/posts')).toBe(false);
+    });
+
+    it('should match a trailing wildcard', () => {
+      expect(matchRoute('/files/*', '/files/a/b/c.txt')).toBe(true);
+      expect(matchRoute('/files/*', '/other/a')).toBe(false);
+    });
+
+    it('should test RegExp routes against the full URL', () => {
+      expect(matchRoute(/\/search\?q=/, '/search?q=test')).toBe(true);
+    });
+  });
+});
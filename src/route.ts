@@ -0,0 +1,74 @@
+/**
+ * A route to match request URLs against. A string is a path template where `:name` segments
+ * match any single path segment and a trailing `*` matches the rest of the path, e.g.
+ * `/users/:id` or `/files/*`. A RegExp is tested against the URL as passed to the client.
+ */
+export type Route = string | RegExp;
+
+const templateCache = new Map<string, RegExp>();
+
+/**
+ * Gets the path portion of a URL, without the origin, query string or hash
+ *
+ * @param url - The request URL (relative or absolute)
+ * @returns The path
+ */
+export const getPath = (url: string): string => {
+  if (/^[a-z][a-z\d+\-.]*:\/\//i.test(url)) {
+    try {
+      return new URL(url).pathname;
+    } catch {
+      return url;
+    }
+  }
+
+  return url.split(/[?#]/)[0];
+};
+
+/**
+ * Compiles a path template into a RegExp
+ *
+ * @param template - The path template
+ * @returns The RegExp
+ */
+const compileTemplate = (template: string): RegExp => {
+  let regExp = templateCache.get(template);
+
+  if (!regExp) {
+    const pattern = template
+      .replace(/\/+$/, '')
+      .split('/')
+      .map(segment => {
+        if (segment === '*') {
+          return '.*';
+        }
+
+        if (segment.startsWith(':')) {
+          return '[^/]+';
+        }
+
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+
+    regExp = new RegExp(`^${pattern}/?$`);
+    templateCache.set(template, regExp);
+  }
+
+  return regExp;
+};
+
+/**
+ * Checks whether a request URL matches a route
+ *
+ * @param route - The route
+ * @param url - The request URL
+ * @returns Whether the URL matches
+ */
+export const matchRoute = (route: Route, url: string): boolean => {
+  if (typeof route !== 'string') {
+    return route.test(url);
+  }
+
+  return compileTemplate(route).test(getPath(url));
+};
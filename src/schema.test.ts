@@ -0,0 +1,101 @@
+import { validateSchema, type InferSchema, type StandardSchema } from './schema';
+
+interface User {
+  id: number;
+}
+
+const isUser = (data: unknown): data is User =>
+  typeof data === 'object' && data !== null && typeof (data as User).id === 'number';
+
+const standardUserSchema: StandardSchema<User> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: value =>
+      isUser(value)
+        ? { value }
+        : { issues: [{ message: 'Expected number', path: [{ key: 'id' }] }] },
+  },
+};
+
+const safeParseUserSchema = {
+  safeParse: (data: unknown) =>
+    isUser(data)
+      ? { success: true as const, data }
+      : {
+          success: false as const,
+          error: { issues: [{ message: 'Expected number', path: ['id'] }] },
+        },
+};
+
+describe('validateSchema', () => {
+  it('should validate with a Standard Schema', async () => {
+    await expect(validateSchema(standardUserSchema, { id: 1 })).resolves.toEqual({
+      success: true,
+      data: { id: 1 },
+    });
+    await expect(validateSchema(standardUserSchema, { id: '1' })).resolves.toEqual({
+      success: false,
+      issues: [{ message: 'Expected number', path: ['id'] }],
+    });
+  });
+
+  it('should validate with a zod style safeParse schema', async () => {
+    await expect(validateSchema(safeParseUserSchema, { id: 1 })).resolves.toEqual({
+      success: true,
+      data: { id: 1 },
+    });
+    await expect(validateSchema(safeParseUserSchema, {})).resolves.toEqual({
+      success: false,
+      issues: [{ message: 'Expected number', path: ['id'] }],
+    });
+  });
+
+  it('should validate with a validator object', async () => {
+    const validator = {
+      validate: (data: unknown) =>
+        isUser(data)
+          ? { success: true as const, data }
+          : { success: false as const, issues: [{ message: 'Not a user', path: [] }] },
+    };
+
+    await expect(validateSchema(validator, null)).resolves.toEqual({
+      success: false,
+      issues: [{ message: 'Not a user', path: [] }],
+    });
+  });
+
+  it('should validate with a type guard', async () => {
+    await expect(validateSchema(isUser, { id: 1 })).resolves.toEqual({
+      success: true,
+      data: { id: 1 },
+    });
+    await expect(validateSchema(isUser, {})).resolves.toMatchObject({ success: false });
+  });
+
+  it('should validate with a parse function', async () => {
+    const parseUser = (data: unknown): User => {
+      if (!isUser(data)) {
+        throw new Error('Not a user');
+      }
+      return { id: data.id };
+    };
+
+    await expect(validateSchema(parseUser, { id: 1, extra: true })).resolves.toEqual({
+      success: true,
+      data: { id: 1 },
+    });
+    await expect(validateSchema(parseUser, {})).resolves.toEqual({
+      success: false,
+      issues: [{ message: 'Not a user', path: [] }],
+    });
+  });
+
+  it('should infer the data type from the schema', () => {
+    const standard: InferSchema<typeof standardUserSchema> = { id: 1 };
+    const safeParse: InferSchema<typeof safeParseUserSchema> = { id: 1 };
+    const guard: InferSchema<typeof isUser> = { id: 1 };
+
+    expect([standard, safeParse, guard]).toHaveLength(3);
+  });
+});
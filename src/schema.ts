@@ -0,0 +1,166 @@
+import type { Route } from './route';
+import type { RequestType } from './axios-retry-client';
+
+export interface ValidationIssue {
+  message: string;
+  /**
+   * Path to the offending value within the response data
+   */
+  path: PropertyKey[];
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * A custom validator object
+ */
+export interface ResponseValidator<T> {
+  validate(data: unknown): ValidationResult<T> | Promise<ValidationResult<T>>;
+}
+
+type StandardSchemaResult<T> =
+  | { value: T; issues?: undefined }
+  | {
+      issues: ReadonlyArray<{
+        message: string;
+        path?: ReadonlyArray<PropertyKey | { key: PropertyKey }> | undefined;
+      }>;
+    };
+
+/**
+ * A schema implementing the [Standard Schema](https://standardschema.dev) interface (zod 3.24+,
+ * valibot 1.x, arktype, etc)
+ */
+export interface StandardSchema<T> {
+  '~standard': {
+    version: 1;
+    vendor: string;
+    validate(value: unknown): StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+}
+
+/**
+ * A schema with a zod style `safeParse` method
+ */
+export interface SafeParseSchema<T> {
+  safeParse(data: unknown):
+    | { success: true; data: T }
+    | {
+        success: false;
+        error: { issues: ReadonlyArray<{ message: string; path: ReadonlyArray<PropertyKey> }> };
+      };
+}
+
+/**
+ * A plain validation function. Either a type guard, or a function that returns the
+ * (possibly transformed) data and throws if it is invalid.
+ */
+export type ValidationFunction<T> = ((data: unknown) => data is T) | ((data: unknown) => T);
+
+export type ResponseSchema<T = any> =
+  | StandardSchema<T>
+  | SafeParseSchema<T>
+  | ResponseValidator<T>
+  | ValidationFunction<T>;
+
+/**
+ * Infers the validated data type from a schema
+ */
+export type InferSchema<S> =
+  S extends StandardSchema<infer T>
+    ? T
+    : S extends SafeParseSchema<infer T>
+      ? T
+      : S extends ResponseValidator<infer T>
+        ? T
+        : S extends (data: unknown) => data is infer T
+          ? T
+          : S extends (data: unknown) => infer T
+            ? T
+            : never;
+
+/**
+ * The response data type for a request config. When the config has a `schema`, the type is
+ * inferred from it, otherwise it falls back to `T`.
+ */
+export type InferResponseData<T, C> = C extends { schema: infer S }
+  ? S extends ResponseSchema
+    ? InferSchema<S>
+    : T
+  : T;
+
+export interface ResponseSchemaRoute {
+  /**
+   * The route this schema applies to
+   */
+  route: Route;
+  /**
+   * The request method this schema applies to. Defaults to all methods
+   */
+  method?: RequestType;
+  schema: ResponseSchema;
+}
+
+/**
+ * Validates data against any of the supported schema types
+ *
+ * @param schema - The schema
+ * @param data - The data to validate
+ * @returns The validation result
+ */
+export const validateSchema = async <T>(
+  schema: ResponseSchema<T>,
+  data: unknown
+): Promise<ValidationResult<T>> => {
+  if ('~standard' in schema) {
+    const result = await schema['~standard'].validate(data);
+
+    if (result.issues) {
+      return {
+        success: false,
+        issues: result.issues.map(issue => ({
+          message: issue.message,
+          path: (issue.path || []).map(segment =>
+            typeof segment === 'object' ? segment.key : segment
+          ),
+        })),
+      };
+    }
+
+    return { success: true, data: result.value };
+  }
+
+  if ('safeParse' in schema && typeof schema.safeParse === 'function') {
+    const result = schema.safeParse(data);
+
+    if (!result.success) {
+      return {
+        success: false,
+        issues: result.error.issues.map(issue => ({
+          message: issue.message,
+          path: [...issue.path],
+        })),
+      };
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  if ('validate' in schema && typeof schema.validate === 'function') {
+    return schema.validate(data);
+  }
+
+  try {
+    const result = (schema as ValidationFunction<T>)(data);
+
+    if (result === false) {
+      return { success: false, issues: [{ message: 'Response failed validation', path: [] }] };
+    }
+
+    return { success: true, data: result === true ? (data as T) : result };
+  } catch (error: any) {
+    return { success: false, issues: [{ message: error?.message || String(error), path: [] }] };
+  }
+};
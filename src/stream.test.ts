@@ -0,0 +1,145 @@
+import { Readable } from 'stream';
+import { discardBody, parseNdjson, parseServerSentEvents, readChunks, readLines } from './stream';
+
+const encoder = new TextEncoder();
+
+async function* chunksOf(...chunks: string[]) {
+  for (const chunk of chunks) {
+    yield encoder.encode(chunk);
+  }
+}
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const values: T[] = [];
+
+  for await (const value of iterable) {
+    values.push(value);
+  }
+
+  return values;
+};
+
+const decode = (chunks: Uint8Array[]) => chunks.map(chunk => new TextDecoder().decode(chunk));
+
+describe('stream', () => {
+  describe('readChunks', () => {
+    it('should read a Node Readable', async () => {
+      const body = Readable.from([Buffer.from('ab'), 'cd']);
+
+      expect(decode(await collect(readChunks(body)))).toEqual(['ab', 'cd']);
+    });
+
+    it('should read a web ReadableStream', async () => {
+      const body = new (globalThis as any).ReadableStream({
+        start(controller: any) {
+          controller.enqueue(encoder.encode('ab'));
+          controller.enqueue(encoder.encode('cd'));
+          controller.close();
+        },
+      });
+
+      expect(decode(await collect(readChunks(body)))).toEqual(['ab', 'cd']);
+    });
+
+    it('should read bodies that were not streamed as a single chunk', async () => {
+      expect(decode(await collect(readChunks('abcd')))).toEqual(['abcd']);
+      expect(decode(await collect(readChunks(encoder.encode('abcd').buffer)))).toEqual(['abcd']);
+      expect(await collect(readChunks(undefined))).toEqual([]);
+    });
+
+    it('should reject bodies that are not streams', async () => {
+      await expect(collect(readChunks({}))).rejects.toThrow(TypeError);
+    });
+  });
+
+  describe('discardBody', () => {
+    it('should destroy a Node Readable', () => {
+      const body = Readable.from(['ab']);
+
+      discardBody(body);
+
+      expect(body.destroyed).toBe(true);
+    });
+
+    it('should cancel a web ReadableStream', async () => {
+      const cancel = jest.fn();
+      const body = new (globalThis as any).ReadableStream({ cancel });
+
+      discardBody(body);
+      await Promise.resolve();
+
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it('should ignore bodies that are not streams', () => {
+      expect(() => discardBody('ab')).not.toThrow();
+      expect(() => discardBody(undefined)).not.toThrow();
+    });
+  });
+
+  describe('readLines', () => {
+    it('should split lines across chunks', async () => {
+      expect(await collect(readLines(chunksOf('one\r', '\ntw', 'o\n\nthree\rfour')))).toEqual([
+        'one',
+        'two',
+        '',
+        'three',
+        'four',
+      ]);
+    });
+
+    it('should decode multi-byte characters split across chunks', async () => {
+      const bytes = encoder.encode('héllo\n');
+
+      async function* split() {
+        yield bytes.subarray(0, 2);
+        yield bytes.subarray(2);
+      }
+
+      expect(await collect(readLines(split()))).toEqual(['héllo']);
+    });
+  });
+
+  describe('parseNdjson', () => {
+    it('should parse one value per line', async () => {
+      expect(
+        await collect(parseNdjson(chunksOf('{"id":1}\n{"id"', ':2}\n\n', '{"id":3}')))
+      ).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    });
+
+    it('should reject invalid lines', async () => {
+      await expect(collect(parseNdjson(chunksOf('{"id":1}\nnope\n')))).rejects.toThrow(SyntaxError);
+    });
+  });
+
+  describe('parseServerSentEvents', () => {
+    it('should parse events', async () => {
+      const events = await collect(
+        parseServerSentEvents(
+          chunksOf(
+            ': keep-alive\n\n',
+            'data: first\n\n',
+            'event: update\nid: 42\nretry: 3000\ndata: line 1\n',
+            'data:line 2\n\n',
+            'data: {"done":true}\r\n\r\n',
+            'data: unterminated'
+          )
+        )
+      );
+
+      expect(events).toEqual([
+        { event: 'message', data: 'first' },
+        { event: 'update', data: 'line 1\nline 2', id: '42', retry: 3000 },
+        { event: 'message', data: '{"done":true}', id: '42', retry: 3000 },
+      ]);
+    });
+
+    it('should ignore events without data and invalid fields', async () => {
+      const events = await collect(
+        parseServerSentEvents(chunksOf('event: ping\n\n', 'retry: soon\nfoo: bar\ndata\n\n'))
+      );
+
+      expect(events).toEqual([{ event: 'message', data: '' }]);
+    });
+  });
+});
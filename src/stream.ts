@@ -0,0 +1,233 @@
+import type { AxiosRetryClientRequestConfig } from './axios-retry-client';
+
+/**
+ * The parts of a web `ReadableStream` used to read it
+ */
+export interface WebReadableStream<R = Uint8Array> {
+  getReader(): {
+    read(): Promise<{ done: boolean; value?: R }>;
+    releaseLock(): void;
+  };
+}
+
+/**
+ * A streamed response body: a Node `Readable` (axios' http adapter) or a web `ReadableStream`
+ * (axios' fetch adapter)
+ */
+export type StreamBody = AsyncIterable<Uint8Array | string> | WebReadableStream;
+
+export interface StreamProgress {
+  /**
+   * Bytes received so far, including bytes received before a resume
+   */
+  loaded: number;
+  /**
+   * Total size in bytes, when the server sent a `Content-Length`
+   */
+  total?: number;
+}
+
+export interface StreamRequestConfig extends AxiosRetryClientRequestConfig {
+  /**
+   * Called every time a chunk of the body is received
+   */
+  onProgress?: (progress: StreamProgress) => void;
+  /**
+   * How many times to resume with a `Range` request when the body fails mid-stream. Defaults to 0
+   */
+  maxResumes?: number;
+}
+
+/**
+ * A server-sent event
+ */
+export interface ServerSentEvent {
+  /**
+   * The event type. Defaults to 'message'
+   */
+  event: string;
+  data: string;
+  /**
+   * The last event id received on the stream
+   */
+  id?: string;
+  /**
+   * The reconnection time (in ms) requested by the server
+   */
+  retry?: number;
+}
+
+/**
+ * Reads the chunks of a streamed response body. Bodies that were not streamed (e.g. by an
+ * adapter without stream support) are yielded as a single chunk.
+ *
+ * @param body - The response body
+ * @returns The chunks
+ */
+export async function* readChunks(body: unknown): AsyncGenerator<Uint8Array, void, undefined> {
+  if (body === undefined || body === null) {
+    return;
+  }
+
+  if (typeof body === 'string' || body instanceof Uint8Array || body instanceof ArrayBuffer) {
+    yield toBytes(body);
+    return;
+  }
+
+  if (typeof (body as any)[Symbol.asyncIterator] === 'function') {
+    for await (const chunk of body as AsyncIterable<Uint8Array | string>) {
+      yield toBytes(chunk);
+    }
+    return;
+  }
+
+  if (typeof (body as any).getReader === 'function') {
+    const reader = (body as WebReadableStream).getReader();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          return;
+        }
+
+        if (value !== undefined) {
+          yield toBytes(value);
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  throw new TypeError('Response body is not a stream');
+}
+
+/**
+ * @param chunk - A chunk of a response body
+ * @returns The chunk as bytes
+ */
+const toBytes = (chunk: Uint8Array | ArrayBuffer | string): Uint8Array =>
+  typeof chunk === 'string'
+    ? new TextEncoder().encode(chunk)
+    : chunk instanceof Uint8Array
+      ? chunk
+      : new Uint8Array(chunk);
+
+/**
+ * Closes a streamed response body that won't be read, so its connection isn't left open.
+ * Anything that isn't a stream is ignored.
+ *
+ * @param body - The response body
+ */
+export const discardBody = (body: unknown): void => {
+  if (typeof (body as any)?.destroy === 'function') {
+    (body as any).destroy();
+  } else if (typeof (body as any)?.cancel === 'function') {
+    Promise.resolve((body as any).cancel()).catch(() => {
+      // the body is being thrown away, so failing to cancel it doesn't matter
+    });
+  }
+};
+
+/**
+ * Decodes chunks of UTF-8 text into lines. Lines may end with `\n`, `\r\n` or `\r`, and a last
+ * line without a line ending is yielded too.
+ *
+ * @param chunks - The chunks
+ * @returns The lines, without line endings
+ */
+export async function* readLines(
+  chunks: AsyncIterable<Uint8Array>
+): AsyncGenerator<string, void, undefined> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let match: RegExpExecArray | null;
+
+    // a trailing `\r` may be the start of a `\r\n` split across chunks
+    while ((match = /\r\n|\r(?!$)|\n/.exec(buffer))) {
+      yield buffer.slice(0, match.index);
+      buffer = buffer.slice(match.index + match[0].length);
+    }
+  }
+
+  buffer += decoder.decode();
+
+  for (const line of buffer.split(/\r\n|\r|\n/)) {
+    if (line) {
+      yield line;
+    }
+  }
+}
+
+/**
+ * Parses newline delimited JSON, skipping blank lines
+ *
+ * @param chunks - The chunks of the response body
+ * @returns The parsed values
+ */
+export async function* parseNdjson<T = any>(
+  chunks: AsyncIterable<Uint8Array>
+): AsyncGenerator<T, void, undefined> {
+  for await (const line of readLines(chunks)) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
+
+/**
+ * Parses a `text/event-stream` body into events, following the HTML event stream
+ * interpretation rules. An event the stream ends in the middle of is dropped.
+ *
+ * @param chunks - The chunks of the response body
+ * @returns The events
+ */
+export async function* parseServerSentEvents(
+  chunks: AsyncIterable<Uint8Array>
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  let event = '';
+  let data: string[] = [];
+  let id: string | undefined;
+  let retry: number | undefined;
+
+  for await (const line of readLines(chunks)) {
+    if (line === '') {
+      if (data.length) {
+        yield {
+          event: event || 'message',
+          data: data.join('\n'),
+          ...(id !== undefined && { id }),
+          ...(retry !== undefined && { retry }),
+        };
+      }
+
+      event = '';
+      data = [];
+      continue;
+    }
+
+    if (line.startsWith(':')) {
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    } else if (field === 'id' && !value.includes('\0')) {
+      id = value;
+    } else if (field === 'retry' && /^\d+$/.test(value)) {
+      retry = Number(value);
+    }
+  }
+}
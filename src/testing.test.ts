@@ -0,0 +1,320 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AxiosRetryClient,
+  ApiCancelledError,
+  ApiNetworkError,
+  ApiRequestSetupError,
+  ApiResponseError,
+  ApiTimeoutError,
+} from './axios-retry-client';
+import { MockAdapter, RecordReplay, UnmatchedRequestError } from './testing';
+
+const createClient = (baseURL = 'https://api.example.com') =>
+  new AxiosRetryClient({
+    baseURL,
+    name: 'Testing',
+    retryConfig: { retries: 3, retryDelay: () => 1 },
+  });
+
+describe('testing', () => {
+  describe('MockAdapter', () => {
+    let client: AxiosRetryClient;
+    let mock: MockAdapter;
+
+    beforeEach(() => {
+      client = createClient();
+      mock = new MockAdapter().attach(client);
+    });
+
+    it('should match on method, URL template, query and body', async () => {
+      mock.onGet('/users/:id', { query: { expand: true } }).reply(200, { id: 1, expanded: true });
+      mock.onGet('/users/:id').reply(200, { id: 1 });
+      mock
+        .onPost('/users', { body: { name: 'Ada' } })
+        .reply(request => [201, { id: 2, ...(request.body as object) }]);
+
+      expect((await client.get('/users/1', { params: { expand: true } })).data).toEqual({
+        id: 1,
+        expanded: true,
+      });
+      expect((await client.get('/users/1?expand=false')).data).toEqual({ id: 1 });
+      expect((await client.post('/users', { name: 'Ada', age: 36 })).data).toEqual({
+        id: 2,
+        name: 'Ada',
+        age: 36,
+      });
+      await expect(client.post('/users', { name: 'Grace' })).rejects.toThrow(
+        'No mock route matched POST /users (body: {"name":"Grace"})'
+      );
+    });
+
+    it('should fail requests that no route matches', async () => {
+      const error = await client.get('/missing', { params: { page: 2 } }).catch(error => error);
+
+      expect(error).toBeInstanceOf(ApiRequestSetupError);
+      expect(error.message).toContain('No mock route matched GET /missing (query: {"page":"2"})');
+      expect(error.cause).toBeInstanceOf(UnmatchedRequestError);
+      expect(error.cause.mockRequest).toMatchObject({ method: 'GET', url: '/missing' });
+    });
+
+    it('should match on headers and body predicates', async () => {
+      mock
+        .onPut('/settings', {
+          headers: { Authorization: 'Bearer token' },
+          body: (body: any) => body.theme === 'dark',
+        })
+        .reply(204);
+
+      await client.put(
+        '/settings',
+        { theme: 'dark' },
+        { headers: { authorization: 'Bearer token' } }
+      );
+      await expect(client.put('/settings', { theme: 'dark' })).rejects.toThrow(
+        'No mock route matched'
+      );
+    });
+
+    it('should script sequences of replies and record every attempt', async () => {
+      mock
+        .onGet('/flaky')
+        .replyOnce(503)
+        .replyOnce(503, { error: 'busy' })
+        .reply(200, { ok: true });
+
+      const response = await client.get('/flaky');
+
+      expect(response.data).toEqual({ ok: true });
+      expect(mock.callsTo('GET', '/flaky').map(call => call.attempt)).toEqual([1, 2, 3]);
+      expect(mock.pendingRoutes()).toEqual([]);
+    });
+
+    it('should fall through to later routes once replies are used up', async () => {
+      mock.onGet('/items').replyOnce(200, ['first']);
+      mock.onAny('/items').reply(200, ['rest']);
+
+      expect((await client.get('/items')).data).toEqual(['first']);
+      expect((await client.get('/items')).data).toEqual(['rest']);
+    });
+
+    it('should reply with response headers', async () => {
+      mock.onGet('/export').reply(200, 'a,b', { 'content-type': 'text/csv' });
+
+      const { request } = await client.get('/export');
+
+      expect(request.headers['content-type']).toBe('text/csv');
+    });
+
+    it('should simulate network errors and timeouts', async () => {
+      mock.onGet('/network').networkErrorOnce().reply(200, 'ok');
+      mock.onGet('/down').networkError();
+      mock.onGet('/slow').timeout();
+
+      expect((await client.get('/network')).data).toBe('ok');
+      await expect(client.get('/down')).rejects.toBeInstanceOf(ApiNetworkError);
+      expect(mock.callsTo('GET', '/down')).toHaveLength(4);
+      await expect(client.get('/slow', { retryConfig: { retries: 0 } })).rejects.toBeInstanceOf(
+        ApiTimeoutError
+      );
+    });
+
+    it('should delay replies and honor cancellation', async () => {
+      mock = new MockAdapter({ delay: 1000 }).attach(client);
+      mock.onGet('/slow').reply(200);
+      const controller = new AbortController();
+
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(client.get('/slow', { signal: controller.signal })).rejects.toBeInstanceOf(
+        ApiCancelledError
+      );
+    });
+
+    it('should record query params and parsed bodies', async () => {
+      mock.onAny().reply(200);
+
+      await client.post('/search?page=2', { term: 'axios' }, { params: { tag: ['a', 'b'] } });
+
+      expect(mock.calls).toHaveLength(1);
+      expect(mock.calls[0]).toMatchObject({
+        method: 'POST',
+        url: '/search',
+        query: { page: '2', tag: ['a', 'b'] },
+        body: { term: 'axios' },
+        attempt: 1,
+      });
+      expect(mock.calls[0].headers['content-type']).toContain('application/json');
+    });
+
+    it('should restore the adapter when detached', () => {
+      const other = createClient();
+      const adapter = other.axios.defaults.adapter;
+      const otherMock = new MockAdapter().attach(other);
+
+      expect(other.axios.defaults.adapter).toBe(otherMock.adapter);
+
+      otherMock.detach();
+
+      expect(other.axios.defaults.adapter).toBe(adapter);
+    });
+
+    it('should reset routes and calls', async () => {
+      mock.onGet('/users').replyOnce(200, []);
+
+      mock.reset();
+
+      expect(mock.pendingRoutes()).toEqual([]);
+      expect(mock.calls).toEqual([]);
+      await expect(client.get('/users')).rejects.toThrow('No mock route matched');
+    });
+  });
+
+  describe('RecordReplay', () => {
+    let server: Server;
+    let baseURL: string;
+    let directory: string;
+    let fixture: string;
+    let requests: number;
+
+    beforeEach(async () => {
+      requests = 0;
+      server = createServer((request, response) => {
+        requests++;
+
+        if (request.url === '/users?page=1') {
+          response
+            .writeHead(200, { 'content-type': 'application/json' })
+            .end(JSON.stringify([{ id: 1 }]));
+        } else if (request.url === '/login') {
+          response
+            .writeHead(200, { 'set-cookie': 'session=secret', 'x-request-id': 'abc' })
+            .end('ok');
+        } else if (request.url === '/count') {
+          response.writeHead(200, { 'content-type': 'text/plain' }).end('42');
+        } else if (request.url === '/flaky' && requests === 2) {
+          response.writeHead(503).end('busy');
+        } else if (request.url === '/flaky') {
+          response.writeHead(200).end('recovered');
+        } else {
+          response.writeHead(404, { 'content-type': 'application/json' }).end('{"message":"nope"}');
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      directory = mkdtempSync(join(tmpdir(), 'axios-retry-client-'));
+      fixture = join(directory, 'fixtures', 'users.json');
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should record interactions and replay them offline', async () => {
+      const recordingClient = createClient(baseURL);
+      const recorder = new RecordReplay({ fixture }).attach(recordingClient);
+
+      expect(recorder.mode).toBe('record');
+
+      await recordingClient.get('/users', {
+        params: { page: 1 },
+        headers: { Authorization: 'Bearer secret' },
+      });
+      await recordingClient.get('/flaky');
+      await expect(recordingClient.get('/missing')).rejects.toBeInstanceOf(ApiResponseError);
+      await recorder.save();
+
+      expect(requests).toBe(4);
+      expect(readFileSync(fixture, 'utf8')).not.toContain('secret');
+
+      // nothing listens on this port, so every request has to be replayed
+      const replayingClient = createClient('http://127.0.0.1:1');
+      const player = new RecordReplay({ fixture }).attach(replayingClient);
+
+      expect(player.mode).toBe('replay');
+      expect((await replayingClient.get('/users', { params: { page: 1 } })).data).toEqual([
+        { id: 1 },
+      ]);
+
+      const flaky = await replayingClient.get('/flaky');
+      expect(flaky.data).toBe('recovered');
+      expect(flaky.metrics!.attempts).toBe(2);
+
+      await expect(replayingClient.get('/missing')).rejects.toMatchObject({
+        status: 404,
+        response: { message: 'nope' },
+      });
+      await expect(replayingClient.get('/users', { params: { page: 2 } })).rejects.toThrow(
+        'No recorded interaction matched GET /users'
+      );
+      expect(requests).toBe(4);
+    });
+
+    it('should replay responses as they were recorded', async () => {
+      const recordingClient = createClient(baseURL);
+      const recorder = new RecordReplay({ fixture }).attach(recordingClient);
+
+      const recorded = await recordingClient.get('/count', { responseType: 'text' });
+      await recordingClient.get('/users?page=1');
+      await recorder.save();
+
+      expect(JSON.parse(readFileSync(fixture, 'utf8')).interactions[1].response.data).toEqual([
+        { id: 1 },
+      ]);
+
+      const replayingClient = createClient('http://127.0.0.1:1');
+      new RecordReplay({ fixture }).attach(replayingClient);
+
+      const replayed = await replayingClient.get('/count', { responseType: 'text' });
+
+      expect(recorded.data).toBe('42');
+      expect(replayed.data).toBe('42');
+      expect((await replayingClient.get('/users?page=1')).data).toEqual([{ id: 1 }]);
+    });
+
+    it('should redact sensitive response headers in fixtures', async () => {
+      const recordingClient = createClient(baseURL);
+      const recorder = new RecordReplay({ fixture }).attach(recordingClient);
+
+      await recordingClient.get('/login');
+      await recorder.save();
+
+      expect(readFileSync(fixture, 'utf8')).not.toContain('secret');
+      expect(recorder.interactions[0].response.headers).toMatchObject({
+        'set-cookie': '[REDACTED]',
+        'x-request-id': 'abc',
+      });
+    });
+
+    it('should save response headers as received when redaction is off', async () => {
+      const recordingClient = createClient(baseURL);
+      const recorder = new RecordReplay({ fixture, redact: false }).attach(recordingClient);
+
+      await recordingClient.get('/login');
+
+      expect(recorder.interactions[0].response.headers['set-cookie']).toBe('session=secret');
+    });
+
+    it('should record again when the mode is set', async () => {
+      const recordingClient = createClient(baseURL);
+
+      await new RecordReplay({ fixture }).attach(recordingClient).save();
+
+      const recorder = new RecordReplay({ fixture, mode: 'record' }).attach(recordingClient);
+      await recordingClient.get('/users?page=1');
+      await recorder.save();
+
+      expect(JSON.parse(readFileSync(fixture, 'utf8')).interactions).toEqual([
+        {
+          request: { method: 'GET', url: '/users', query: { page: '1' } },
+          response: expect.objectContaining({ status: 200, data: [{ id: 1 }] }),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,804 @@
+import axios, { AxiosError } from 'axios';
+import type {
+  AxiosAdapter,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { Redactor, type RedactionOptions } from './redact';
+import { matchRoute, type Route } from './route';
+
+/**
+ * Anything with an axios instance, e.g. an `AxiosRetryClient` or a subclass of it
+ */
+export interface MockTarget {
+  axios: AxiosInstance;
+}
+
+/**
+ * A request received by a mock, as it was sent by axios
+ */
+export interface MockRequest {
+  /**
+   * The uppercase method
+   */
+  method: string;
+  /**
+   * The URL as passed to the client, without the base URL
+   */
+  url: string;
+  /**
+   * The query params, from both the URL and `params`. Repeated params are arrays
+   */
+  query: Record<string, string | string[]>;
+  /**
+   * The headers, with lowercase names
+   */
+  headers: Record<string, string>;
+  /**
+   * The body, parsed if it's JSON
+   */
+  body: unknown;
+  config: InternalAxiosRequestConfig;
+}
+
+/**
+ * A request recorded by a mock
+ */
+export interface MockCall extends MockRequest {
+  /**
+   * The attempt number, starting at 1. Higher for retries
+   */
+  attempt: number;
+}
+
+/**
+ * `[status, data?, headers?]`
+ */
+export type MockResponse = [number, unknown?, Record<string, string>?];
+
+export type MockReplyFunction = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/**
+ * Extra conditions a request has to meet to match a mock route. Objects match when they have the
+ * expected properties, so other properties are ignored.
+ */
+export interface MockMatcher {
+  query?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  /**
+   * The expected body, or a function that checks it
+   */
+  body?: unknown;
+}
+
+export interface MockAdapterOptions {
+  /**
+   * Delay (in ms) before every reply. Defaults to 0
+   */
+  delay?: number;
+}
+
+type Reply = (request: MockRequest) => Promise<MockResponse>;
+
+/**
+ * Thrown by `MockAdapter` when no route matches a request, and by `RecordReplay` when no
+ * recorded interaction does. The message lists the query and body so a failing test shows what
+ * was actually sent.
+ * @extends Error
+ */
+export class UnmatchedRequestError extends Error {
+  /**
+   * The request that nothing matched. Not named `request`, which would make the client treat
+   * this as a network error
+   */
+  mockRequest: MockRequest;
+
+  /**
+   * Creates an instance of UnmatchedRequestError.
+   * @param {string} message - The error message.
+   * @param {MockRequest} mockRequest - The request that nothing matched.
+   */
+  constructor(message: string, mockRequest: MockRequest) {
+    const details = [
+      Object.keys(mockRequest.query).length && `query: ${JSON.stringify(mockRequest.query)}`,
+      mockRequest.body !== undefined && `body: ${JSON.stringify(mockRequest.body)}`,
+    ].filter(Boolean);
+
+    super(details.length ? `${message} (${details.join(', ')})` : message);
+    this.mockRequest = mockRequest;
+  }
+}
+
+/**
+ * Parses a request body that was serialized to JSON
+ *
+ * @param data - The request data
+ * @returns The parsed body
+ */
+const parseBody = (data: unknown): unknown => {
+  if (typeof data !== 'string') {
+    return data;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+/**
+ * Reads the query params of a request from its URL and `params`
+ *
+ * @param config - The request config
+ * @returns The query params
+ */
+const getQuery = (config: AxiosRequestConfig): Record<string, string | string[]> => {
+  const search = new URLSearchParams((config.url || '').split('#')[0].split('?')[1] || '');
+
+  for (const [key, value] of Object.entries(config.params || {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        search.append(key, typeof item === 'object' ? JSON.stringify(item) : String(item));
+      }
+    }
+  }
+
+  const query: Record<string, string | string[]> = {};
+
+  for (const key of new Set(search.keys())) {
+    const values = search.getAll(key);
+    query[key] = values.length === 1 ? values[0] : values;
+  }
+
+  return query;
+};
+
+/**
+ * Describes a request sent through an adapter
+ *
+ * @param config - The request config
+ * @returns The request
+ */
+const toMockRequest = (config: InternalAxiosRequestConfig): MockRequest => {
+  const headers: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(config.headers?.toJSON?.() || config.headers || {})) {
+    if (value !== undefined && value !== null) {
+      headers[name.toLowerCase()] = String(value);
+    }
+  }
+
+  return {
+    method: (config.method || 'get').toUpperCase(),
+    url: (config.url || '').split(/[?#]/)[0],
+    query: getQuery(config),
+    headers,
+    body: parseBody(config.data),
+    config,
+  };
+};
+
+/**
+ * Checks whether a value has the expected value. Objects match when they have the expected
+ * properties, arrays when they have the same length and matching items, and query values are
+ * compared as strings.
+ *
+ * @param expected - The expected value
+ * @param actual - The actual value
+ * @returns Whether the value matches
+ */
+const matchValue = (expected: unknown, actual: unknown): boolean => {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      expected.length === actual.length &&
+      expected.every((item, i) => matchValue(item, actual[i]))
+    );
+  }
+
+  if (expected && typeof expected === 'object') {
+    return (
+      !!actual &&
+      typeof actual === 'object' &&
+      Object.entries(expected).every(([key, value]) => matchValue(value, (actual as any)[key]))
+    );
+  }
+
+  return (
+    expected === actual ||
+    (typeof actual === 'string' && typeof expected !== 'string' && String(expected) === actual)
+  );
+};
+
+/**
+ * Resolves after a delay, or rejects if the request is aborted first
+ *
+ * @param ms - The delay in ms
+ * @param config - The request config
+ */
+const wait = (ms: number, config: InternalAxiosRequestConfig): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const signal = config.signal as AbortSignal | undefined;
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new AxiosError('canceled', AxiosError.ERR_CANCELED, config));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', abort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener?.('abort', abort);
+    }
+  });
+
+/**
+ * Builds the axios response for a reply, rejecting it like axios does when its status isn't
+ * valid
+ *
+ * @param config - The request config
+ * @param response - The reply
+ * @returns The response
+ */
+const settle = (
+  config: InternalAxiosRequestConfig,
+  [status, data, headers = {}]: MockResponse
+): AxiosResponse => {
+  const response: AxiosResponse = {
+    data,
+    status,
+    statusText: '',
+    headers,
+    config,
+    request: {},
+  };
+
+  if (config.validateStatus && !config.validateStatus(status)) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  return response;
+};
+
+/**
+ * Replaces the adapter of a client's axios instance
+ *
+ * @param target - The client
+ * @param adapter - The adapter
+ * @returns A function that restores the previous adapter
+ */
+const attachAdapter = (target: MockTarget, adapter: AxiosAdapter): (() => void) => {
+  const previous = target.axios.defaults.adapter!;
+
+  target.axios.defaults.adapter = adapter;
+
+  return () => {
+    target.axios.defaults.adapter = previous;
+  };
+};
+
+/**
+ * The replies of a mocked route
+ */
+export class MockRoute {
+  private once: Reply[] = [];
+  private always: Reply | undefined;
+
+  constructor(
+    public method: string | undefined,
+    public url: Route | undefined,
+    public matcher: MockMatcher = {}
+  ) {}
+
+  /**
+   * Replies to every request that isn't answered by a `...Once` reply
+   *
+   * @param status - The status, or a function that builds the response
+   * @param data - The response data
+   * @param headers - The response headers
+   */
+  reply(status: number | MockReplyFunction, data?: unknown, headers?: Record<string, string>) {
+    this.always = this.toReply(status, data, headers);
+    return this;
+  }
+
+  /**
+   * Replies to the next request. Chain calls to script a sequence, e.g.
+   * `.replyOnce(503).replyOnce(503).reply(200, data)`
+   *
+   * @param status - The status, or a function that builds the response
+   * @param data - The response data
+   * @param headers - The response headers
+   */
+  replyOnce(status: number | MockReplyFunction, data?: unknown, headers?: Record<string, string>) {
+    this.once.push(this.toReply(status, data, headers));
+    return this;
+  }
+
+  /**
+   * Fails every request with a network error
+   */
+  networkError() {
+    this.always = this.toError('Network Error', AxiosError.ERR_NETWORK);
+    return this;
+  }
+
+  /**
+   * Fails the next request with a network error
+   */
+  networkErrorOnce() {
+    this.once.push(this.toError('Network Error', AxiosError.ERR_NETWORK));
+    return this;
+  }
+
+  /**
+   * Fails every request with a timeout
+   */
+  timeout() {
+    this.always = this.toError('timeout exceeded', AxiosError.ECONNABORTED);
+    return this;
+  }
+
+  /**
+   * Fails the next request with a timeout
+   */
+  timeoutOnce() {
+    this.once.push(this.toError('timeout exceeded', AxiosError.ECONNABORTED));
+    return this;
+  }
+
+  /**
+   * @returns Whether the route has `...Once` replies that weren't used
+   */
+  isPending(): boolean {
+    return this.once.length > 0;
+  }
+
+  /**
+   * Checks whether the route matches a request and has a reply for it
+   *
+   * @param request - The request
+   * @returns Whether it matches
+   */
+  matches(request: MockRequest): boolean {
+    const { query, headers, body } = this.matcher;
+
+    return (
+      (this.once.length > 0 || this.always !== undefined) &&
+      (!this.method || this.method === request.method) &&
+      (this.url === undefined || matchRoute(this.url, request.url)) &&
+      (query === undefined || matchValue(query, request.query)) &&
+      (headers === undefined ||
+        matchValue(
+          Object.fromEntries(
+            Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+          ),
+          request.headers
+        )) &&
+      (body === undefined ||
+        (typeof body === 'function' ? !!body(request.body) : matchValue(body, request.body)))
+    );
+  }
+
+  /**
+   * Takes the next reply
+   *
+   * @param request - The request
+   * @returns The response
+   */
+  respond(request: MockRequest): Promise<MockResponse> {
+    return (this.once.shift() || this.always!)(request);
+  }
+
+  private toReply(
+    status: number | MockReplyFunction,
+    data?: unknown,
+    headers?: Record<string, string>
+  ): Reply {
+    return async request =>
+      typeof status === 'function'
+        ? status(request)
+        : headers
+          ? [status, data, headers]
+          : [status, data];
+  }
+
+  private toError(message: string, code: string): Reply {
+    return async request => {
+      throw new AxiosError(message, code, request.config, {});
+    };
+  }
+}
+
+/**
+ * An axios adapter that replies to requests from mocked routes and records every request, for
+ * testing code that uses the client without a server. Retries, hooks and error handling run as
+ * they would against a real server.
+ *
+ * @example
+ * const mock = new MockAdapter().attach(client);
+ *
+ * mock.onGet('/users/:id').replyOnce(503).replyOnce(503).reply(200, { id: 1 });
+ *
+ * await client.get('/users/1');
+ * expect(mock.callsTo('GET', '/users/:id')).toHaveLength(3);
+ */
+export class MockAdapter {
+  /**
+   * Every request received, in order
+   */
+  calls: MockCall[] = [];
+
+  private routes: MockRoute[] = [];
+  private detachAdapter: (() => void) | undefined;
+
+  constructor(private options: MockAdapterOptions = {}) {}
+
+  /**
+   * The adapter, to pass in `axiosConfig: { adapter }` instead of using `attach()`
+   */
+  adapter: AxiosAdapter = async config => {
+    const request = toMockRequest(config);
+
+    this.calls.push({ ...request, attempt: (config['axios-retry']?.retryCount || 0) + 1 });
+
+    if (this.options.delay) {
+      await wait(this.options.delay, config);
+    }
+
+    const route = this.routes.find(candidate => candidate.matches(request));
+
+    if (!route) {
+      throw new UnmatchedRequestError(
+        `No mock route matched ${request.method} ${request.url}`,
+        request
+      );
+    }
+
+    return settle(config, await route.respond(request));
+  };
+
+  /**
+   * Sends the requests of a client to this mock
+   *
+   * @param target - The client
+   * @returns The mock
+   */
+  attach(target: MockTarget): this {
+    this.detach();
+    this.detachAdapter = attachAdapter(target, this.adapter);
+    return this;
+  }
+
+  /**
+   * Restores the adapter of the attached client
+   */
+  detach() {
+    this.detachAdapter?.();
+    this.detachAdapter = undefined;
+  }
+
+  /**
+   * Mocks requests. Routes are matched in the order they were added.
+   *
+   * @param method - The method, or undefined for any method
+   * @param url - A path template (e.g. `/users/:id`) or RegExp, or undefined for any URL
+   * @param matcher - Query, header and body conditions
+   * @returns The route, to add replies to
+   */
+  on(method: string | undefined, url?: Route, matcher?: MockMatcher): MockRoute {
+    const route = new MockRoute(method?.toUpperCase(), url, matcher);
+
+    this.routes.push(route);
+    return route;
+  }
+
+  onGet(url?: Route, matcher?: MockMatcher) {
+    return this.on('GET', url, matcher);
+  }
+
+  onPost(url?: Route, matcher?: MockMatcher) {
+    return this.on('POST', url, matcher);
+  }
+
+  onPut(url?: Route, matcher?: MockMatcher) {
+    return this.on('PUT', url, matcher);
+  }
+
+  onPatch(url?: Route, matcher?: MockMatcher) {
+    return this.on('PATCH', url, matcher);
+  }
+
+  onDelete(url?: Route, matcher?: MockMatcher) {
+    return this.on('DELETE', url, matcher);
+  }
+
+  onHead(url?: Route, matcher?: MockMatcher) {
+    return this.on('HEAD', url, matcher);
+  }
+
+  onOptions(url?: Route, matcher?: MockMatcher) {
+    return this.on('OPTIONS', url, matcher);
+  }
+
+  onAny(url?: Route, matcher?: MockMatcher) {
+    return this.on(undefined, url, matcher);
+  }
+
+  /**
+   * @param method - The method, or undefined for any method
+   * @param url - A path template or RegExp, or undefined for any URL
+   * @returns The recorded requests that match
+   */
+  callsTo(method?: string, url?: Route): MockCall[] {
+    return this.calls.filter(
+      call =>
+        (!method || call.method === method.toUpperCase()) &&
+        (url === undefined || matchRoute(url, call.url))
+    );
+  }
+
+  /**
+   * @returns The routes with `...Once` replies that weren't used
+   */
+  pendingRoutes(): MockRoute[] {
+    return this.routes.filter(route => route.isPending());
+  }
+
+  /**
+   * Clears the recorded requests
+   */
+  resetCalls() {
+    this.calls = [];
+  }
+
+  /**
+   * Clears the routes and the recorded requests
+   */
+  reset() {
+    this.routes = [];
+    this.resetCalls();
+  }
+}
+
+/**
+ * A recorded request and its response
+ */
+export interface Interaction {
+  request: {
+    method: string;
+    url: string;
+    query?: Record<string, string | string[]>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    data: unknown;
+  };
+}
+
+export interface RecordReplayOptions {
+  /**
+   * Path of the JSON fixture file
+   */
+  fixture: string;
+  /**
+   * `record` sends requests to the server and saves them, `replay` answers them from the fixture
+   * file without a network. Defaults to `replay` if the fixture file exists, otherwise `record`.
+   */
+  mode?: 'record' | 'replay';
+  /**
+   * The adapter that sends requests when recording. Defaults to axios' default adapter
+   */
+  adapter?: AxiosAdapter;
+  /**
+   * Redacts secrets from the recorded response headers, e.g. `Set-Cookie`. Pass options to
+   * redact more headers or change the replacement, or `false` to save them as received.
+   * Defaults to `true`
+   */
+  redact?: boolean | RedactionOptions;
+}
+
+/**
+ * Converts a recorded response body for a fixture. JSON bodies are saved parsed so fixtures are
+ * readable, anything else (including strings that are JSON strings) is saved as received.
+ *
+ * @param data - The response body, as the adapter returned it
+ * @returns The fixture data
+ */
+const toFixtureData = (data: unknown): unknown => {
+  const parsed = parseBody(data);
+
+  return typeof parsed === 'string' ? data : parsed;
+};
+
+/**
+ * Converts fixture data back to the response body the adapter returned, so the client parses a
+ * replayed response exactly like the recorded one
+ *
+ * @param data - The fixture data
+ * @returns The response body
+ */
+const fromFixtureData = (data: unknown): unknown =>
+  typeof data === 'string' || data === undefined ? data : JSON.stringify(data);
+
+/**
+ * Builds the key requests are matched on when replaying
+ *
+ * @param request - The request
+ * @returns The key
+ */
+const getInteractionKey = ({ method, url, query = {}, body }: Interaction['request']): string =>
+  JSON.stringify([
+    method,
+    url,
+    Object.keys(query)
+      .sort()
+      .map(key => [key, query[key]]),
+    body ?? null,
+  ]);
+
+/**
+ * An axios adapter that records real requests and responses to a fixture file, and replays them
+ * offline. Requests are matched on their method, URL, query and body. Identical requests are
+ * replayed in the order they were recorded (e.g. a 503 and then the 200 of its retry), the last
+ * one being repeated. Only request details used for matching are saved, so request headers (and
+ * the credentials in them) never end up in fixtures, and sensitive response headers such as
+ * `Set-Cookie` are saved redacted. JSON response bodies are saved parsed and replayed as JSON
+ * text, like the server sent them. Streamed and binary responses aren't supported.
+ *
+ * @example
+ * const recorder = new RecordReplay({ fixture: '__fixtures__/users.json' }).attach(client);
+ *
+ * await client.get('/users');
+ * await recorder.save(); // only writes the file when recording
+ */
+export class RecordReplay {
+  mode: 'record' | 'replay';
+  interactions: Interaction[];
+
+  private used = new Map<string, number>();
+  private detachAdapter: (() => void) | undefined;
+  private redactor: Redactor | undefined;
+
+  constructor(private options: RecordReplayOptions) {
+    this.redactor =
+      options.redact === false
+        ? undefined
+        : new Redactor(typeof options.redact === 'object' ? options.redact : {});
+    this.mode = options.mode ?? (existsSync(options.fixture) ? 'replay' : 'record');
+    this.interactions =
+      this.mode === 'replay'
+        ? JSON.parse(readFileSync(options.fixture, 'utf8')).interactions || []
+        : [];
+  }
+
+  /**
+   * The adapter, to pass in `axiosConfig: { adapter }` instead of using `attach()`
+   */
+  adapter: AxiosAdapter = async config => {
+    const mockRequest = toMockRequest(config);
+    const { method, url, query, body } = mockRequest;
+    const request: Interaction['request'] = {
+      method,
+      url,
+      ...(Object.keys(query).length && { query }),
+      ...(body !== undefined && { body }),
+    };
+
+    if (this.mode === 'replay') {
+      return settle(config, this.replay(request, mockRequest));
+    }
+
+    const send = this.options.adapter || axios.getAdapter(axios.defaults.adapter);
+    let response: AxiosResponse;
+
+    try {
+      response = await send(config);
+    } catch (error) {
+      if (!axios.isAxiosError(error) || !error.response) {
+        throw error;
+      }
+
+      response = error.response;
+    }
+
+    const headers: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(response.headers || {})) {
+      if (value !== undefined && value !== null) {
+        headers[name.toLowerCase()] = String(value);
+      }
+    }
+
+    this.interactions.push({
+      request,
+      response: {
+        status: response.status,
+        headers: this.redactor ? this.redactor.redact(headers) : headers,
+        data: toFixtureData(response.data),
+      },
+    });
+
+    return settle(config, [response.status, response.data, headers]);
+  };
+
+  /**
+   * Sends the requests of a client through the recorder
+   *
+   * @param target - The client
+   * @returns The recorder
+   */
+  attach(target: MockTarget): this {
+    this.detach();
+    this.detachAdapter = attachAdapter(target, this.adapter);
+    return this;
+  }
+
+  /**
+   * Restores the adapter of the attached client
+   */
+  detach() {
+    this.detachAdapter?.();
+    this.detachAdapter = undefined;
+  }
+
+  /**
+   * Writes the recorded interactions to the fixture file. Does nothing when replaying.
+   */
+  async save() {
+    if (this.mode !== 'record') {
+      return;
+    }
+
+    await mkdir(dirname(this.options.fixture), { recursive: true });
+    await writeFile(
+      this.options.fixture,
+      `${JSON.stringify({ interactions: this.interactions }, null, 2)}\n`
+    );
+  }
+
+  /**
+   * Finds the recorded response for a request
+   *
+   * @param request - The request, as it's matched on
+   * @param mockRequest - The request, as it was sent
+   * @returns The response
+   */
+  private replay(request: Interaction['request'], mockRequest: MockRequest): MockResponse {
+    const key = getInteractionKey(request);
+    const matches = this.interactions.filter(
+      interaction => getInteractionKey(interaction.request) === key
+    );
+
+    if (!matches.length) {
+      throw new UnmatchedRequestError(
+        `No recorded interaction matched ${request.method} ${request.url} in ${this.options.fixture}`,
+        mockRequest
+      );
+    }
+
+    const index = Math.min(this.used.get(key) || 0, matches.length - 1);
+    const { status, data, headers } = matches[index].response;
+
+    this.used.set(key, index + 1);
+
+    return [status, fromFixtureData(data), headers];
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  InMemoryTracer,
+  SpanKind,
+  SpanStatusCode,
+  formatTraceparent,
+  parseTraceparent,
+} from './tracing';
+
+describe('tracing', () => {
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  const spanId = '00f067aa0ba902b7';
+
+  describe('formatTraceparent', () => {
+    it('should format a W3C traceparent header', () => {
+      expect(formatTraceparent({ traceId, spanId, traceFlags: 1 })).toBe(
+        `00-${traceId}-${spanId}-01`
+      );
+      expect(formatTraceparent({ traceId, spanId, traceFlags: 0 })).toBe(
+        `00-${traceId}-${spanId}-00`
+      );
+    });
+  });
+
+  describe('parseTraceparent', () => {
+    it('should parse a valid header', () => {
+      expect(parseTraceparent(`00-${traceId}-${spanId}-01`)).toEqual({
+        traceId,
+        spanId,
+        traceFlags: 1,
+      });
+      expect(parseTraceparent(` 00-${traceId.toUpperCase()}-${spanId}-00 `)).toEqual({
+        traceId,
+        spanId,
+        traceFlags: 0,
+      });
+    });
+
+    it('should reject invalid headers', () => {
+      expect(parseTraceparent('')).toBeUndefined();
+      expect(parseTraceparent(`ff-${traceId}-${spanId}-01`)).toBeUndefined();
+      expect(parseTraceparent(`00-${'0'.repeat(32)}-${spanId}-01`)).toBeUndefined();
+      expect(parseTraceparent(`00-${traceId}-${'0'.repeat(16)}-01`)).toBeUndefined();
+      expect(parseTraceparent(`00-${traceId}-${spanId}`)).toBeUndefined();
+    });
+  });
+
+  describe('InMemoryTracer', () => {
+    it('should record finished spans', () => {
+      const tracer = new InMemoryTracer();
+      const span = tracer.startSpan('GET /users', {
+        kind: SpanKind.CLIENT,
+        attributes: { 'http.request.method': 'GET' },
+        startTime: 1000,
+      });
+
+      span.setAttribute('http.response.status_code', 500);
+      span.addEvent('retry', { attempt: 1 });
+      span.recordException(new Error('Boom'));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: 'Boom' });
+
+      expect(tracer.getFinishedSpans()).toEqual([]);
+
+      span.end(2000);
+      span.end(3000);
+
+      const [finished] = tracer.getFinishedSpans();
+
+      expect(tracer.getFinishedSpans()).toHaveLength(1);
+      expect(finished).toMatchObject({
+        name: 'GET /users',
+        kind: SpanKind.CLIENT,
+        attributes: { 'http.request.method': 'GET', 'http.response.status_code': 500 },
+        events: [{ name: 'retry', attributes: { attempt: 1 } }],
+        exceptions: [new Error('Boom')],
+        status: { code: SpanStatusCode.ERROR, message: 'Boom' },
+        startTime: 1000,
+        endTime: 2000,
+        ended: true,
+      });
+      expect(finished.spanContext().traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(finished.spanContext().spanId).toMatch(/^[0-9a-f]{16}$/);
+
+      tracer.reset();
+
+      expect(tracer.getFinishedSpans()).toEqual([]);
+    });
+
+    it('should parent spans to the given span context', () => {
+      const tracer = new InMemoryTracer({ traceId, spanId, traceFlags: 0 });
+      const span = tracer.startSpan('GET /users');
+
+      expect(span.spanContext()).toMatchObject({ traceId, traceFlags: 0 });
+      expect(span.spanContext().spanId).not.toBe(spanId);
+      expect(span.parentSpanId).toBe(spanId);
+      expect(span.kind).toBe(SpanKind.INTERNAL);
+    });
+  });
+});
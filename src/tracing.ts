@@ -0,0 +1,238 @@
+import type { Route } from './route';
+
+/**
+ * Span kinds, with the same values as OpenTelemetry's `SpanKind`
+ */
+export const SpanKind = {
+  INTERNAL: 0,
+  SERVER: 1,
+  CLIENT: 2,
+  PRODUCER: 3,
+  CONSUMER: 4,
+} as const;
+
+export type SpanKind = (typeof SpanKind)[keyof typeof SpanKind];
+
+/**
+ * Span status codes, with the same values as OpenTelemetry's `SpanStatusCode`
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+export type SpanStatusCode = (typeof SpanStatusCode)[keyof typeof SpanStatusCode];
+
+export type AttributeValue = string | number | boolean | string[] | number[] | boolean[];
+
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: { serialize(): string };
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  startTime?: number;
+}
+
+/**
+ * The subset of the OpenTelemetry `Span` interface used by the client
+ */
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: AttributeValue): unknown;
+  addEvent(name: string, attributes?: Attributes): unknown;
+  setStatus(status: { code: SpanStatusCode; message?: string }): unknown;
+  recordException(exception: unknown): void;
+  end(endTime?: number): void;
+}
+
+/**
+ * The subset of the OpenTelemetry `Tracer` interface used by the client, so a tracer from
+ * `@opentelemetry/api` (`trace.getTracer(...)`) can be passed in as is. Spans are started in the
+ * active context, so they are parented to the active span.
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+export interface TracingOptions {
+  tracer: Tracer;
+  /**
+   * Route templates used in span names and the `url.template` attribute, e.g. `/users/:id`. URLs
+   * that don't match any of them use their path with ids replaced by `:id`
+   */
+  routes?: Route[];
+  /**
+   * Whether to inject `traceparent` / `tracestate` headers into outgoing requests. Defaults to
+   * true
+   */
+  propagate?: boolean;
+}
+
+/**
+ * Formats a W3C `traceparent` header
+ *
+ * @param spanContext - The span context
+ * @returns The header value
+ */
+export const formatTraceparent = ({ traceId, spanId, traceFlags }: SpanContext): string =>
+  `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+
+/**
+ * Parses a W3C `traceparent` header
+ *
+ * @param header - The header value
+ * @returns The span context or undefined if the header is invalid
+ */
+export const parseTraceparent = (header: string): SpanContext | undefined => {
+  const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(
+    header.trim().toLowerCase()
+  );
+
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+    return undefined;
+  }
+
+  return { traceId: match[2], spanId: match[3], traceFlags: parseInt(match[4], 16) };
+};
+
+/**
+ * Generates a random lowercase hex id
+ *
+ * @param bytes - The number of random bytes
+ * @returns The id
+ */
+const generateId = (bytes: number): string => {
+  const values = new Uint8Array(bytes);
+
+  if (typeof globalThis.crypto?.getRandomValues === 'function') {
+    globalThis.crypto.getRandomValues(values);
+  } else {
+    values.forEach((_, i) => {
+      values[i] = Math.floor(Math.random() * 256);
+    });
+  }
+
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+};
+
+export interface SpanEvent {
+  name: string;
+  attributes: Attributes;
+  time: number;
+}
+
+/**
+ * A span recorded by the `InMemoryTracer`
+ */
+export class InMemorySpan implements Span {
+  attributes: Attributes;
+  events: SpanEvent[] = [];
+  exceptions: unknown[] = [];
+  status: { code: SpanStatusCode; message?: string } = { code: SpanStatusCode.UNSET };
+  startTime: number;
+  endTime: number | undefined;
+  parentSpanId: string | undefined;
+
+  private context: SpanContext;
+
+  constructor(
+    public name: string,
+    public kind: SpanKind,
+    attributes: Attributes,
+    startTime: number,
+    parent: SpanContext | undefined,
+    private onEnd: (span: InMemorySpan) => void
+  ) {
+    this.attributes = { ...attributes };
+    this.startTime = startTime;
+    this.context = {
+      traceId: parent?.traceId || generateId(16),
+      spanId: generateId(8),
+      traceFlags: parent?.traceFlags ?? 1,
+    };
+    this.parentSpanId = parent?.spanId;
+  }
+
+  get ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  spanContext(): SpanContext {
+    return this.context;
+  }
+
+  setAttribute(key: string, value: AttributeValue) {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  addEvent(name: string, attributes: Attributes = {}) {
+    this.events.push({ name, attributes, time: Date.now() });
+    return this;
+  }
+
+  setStatus(status: { code: SpanStatusCode; message?: string }) {
+    this.status = status;
+    return this;
+  }
+
+  recordException(exception: unknown) {
+    this.exceptions.push(exception);
+  }
+
+  end(endTime = Date.now()) {
+    if (this.ended) {
+      return;
+    }
+
+    this.endTime = endTime;
+    this.onEnd(this);
+  }
+}
+
+/**
+ * A tracer that keeps finished spans in memory. Useful in tests, or to try tracing out without
+ * an OpenTelemetry SDK and collector.
+ */
+export class InMemoryTracer implements Tracer {
+  private spans: InMemorySpan[] = [];
+
+  /**
+   * @param parent - Optional span context new spans are parented to, e.g. parsed from an
+   * incoming `traceparent` header
+   */
+  constructor(public parent?: SpanContext) {}
+
+  startSpan(name: string, options: SpanOptions = {}): InMemorySpan {
+    return new InMemorySpan(
+      name,
+      options.kind ?? SpanKind.INTERNAL,
+      options.attributes || {},
+      options.startTime ?? Date.now(),
+      this.parent,
+      span => this.spans.push(span)
+    );
+  }
+
+  /**
+   * @returns The spans that have ended, in the order they ended
+   */
+  getFinishedSpans(): InMemorySpan[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Clears the finished spans
+   */
+  reset() {
+    this.spans = [];
+  }
+}
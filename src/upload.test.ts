@@ -0,0 +1,95 @@
+import { Readable } from 'stream';
+import { createChunkReader, createFormData, encodeUploadMetadata } from './upload';
+
+const decode = (chunk: Uint8Array) => new TextDecoder().decode(chunk);
+
+describe('upload', () => {
+  describe('createFormData', () => {
+    it('should add fields, sending values that are not strings as JSON', async () => {
+      const form = await createFormData({}, { name: 'report', size: 3, skipped: undefined });
+
+      expect(form.get('name')).toBe('report');
+      expect(form.get('size')).toBe('3');
+      expect(form.has('skipped')).toBe(false);
+    });
+
+    it('should add files with their name and type', async () => {
+      const form = await createFormData({
+        text: { data: 'hello', name: 'hello.txt', type: 'text/plain' },
+        file: new File(['data'], 'data.csv', { type: 'text/csv' }),
+        bytes: new Uint8Array([1, 2, 3]),
+      });
+
+      const text = form.get('text') as File;
+      const file = form.get('file') as File;
+      const bytes = form.get('bytes') as File;
+
+      expect([text.name, text.type, await text.text()]).toEqual([
+        'hello.txt',
+        'text/plain',
+        'hello',
+      ]);
+      expect([file.name, file.type]).toEqual(['data.csv', 'text/csv']);
+      expect([bytes.name, bytes.size]).toEqual(['bytes', 3]);
+    });
+
+    it('should read streams and add several files to a field', async () => {
+      const form = await createFormData({
+        parts: [() => Readable.from([Buffer.from('ab'), 'cd']), 'ef'],
+      });
+
+      const parts = form.getAll('parts') as File[];
+
+      expect(await Promise.all(parts.map(part => part.text()))).toEqual(['abcd', 'ef']);
+    });
+  });
+
+  describe('encodeUploadMetadata', () => {
+    it('should base64 encode the values', () => {
+      expect(encodeUploadMetadata({ filename: 'résumé.pdf', public: '' })).toBe(
+        `filename ${Buffer.from('résumé.pdf').toString('base64')},public`
+      );
+    });
+  });
+
+  describe('createChunkReader', () => {
+    it('should read chunks of a string', async () => {
+      const reader = createChunkReader('abcdef');
+
+      expect(reader.size).toBe(6);
+      expect(decode(await reader.read(2, 3))).toBe('cde');
+      expect(decode(await reader.read(4, 10))).toBe('ef');
+    });
+
+    it('should copy chunks of bytes', async () => {
+      const bytes = new Uint8Array([1, 2, 3, 4]);
+      const chunk = await createChunkReader(bytes).read(1, 2);
+
+      expect([...chunk]).toEqual([2, 3]);
+      expect(chunk.buffer.byteLength).toBe(2);
+    });
+
+    it('should read chunks of a blob', async () => {
+      const reader = createChunkReader(new Blob(['abcdef']));
+
+      expect(reader.size).toBe(6);
+      expect(decode(await reader.read(3, 2))).toBe('de');
+    });
+
+    it('should read a stream forward, across its chunks', async () => {
+      const createStream = jest.fn(() => Readable.from([Buffer.from('abc'), Buffer.from('defg')]));
+      const reader = createChunkReader({ data: createStream, size: 7 });
+
+      expect(decode(await reader.read(0, 2))).toBe('ab');
+      expect(decode(await reader.read(2, 2))).toBe('cd');
+      // a resume may start inside the last chunk that was read
+      expect(decode(await reader.read(3, 4))).toBe('defg');
+      expect(createStream).toHaveBeenCalledTimes(1);
+      await expect(reader.read(0, 2)).rejects.toThrow(RangeError);
+    });
+
+    it('should require the size of a stream', () => {
+      expect(() => createChunkReader(() => Readable.from(['abc']))).toThrow(TypeError);
+    });
+  });
+});
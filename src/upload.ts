@@ -0,0 +1,256 @@
+import type { AxiosRetryClientRequestConfig } from './axios-retry-client';
+import { readChunks, type StreamBody } from './stream';
+
+/**
+ * Contents of an uploaded file. Streams are passed as a function returning a new stream, so that
+ * the body can be rebuilt for every attempt.
+ */
+export type UploadSource =
+  | Blob
+  | Uint8Array
+  | ArrayBuffer
+  | string
+  | (() => StreamBody | Promise<StreamBody>);
+
+export interface UploadFile {
+  data: UploadSource;
+  /**
+   * The file name. Defaults to the name of a `File`, otherwise the field name
+   */
+  name?: string;
+  /**
+   * The content type. Defaults to the type of a `Blob`, otherwise `application/octet-stream`
+   */
+  type?: string;
+  /**
+   * Size in bytes. Required for resumable uploads from a stream
+   */
+  size?: number;
+}
+
+export interface UploadProgress {
+  /**
+   * Bytes sent so far
+   */
+  loaded: number;
+  /**
+   * Total size in bytes, when known
+   */
+  total?: number;
+}
+
+export interface UploadOptions extends AxiosRetryClientRequestConfig {
+  /**
+   * Files by form field name. Pass an array to send several files in the same field.
+   */
+  files: Record<string, UploadSource | UploadFile | Array<UploadSource | UploadFile>>;
+  /**
+   * Other form fields. Values that aren't strings are sent as JSON.
+   */
+  fields?: Record<string, unknown>;
+  /**
+   * Called as the body of each attempt is sent
+   */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface ResumableUploadOptions extends AxiosRetryClientRequestConfig {
+  file: UploadSource | UploadFile;
+  /**
+   * Size of each chunk in bytes. Defaults to 5 MiB
+   */
+  chunkSize?: number;
+  /**
+   * URL of an upload created earlier, to resume it instead of creating a new one
+   */
+  uploadUrl?: string;
+  /**
+   * Called with the upload URL once the upload is created, e.g. to store it so the upload can be
+   * resumed later
+   */
+  onUploadUrl?: (uploadUrl: string) => void;
+  /**
+   * Metadata sent in the `Upload-Metadata` header when creating the upload
+   */
+  metadata?: Record<string, string>;
+  /**
+   * How many times to fetch the offset from the server and carry on when a chunk fails after
+   * its retries. Defaults to 3
+   */
+  maxResumes?: number;
+  /**
+   * Called as chunks are sent
+   */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+export const TUS_VERSION = '1.0.0';
+
+/**
+ * @param file - An upload source or file
+ * @returns The file
+ */
+const toUploadFile = (file: UploadSource | UploadFile): UploadFile =>
+  typeof file === 'object' && 'data' in file ? file : { data: file };
+
+/**
+ * Reads an upload source into a `Blob`
+ *
+ * @param source - The upload source
+ * @param type - The content type
+ * @returns The blob
+ */
+const toBlob = async (source: UploadSource, type?: string): Promise<Blob> => {
+  if (source instanceof Blob && (type === undefined || type === source.type)) {
+    return source;
+  }
+
+  if (typeof source === 'function') {
+    const chunks: Uint8Array[] = [];
+
+    for await (const chunk of readChunks(await source())) {
+      chunks.push(chunk);
+    }
+
+    return new Blob(chunks, type === undefined ? {} : { type });
+  }
+
+  return new Blob([source], type === undefined ? {} : { type });
+};
+
+/**
+ * Builds a multipart form from files and fields. Streams are read into memory, use a resumable
+ * upload for files too large for that.
+ *
+ * @param files - Files by field name
+ * @param fields - Other fields
+ * @returns The form
+ */
+export const createFormData = async (
+  files: UploadOptions['files'],
+  fields: Record<string, unknown> = {}
+): Promise<FormData> => {
+  const form = new FormData();
+
+  for (const [name, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      form.append(name, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+  }
+
+  for (const [field, value] of Object.entries(files)) {
+    for (const file of (Array.isArray(value) ? value : [value]).map(toUploadFile)) {
+      const blob = await toBlob(file.data, file.type);
+      const fileName = file.name ?? (file.data as { name?: string }).name ?? field;
+
+      form.append(field, blob, fileName);
+    }
+  }
+
+  return form;
+};
+
+/**
+ * Encodes the `Upload-Metadata` header of a tus upload
+ *
+ * @param metadata - The metadata
+ * @returns The header value
+ */
+export const encodeUploadMetadata = (metadata: Record<string, string>): string => {
+  const encoder = new TextEncoder();
+
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = encoder.encode(value);
+      let binary = '';
+
+      bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+      });
+
+      return value ? `${key} ${btoa(binary)}` : key;
+    })
+    .join(',');
+};
+
+/**
+ * Reads ranges of an upload source as chunks
+ */
+export interface ChunkReader {
+  size: number;
+  /**
+   * Reads a chunk. The chunk is a copy, so it's safe to send as is.
+   *
+   * @param offset - The start of the chunk
+   * @param length - The chunk length
+   */
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+/**
+ * Creates a chunk reader for an upload. A stream is read once, so it can only be read forward:
+ * ranges before the current chunk can't be read again.
+ *
+ * @param file - The upload source or file
+ * @returns The chunk reader
+ */
+export const createChunkReader = (file: UploadSource | UploadFile): ChunkReader => {
+  const { data, size } = toUploadFile(file);
+
+  if (data instanceof Blob) {
+    return {
+      size: data.size,
+      read: async (offset, length) =>
+        new Uint8Array(await data.slice(offset, offset + length).arrayBuffer()),
+    };
+  }
+
+  if (typeof data !== 'function') {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+
+    return {
+      size: bytes.length,
+      read: async (offset, length) => bytes.slice(offset, offset + length),
+    };
+  }
+
+  if (size === undefined) {
+    throw new TypeError('The size of a streamed file is required for resumable uploads');
+  }
+
+  let chunks: AsyncIterator<Uint8Array> | undefined;
+  let buffer = new Uint8Array(0);
+  let bufferOffset = 0;
+
+  return {
+    size,
+    read: async (offset, length) => {
+      if (offset < bufferOffset) {
+        throw new RangeError(`Can't read the stream from ${offset}, it's at ${bufferOffset}`);
+      }
+
+      chunks = chunks || readChunks(await data())[Symbol.asyncIterator]();
+
+      while (bufferOffset + buffer.length < offset + length) {
+        const { done, value } = await chunks.next();
+
+        if (done) {
+          break;
+        }
+
+        const next = new Uint8Array(buffer.length + value.length);
+
+        next.set(buffer);
+        next.set(value, buffer.length);
+        buffer = next;
+      }
+
+      buffer = buffer.slice(offset - bufferOffset);
+      bufferOffset = offset;
+
+      return buffer.slice(0, length);
+    },
+  };
+};